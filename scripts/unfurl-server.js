@@ -0,0 +1,98 @@
+/**
+ * Local Unfurl Server
+ * A stand-in for the unfurl edge function during development, for when the
+ * Supabase functions runtime is not available. Same API: POST { url } -> { preview }.
+ * Results are cached in memory for a day.
+ *
+ * Usage:
+ *   npm run unfurl
+ *   VITE_UNFURL_URL=http://localhost:8787 in .env
+ */
+
+import { lookup } from 'node:dns/promises';
+import { createServer } from 'node:http';
+import { fetchLinkPreview, isPublicUrl } from '../supabase/functions/unfurl/openGraph.js';
+
+const PORT = Number(process.env.UNFURL_PORT) || 8787;
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 4096;
+
+const cache = new Map();
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function send(res, status, body) {
+    res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function readJson(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(body));
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+async function resolveHost(hostname) {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.map((entry) => entry.address);
+}
+
+async function getPreview(url) {
+    const cached = cache.get(url);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+        return cached.preview;
+    }
+
+    const preview = await fetchLinkPreview(url, resolveHost);
+    cache.set(url, { preview, fetchedAt: Date.now() });
+    return preview;
+}
+
+const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, corsHeaders);
+        res.end();
+        return;
+    }
+
+    if (req.method !== 'POST') {
+        send(res, 405, { error: 'Method not allowed' });
+        return;
+    }
+
+    let url;
+    try {
+        ({ url } = await readJson(req));
+    } catch {
+        send(res, 400, { error: 'Invalid request body' });
+        return;
+    }
+
+    if (typeof url !== 'string' || url.length > 2048 || !isPublicUrl(url)) {
+        send(res, 400, { error: 'Invalid URL' });
+        return;
+    }
+
+    send(res, 200, { preview: await getPreview(url) });
+});
+
+server.listen(PORT);
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { isPersonaAllowed } from '../lib/personaAllowlistService';
 import { X, TrendingUp, MessageSquare, Clock, BarChart } from 'lucide-react';
 import * as Icons from 'lucide-react';
 
@@ -47,26 +48,40 @@ export function AnalyticsDashboard({ personas, onClose }: AnalyticsDashboardProp
     const personaStats: PersonaStats[] = [];
     let total = 0;
 
+    const { data: contacts } = await supabase
+      .from('contacts')
+      .select('id, allowed_persona_ids')
+      .eq('user_id', user!.id);
+    const allowlists = new Map((contacts || []).map((c) => [c.id, c.allowed_persona_ids]));
+
     for (const persona of personas) {
-      const { data: channels } = await supabase
+      const { data } = await supabase
         .from('persona_channels')
         .select(`
           id,
+          contact_id,
+          conversation_id,
           last_message_at,
           contacts!inner(user_id)
         `)
         .eq('persona_id', persona.id)
         .eq('contacts.user_id', user!.id);
 
+      // Chats left behind when a persona was taken off a contact's allowlist don't count
+      const channels = data?.filter((channel) => isPersonaAllowed(allowlists.get(channel.contact_id), persona.id));
+
       if (channels) {
         let messageCount = 0;
         let latestMessageTime: string | null = null;
 
         for (const channel of channels) {
-          const { count } = await supabase
+          // Count both sides of the conversation, not just what we sent
+          const query = supabase
             .from('messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('channel_id', channel.id);
+            .select('*', { count: 'exact', head: true });
+          const { count } = channel.conversation_id
+            ? await query.eq('conversation_id', channel.conversation_id)
+            : await query.eq('channel_id', channel.id);
 
           messageCount += count || 0;
 
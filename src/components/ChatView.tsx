@@ -1,63 +1,235 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Send, Lock, Bell, BellOff, Search, Paperclip, Image as ImageIcon, X } from 'lucide-react';
+import { Send, Lock, Bell, BellOff, Search, Paperclip, Image as ImageIcon, X, Reply, Clock, Type, Users, BarChart2 } from 'lucide-react';
 import { TypingIndicator } from './TypingIndicator';
-import { MessageStatus } from './MessageStatus';
-import { MessageAttachment } from './MessageAttachment';
+import { MessageBubble, type DeleteMode } from './MessageBubble';
+import { MessageHistory } from './MessageHistory';
 import { MessageSearch } from './MessageSearch';
 import { EmojiPickerComponent } from './EmojiPickerComponent';
 import { GifPicker } from './GifPicker';
 import { FileUpload } from './FileUpload';
+import { SchedulePicker } from './SchedulePicker';
+import { ScheduledMessages } from './ScheduledMessages';
+import { DisappearingTimerMenu } from './DisappearingTimerMenu';
+import { PersonaPrivacyMenu } from './PersonaPrivacyMenu';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { ForwardDialog, type ForwardContact, type ForwardPersona } from './ForwardDialog';
+import { PinnedMessages } from './PinnedMessages';
+import { MarkdownContent } from './MarkdownContent';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { GroupSettings } from './GroupSettings';
+import { CreatePollDialog } from './CreatePollDialog';
+import { VoiceRecorderButton } from './VoiceRecorderButton';
 import { subscribeToTyping, handleTypingInput, cleanupTyping } from '../lib/typingService';
 import { sendMessageNotification, shouldSendNotification } from '../lib/notificationService';
+import { isPersonaAvailable, holdNotification } from '../lib/personaScheduleService';
+import { isPersonaAllowed, filterAllowedPersonas } from '../lib/personaAllowlistService';
+import {
+  fetchMessagePage,
+  searchMessages,
+  mergeMessage,
+  editMessage,
+  deleteMessageForEveryone,
+  deleteMessageForMe,
+  fetchMessageRange,
+  fetchMessagesByIds,
+  getMessagePreview,
+  type MessageCursor,
+  type MessageRow,
+} from '../lib/messageService';
+import {
+  fetchReactions,
+  addReaction,
+  removeReaction,
+  subscribeToReactions,
+  summarizeReactions,
+  getQuickReactions,
+  type MessageReaction,
+} from '../lib/reactionService';
+import {
+  enqueueMessage,
+  getOutboxMessages,
+  subscribeToOutbox,
+  retryOutboxMessage,
+  discardOutboxMessage,
+  outboxEntryToMessage,
+  type NewOutboxMessage,
+  type OutboxMessage,
+} from '../lib/outboxService';
+import {
+  fetchScheduledMessages,
+  scheduleMessage,
+  updateScheduledMessage,
+  cancelScheduledMessage,
+  subscribeToScheduledMessages,
+  type ScheduledMessage,
+} from '../lib/scheduledMessageService';
+import { getDisappearingTimer, setDisappearingTimer } from '../lib/disappearingService';
+import { forwardMessage, type ForwardTarget } from '../lib/forwardService';
+import { getDraft, saveDraft } from '../lib/draftService';
+import {
+  getRichFormatting,
+  setRichFormatting,
+  getPersonaPrivacy,
+  setPersonaPrivacy,
+  getMismatchSensitivity,
+  type PersonaPrivacy,
+  type MismatchSensitivity,
+} from '../lib/personaService';
+import { checkPersonaMismatch, type PersonaMismatch } from '../lib/personaMismatchService';
+import { needsTone, labelMessageTones, TONE_LABELS } from '../lib/toneService';
+import {
+  parseSlashCommand,
+  findSlashCommands,
+  getSlashCommand,
+  runSlashCommand,
+  type SlashCommand,
+  type SlashCommandContext,
+} from '../lib/slashCommandService';
+import { hasMarkdown, wrapSelection } from '../lib/markdown';
+import { findPreviewUrl, removeLinkPreview, unfurl, type LinkPreview } from '../lib/unfurlService';
+import { fetchGroupMembers, subscribeToGroupMembers, type GroupChat, type GroupMember } from '../lib/groupService';
+import { fetchStarredMessageIds, starMessage, unstarMessage } from '../lib/starService';
+import {
+  castPollVote,
+  fetchPollResults,
+  getPoll,
+  getPollContent,
+  subscribeToPollTallies,
+  summarizePoll,
+  type Poll,
+  type PollResults,
+} from '../lib/pollService';
+import {
+  fetchPinnedMessages,
+  pinMessage,
+  unpinMessage,
+  subscribeToPins,
+  MAX_PINNED_MESSAGES,
+  type PinnedMessage,
+} from '../lib/pinService';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Json } from '../lib/database.types';
 
-interface Message {
-  id: string;
-  content: string;
-  sender_id: string;
-  created_at: string;
-  detected_tone: string | null;
-  status: 'sent' | 'delivered' | 'read';
-  delivered_at: string | null;
-  read_at: string | null;
-  file_url: string | null;
-  file_type: string | null;
-  file_name: string | null;
-}
+type Message = MessageRow;
+
+// Ctrl/Cmd shortcuts that wrap the composer selection in Markdown
+const FORMATTING_SHORTCUTS: Record<string, [string, string]> = {
+  b: ['**', '**'],
+  i: ['*', '*'],
+  e: ['`', '`'],
+  k: ['[', '](https://)'],
+};
 
 interface ChatViewProps {
+  /** For a group this is the user's group contact, which has no contact_user_id */
   contact: {
     id: string;
-    contact_user_id: string;
+    contact_user_id: string | null;
     nickname: string | null;
     display_name: string;
+    /** Personas the user allows with this contact; null allows all */
+    allowed_persona_ids?: string[] | null;
   };
   persona: {
     id: string;
     name: string;
     color_primary: string;
+    color_secondary: string;
     color_accent: string;
+    schedule?: Json | null;
   };
+  /** Everything the user can forward messages to, and add to groups */
+  contacts: (ForwardContact & { contact_user_id: string })[];
+  personas: (ForwardPersona & { icon: string; description: string })[];
+  group?: GroupChat;
+  onLeaveGroup?: () => void;
+  /** Scroll to this message once its conversation has loaded, e.g. when opened from Starred */
+  jumpTo?: { messageId: string; conversationId: string } | null;
+  onJumpHandled?: () => void;
+  /** Switch this chat to another persona, e.g. from the /persona command; not available in groups */
+  onSwitchPersona?: (personaId: string) => void;
 }
 
-export function ChatView({ contact, persona }: ChatViewProps) {
+export function ChatView({
+  contact,
+  persona,
+  contacts,
+  personas,
+  group,
+  onLeaveGroup,
+  jumpTo,
+  onJumpHandled,
+  onSwitchPersona,
+}: ChatViewProps) {
   const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [channelId, setChannelId] = useState<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [peerPersonaName, setPeerPersonaName] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [personaNotAllowed, setPersonaNotAllowed] = useState(false);
   const [isLocked, setIsLocked] = useState(false);
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [disappearingSeconds, setDisappearingSeconds] = useState<number | null>(null);
   const [isTyping, setIsTyping] = useState(false);
-  const [contactTyping, setContactTyping] = useState(false);
+  const [typingUserId, setTypingUserId] = useState<string | null>(null);
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showGifPicker, setShowGifPicker] = useState(false);
+  const [gifQuery, setGifQuery] = useState('');
   const [showFileUpload, setShowFileUpload] = useState(false);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [quotedMessages, setQuotedMessages] = useState<Map<string, Message | null>>(new Map());
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [reactions, setReactions] = useState<Map<string, MessageReaction[]>>(new Map());
+  const [pollResults, setPollResults] = useState<Map<string, PollResults>>(new Map());
+  const [showCreatePoll, setShowCreatePoll] = useState(false);
+  const [pollQuestion, setPollQuestion] = useState('');
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [mismatchSensitivity, setMismatchSensitivity] = useState<MismatchSensitivity>('medium');
+  const [mismatch, setMismatch] = useState<PersonaMismatch<ChatViewProps['personas'][number]> | null>(null);
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [commandMenuDismissed, setCommandMenuDismissed] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null);
+  const [pins, setPins] = useState<PinnedMessage[]>([]);
+  const [starredIds, setStarredIds] = useState<Set<string>>(new Set());
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
+  const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
+  const [showGroupSettings, setShowGroupSettings] = useState(false);
+  const [richFormatting, setRichFormattingState] = useState(true);
+  const [privacy, setPrivacy] = useState<PersonaPrivacy>({ send_read_receipts: true, send_typing_indicators: true });
+  const [composerPreview, setComposerPreview] = useState<LinkPreview | null>(null);
+  const [dismissedPreviewUrl, setDismissedPreviewUrl] = useState<string | null>(null);
+  const [unloadedPinnedMessages, setUnloadedPinnedMessages] = useState<Map<string, Message>>(new Map());
+  const [olderCursor, setOlderCursor] = useState<MessageCursor | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [searchResults, setSearchResults] = useState<Message[]>([]);
+  const [searchCursor, setSearchCursor] = useState<MessageCursor | null>(null);
+  const [searching, setSearching] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const pendingJumpRef = useRef<string | null>(null);
+  const activeSearchRef = useRef('');
+  const reactionsLoadedRef = useRef<Set<string>>(new Set());
+  const tonesRequestedRef = useRef<Map<string, string>>(new Map());
+  const pollsLoadedRef = useRef<Set<string>>(new Set());
+  const draftTargetRef = useRef<{ channelId: string; contactId: string; personaId: string } | null>(null);
+  // Text moved over from another persona, which replaces the new channel's draft
+  const carriedDraftRef = useRef<string | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const typingChannelRef = useRef<RealtimeChannel | null>(null);
+  // Read by the realtime handlers, which outlive the render they were created in
+  const groupMembersRef = useRef<GroupMember[]>([]);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -73,88 +245,618 @@ export function ChatView({ contact, persona }: ChatViewProps) {
   }, [contact.id, persona.id]);
 
   useEffect(() => {
-    if (channelId) {
+    if (channelId && conversationId) {
       loadMessages();
-      subscribeToMessages();
+      const unsubscribeMessages = subscribeToMessages();
+      const reactionsChannel = subscribeToReactions(conversationId, addReactionToState, removeReactionFromState);
+      const pollsChannel = subscribeToPollTallies(conversationId, (tally) => refreshPollResults(tally.message_id));
       subscribeToTypingIndicators();
       markMessagesAsRead();
       resetUnreadCount();
+
+      return () => {
+        unsubscribeMessages();
+        supabase.removeChannel(reactionsChannel);
+        supabase.removeChannel(pollsChannel);
+      };
+    }
+  }, [channelId, conversationId]);
+
+  // Keep this channel's queued messages in sync with the outbox
+  useEffect(() => {
+    if (!channelId) return;
+
+    getOutboxMessages(channelId).then(setOutbox);
+
+    return subscribeToOutbox(
+      (entries) => setOutbox(entries.filter((entry) => entry.channel_id === channelId)),
+      (delivered) => {
+        if (delivered.channel_id === channelId) {
+          setMessages((prev) => mergeMessage(prev, delivered));
+        }
+      }
+    );
+  }, [channelId]);
+
+  useEffect(() => {
+    getRichFormatting(persona.id).then(setRichFormattingState);
+    getPersonaPrivacy(persona.id).then(setPrivacy);
+    getMismatchSensitivity(persona.id).then(setMismatchSensitivity);
+    setMismatch(null);
+  }, [persona.id]);
+
+  const previewUrl = useMemo(() => findPreviewUrl(newMessage), [newMessage]);
+
+  const typedCommand = useMemo(() => parseSlashCommand(newMessage), [newMessage]);
+  const commandSuggestions = useMemo(() => {
+    if (commandMenuDismissed) return [];
+    if (newMessage === '/') return findSlashCommands('');
+    return typedCommand && !typedCommand.complete ? findSlashCommands(typedCommand.name) : [];
+  }, [newMessage, typedCommand, commandMenuDismissed]);
+  const activeCommand = !commandMenuDismissed && typedCommand?.complete ? getSlashCommand(typedCommand.name) : undefined;
+
+  // Unfurl the composer's first link once typing pauses
+  useEffect(() => {
+    if (!previewUrl || previewUrl === dismissedPreviewUrl) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      unfurl(previewUrl).then((preview) => {
+        if (!cancelled) setComposerPreview(preview);
+      });
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [previewUrl, dismissedPreviewUrl]);
+
+  const visibleComposerPreview =
+    previewUrl && previewUrl !== dismissedPreviewUrl && composerPreview?.url === previewUrl ? composerPreview : null;
+
+  // Group members give each sender a name and their persona's color
+  useEffect(() => {
+    if (!group) {
+      groupMembersRef.current = [];
+      setGroupMembers([]);
+      return;
     }
+
+    const loadMembers = () => fetchGroupMembers(group.id).then((members) => {
+      groupMembersRef.current = members;
+      setGroupMembers(members);
+    });
+    loadMembers();
+    const membersChannel = subscribeToGroupMembers(group.id, loadMembers);
+
+    return () => {
+      supabase.removeChannel(membersChannel);
+    };
+  }, [group?.id]);
+
+  // Restore the channel's draft, and remember which channel the composer text belongs to
+  useEffect(() => {
+    if (!channelId) return;
+
+    draftTargetRef.current = { channelId, contactId: contact.id, personaId: persona.id };
+    setNewMessage(carriedDraftRef.current ?? getDraft(channelId)?.content ?? '');
+    carriedDraftRef.current = null;
+  }, [channelId]);
+
+  useEffect(() => {
+    const target = draftTargetRef.current;
+    if (target && target.channelId === channelId) {
+      saveDraft(target.channelId, target.contactId, target.personaId, newMessage);
+    }
+  }, [newMessage]);
+
+  useEffect(() => {
+    if (!channelId) return;
+    fetchStarredMessageIds(channelId).then(setStarredIds);
+  }, [channelId]);
+
+  // Wait for the target's first page so the jump can tell loaded from older messages
+  useEffect(() => {
+    if (jumpTo && loadedConversationId === jumpTo.conversationId) {
+      jumpToMessage(jumpTo.messageId);
+      onJumpHandled?.();
+    }
+  }, [jumpTo, loadedConversationId]);
+
+  // Pins are shared by both sides of the conversation
+  useEffect(() => {
+    if (!conversationId) return;
+
+    fetchPinnedMessages(conversationId).then(setPins);
+    const pinsChannel = subscribeToPins(
+      conversationId,
+      (pin) => setPins((prev) => (prev.some((p) => p.message_id === pin.message_id) ? prev : [...prev, pin])),
+      (pin) => setPins((prev) => prev.filter((p) => p.id !== pin.id))
+    );
+
+    return () => {
+      supabase.removeChannel(pinsChannel);
+    };
+  }, [conversationId]);
+
+  // Pinned messages outside the loaded pages are fetched on their own
+  useEffect(() => {
+    const missingIds = pins
+      .map((pin) => pin.message_id)
+      .filter((id) => !messages.some((m) => m.id === id) && !unloadedPinnedMessages.has(id));
+
+    if (missingIds.length === 0) return;
+
+    fetchMessagesByIds(missingIds).then((found) => {
+      setUnloadedPinnedMessages((prev) => {
+        const next = new Map(prev);
+        found.forEach((msg) => next.set(msg.id, msg));
+        return next;
+      });
+    });
+  }, [pins]);
+
+  // Scheduled messages are delivered by the server; refresh when one is sent or changed
+  useEffect(() => {
+    if (!channelId) return;
+
+    const refresh = () => fetchScheduledMessages(channelId).then(setScheduledMessages);
+    refresh();
+    const scheduledChannel = subscribeToScheduledMessages(channelId, refresh);
+
+    return () => {
+      supabase.removeChannel(scheduledChannel);
+    };
   }, [channelId]);
 
+  // Queued messages render after the stored ones until the server has them
+  const pendingMessages = outbox
+    .filter((entry) => !messages.some((m) => m.id === entry.id))
+    .map(outboxEntryToMessage);
+  const outboxStates = new Map(outbox.map((entry) => [entry.id, entry.state]));
+  const allMessages = pendingMessages.length > 0 ? [...messages, ...pendingMessages] : messages;
+
+  // Search results come from the server; loaded copies carry the latest edits
+  const activeSearch = searchQuery.trim();
+  const loadedById = new Map(messages.map((m) => [m.id, m]));
+  const filteredMessages = activeSearch
+    ? searchResults.map((msg) => loadedById.get(msg.id) ?? msg)
+    : allMessages;
+
+  // Messages whose reactions, polls and quotes are needed, inside or outside the loaded pages
+  const knownMessages = useMemo(
+    () => (searchResults.length > 0 ? [...messages, ...searchResults] : messages),
+    [messages, searchResults]
+  );
+
+  // Only the bubbles inside the viewport (plus overscan) are mounted
+  const virtualizer = useVirtualizer({
+    count: filteredMessages.length,
+    getScrollElement: () => scrollContainerRef.current,
+    estimateSize: () => 72,
+    overscan: 8,
+    paddingStart: 24,
+    getItemKey: (index) => filteredMessages[index].id,
+  });
+  const totalSize = virtualizer.getTotalSize();
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    // Keep the same messages on screen when an older page is prepended
+    if (prependAnchorRef.current) {
+      const anchor = prependAnchorRef.current;
+      prependAnchorRef.current = null;
+      container.scrollTop = anchor.scrollTop + (container.scrollHeight - anchor.scrollHeight);
+      return;
+    }
+
+    if (stickToBottomRef.current) {
+      scrollToBottom();
+    }
+  }, [messages, searchResults, outbox, totalSize, typingUserId]);
+
+  // Search covers the whole conversation, so it runs on the server as the query settles
   useEffect(() => {
-    scrollToBottom();
+    activeSearchRef.current = `${conversationId}:${activeSearch}`;
+    setSearchResults([]);
+    setSearchCursor(null);
+    setSearching(!!conversationId && !!activeSearch);
+    if (!conversationId || !activeSearch) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const page = await searchMessages(conversationId, activeSearch);
+      if (cancelled) return;
+
+      stickToBottomRef.current = true;
+      setSearchResults(page.messages);
+      setSearchCursor(page.nextCursor);
+      setSearching(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [conversationId, activeSearch]);
+
+  // Fetch quoted originals that are not part of the loaded pages
+  useEffect(() => {
+    const loadedIds = new Set(knownMessages.map((m) => m.id));
+    const missingIds = [
+      ...new Set(
+        knownMessages
+          .map((m) => m.reply_to_id)
+          .filter((id): id is string => !!id && !loadedIds.has(id) && !quotedMessages.has(id))
+      ),
+    ];
+
+    if (missingIds.length === 0) return;
+
+    fetchMessagesByIds(missingIds).then((found) => {
+      setQuotedMessages((prev) => {
+        const next = new Map(prev);
+        missingIds.forEach((id) => next.set(id, found.find((m) => m.id === id) ?? null));
+        return next;
+      });
+    });
+  }, [knownMessages]);
+
+  // Load reactions for messages as their pages arrive
+  useEffect(() => {
+    const newIds = knownMessages
+      .map((m) => m.id)
+      .filter((id) => !reactionsLoadedRef.current.has(id));
+
+    if (newIds.length === 0) return;
+    newIds.forEach((id) => reactionsLoadedRef.current.add(id));
+
+    fetchReactions(newIds).then((found) => {
+      setReactions((prev) => {
+        const next = new Map(prev);
+        found.forEach((reaction) => {
+          const existing = next.get(reaction.message_id) || [];
+          if (!existing.some((r) => r.id === reaction.id)) {
+            next.set(reaction.message_id, [...existing, reaction]);
+          }
+        });
+        return next;
+      });
+    });
+  }, [knownMessages]);
+
+  // Label messages that have no tone yet: new, edited, or sent by older clients
+  useEffect(() => {
+    const unlabelled = messages.filter((m) => needsTone(m) && tonesRequestedRef.current.get(m.id) !== m.content);
+
+    if (unlabelled.length === 0) return;
+    unlabelled.forEach((m) => tonesRequestedRef.current.set(m.id, m.content));
+
+    labelMessageTones(unlabelled);
   }, [messages]);
 
+  // Load poll results for poll messages as their pages arrive
+  useEffect(() => {
+    const newIds = knownMessages
+      .filter((m) => m.kind === 'poll' && !pollsLoadedRef.current.has(m.id))
+      .map((m) => m.id);
+
+    if (newIds.length === 0) return;
+    newIds.forEach((id) => pollsLoadedRef.current.add(id));
+
+    fetchPollResults(newIds).then((found) => {
+      setPollResults((prev) => new Map([...prev, ...found]));
+    });
+  }, [knownMessages]);
+
+  // Scroll to a jump target once it is part of the rendered list
+  useEffect(() => {
+    if (pendingJumpRef.current && scrollToRenderedMessage(pendingJumpRef.current)) {
+      pendingJumpRef.current = null;
+    }
+  }, [filteredMessages]);
+
+  const scrollToRenderedMessage = (messageId: string) => {
+    const index = filteredMessages.findIndex((m) => m.id === messageId);
+    if (index === -1) return false;
+
+    stickToBottomRef.current = false;
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId((id) => (id === messageId ? null : id)), 2000);
+    return true;
+  };
+
+  const quickReactions = getQuickReactions(persona.name);
+
+  const getQuotedMessage = (messageId: string) =>
+    knownMessages.find((m) => m.id === messageId) ?? quotedMessages.get(messageId);
+
+  const contactName = contact.nickname || contact.display_name;
+  const membersById = new Map(groupMembers.map((member) => [member.user_id, member]));
+
+  const resolveSenderName = (senderId: string) => {
+    if (senderId === user!.id) return 'You';
+    if (group) return membersById.get(senderId)?.display_name ?? 'Former member';
+    return contactName;
+  };
+
+  const jumpToMessage = async (messageId: string) => {
+    if (scrollToRenderedMessage(messageId)) return;
+
+    if (messages.some((m) => m.id === messageId)) {
+      // Hidden by the search filter: clear it and jump once the list re-renders
+      pendingJumpRef.current = messageId;
+      setShowSearch(false);
+      setSearchQuery('');
+      return;
+    }
+
+    // The original is older than the loaded pages: load everything up to it
+    if (!conversationId || !olderCursor) return;
+
+    const [target] = await fetchMessagesByIds([messageId]);
+    if (!target || target.conversation_id !== conversationId) return;
+
+    pendingJumpRef.current = messageId;
+    const targetCursor = { created_at: target.created_at, id: target.id };
+    const gap = await fetchMessageRange(conversationId, targetCursor, olderCursor);
+
+    setShowSearch(false);
+    setSearchQuery('');
+    setMessages((prev) => [
+      ...gap.filter((msg) => !prev.some((m) => m.id === msg.id)),
+      ...prev,
+    ]);
+    setOlderCursor(targetCursor);
+  };
+
+  const addReactionToState = (reaction: MessageReaction) => {
+    setReactions((prev) => {
+      const existing = prev.get(reaction.message_id) || [];
+      if (existing.some((r) => r.id === reaction.id || (r.user_id === reaction.user_id && r.emoji === reaction.emoji))) {
+        return prev;
+      }
+      return new Map(prev).set(reaction.message_id, [...existing, reaction]);
+    });
+  };
+
+  const removeReactionFromState = (reaction: Partial<MessageReaction>) => {
+    setReactions((prev) => {
+      const next = new Map(prev);
+      next.forEach((list, messageId) => {
+        const filtered = list.filter((r) =>
+          reaction.id
+            ? r.id !== reaction.id
+            : !(r.message_id === reaction.message_id && r.user_id === reaction.user_id && r.emoji === reaction.emoji)
+        );
+        if (filtered.length !== list.length) {
+          next.set(messageId, filtered);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    const alreadyReacted = (reactions.get(messageId) || []).some(
+      (r) => r.user_id === user!.id && r.emoji === emoji
+    );
+
+    if (alreadyReacted) {
+      removeReactionFromState({ message_id: messageId, user_id: user!.id, emoji });
+      await removeReaction(messageId, user!.id, emoji);
+    } else {
+      addReactionToState({
+        id: `local-${messageId}-${emoji}`,
+        message_id: messageId,
+        conversation_id: conversationId,
+        user_id: user!.id,
+        emoji,
+        created_at: new Date().toISOString(),
+      });
+      await addReaction(messageId, user!.id, emoji);
+    }
+  };
+
+  const handleReply = (message: Message) => {
+    setReplyTo(message);
+    inputRef.current?.focus();
+  };
+
+  const handleForward = async (targets: ForwardTarget[]) => {
+    if (!forwardingMessage) return;
+
+    await forwardMessage(forwardingMessage, targets, user!.id);
+    setForwardingMessage(null);
+  };
+
+  const handleTogglePin = async (message: Message) => {
+    if (pins.some((pin) => pin.message_id === message.id)) {
+      setPins((prev) => prev.filter((pin) => pin.message_id !== message.id));
+      await unpinMessage(message.id);
+      return;
+    }
+
+    const error = await pinMessage(message.id, user!.id);
+    if (error) {
+      alert(error);
+    }
+  };
+
+  const handleUnpin = async (messageId: string) => {
+    setPins((prev) => prev.filter((pin) => pin.message_id !== messageId));
+    await unpinMessage(messageId);
+  };
+
+  const pinnedMessageMap = new Map<string, Message>();
+  pins.forEach((pin) => {
+    const message = messages.find((m) => m.id === pin.message_id) ?? unloadedPinnedMessages.get(pin.message_id);
+    if (message) {
+      pinnedMessageMap.set(pin.message_id, message);
+    }
+  });
+
   const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    messagesEndRef.current?.scrollIntoView({ block: 'end' });
+  };
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    stickToBottomRef.current = distanceFromBottom < 80;
+
+    if (container.scrollTop < 200 && !loadingOlder) {
+      if (activeSearch) {
+        if (searchCursor && !searching) loadOlderSearchResults();
+      } else if (olderCursor) {
+        loadOlderMessages();
+      }
+    }
   };
 
   const loadChannel = async () => {
     setLoading(true);
-    let { data: channel } = await supabase
-      .from('persona_channels')
-      .select('*')
-      .eq('contact_id', contact.id)
-      .eq('persona_id', persona.id)
-      .maybeSingle();
+    setReplyTo(null);
+    setQuotedMessages(new Map());
+    setReactions(new Map());
+    reactionsLoadedRef.current = new Set();
+    setPollResults(new Map());
+    pollsLoadedRef.current = new Set();
+    setPins([]);
+    setUnloadedPinnedMessages(new Map());
+    setStarredIds(new Set());
+    setLoadedConversationId(null);
 
-    if (!channel) {
-      const { data: newChannel } = await supabase
-        .from('persona_channels')
-        .insert({
-          contact_id: contact.id,
-          persona_id: persona.id,
-        })
-        .select()
-        .single();
+    // Don't provision a channel the contact's allowlist rules out; the database would refuse it too
+    const allowed = isPersonaAllowed(contact.allowed_persona_ids, persona.id);
+    setPersonaNotAllowed(!allowed);
+    if (!allowed) {
+      setChannelId(null);
+      setConversationId(null);
+      setMessages([]);
+      setLoading(false);
+      return;
+    }
 
-      channel = newChannel;
+    // Finds or creates our channel and pairs it with the contact's side
+    const { data: channel, error } = await supabase
+      .rpc('ensure_persona_channel', {
+        p_contact_id: contact.id,
+        p_persona_id: persona.id,
+      })
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading channel:', error);
     }
 
     if (channel) {
-      setChannelId(channel.id);
+      setChannelId(channel.channel_id);
+      setConversationId(channel.conversation_id);
+      setPeerPersonaName(channel.peer_persona_name);
       setIsLocked(channel.is_locked);
       setNotificationsEnabled(channel.notification_enabled);
+      setDisappearingSeconds(await getDisappearingTimer(channel.channel_id));
     }
     setLoading(false);
   };
 
   const loadMessages = async () => {
-    const { data } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('channel_id', channelId!)
-      .order('created_at', { ascending: true });
+    const page = await fetchMessagePage(conversationId!);
+
+    stickToBottomRef.current = true;
+    setMessages(page.messages);
+    setOlderCursor(page.nextCursor);
+    setLoadedConversationId(conversationId);
+  };
 
-    if (data) {
-      setMessages(data);
+  const loadOlderMessages = async () => {
+    if (!conversationId || !olderCursor) return;
+
+    setLoadingOlder(true);
+    const page = await fetchMessagePage(conversationId, olderCursor);
+    const container = scrollContainerRef.current;
+
+    if (container) {
+      prependAnchorRef.current = {
+        scrollHeight: container.scrollHeight,
+        scrollTop: container.scrollTop,
+      };
     }
+    setMessages((prev) => [
+      ...page.messages.filter((msg) => !prev.some((m) => m.id === msg.id)),
+      ...prev,
+    ]);
+    setOlderCursor(page.nextCursor);
+    setLoadingOlder(false);
+  };
+
+  const loadOlderSearchResults = async () => {
+    if (!conversationId || !searchCursor) return;
+
+    const searchKey = `${conversationId}:${activeSearch}`;
+    setLoadingOlder(true);
+    const page = await searchMessages(conversationId, activeSearch, searchCursor);
+    setLoadingOlder(false);
+    // The query or chat changed while this page was loading
+    if (activeSearchRef.current !== searchKey) return;
+
+    const container = scrollContainerRef.current;
+    if (container) {
+      prependAnchorRef.current = {
+        scrollHeight: container.scrollHeight,
+        scrollTop: container.scrollTop,
+      };
+    }
+    setSearchResults((prev) => [
+      ...page.messages.filter((msg) => !prev.some((m) => m.id === msg.id)),
+      ...prev,
+    ]);
+    setSearchCursor(page.nextCursor);
   };
 
   const subscribeToMessages = () => {
     const channel = supabase
-      .channel(`messages:${channelId}`)
+      .channel(`messages:${conversationId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
           table: 'messages',
-          filter: `channel_id=eq.${channelId}`,
+          filter: `conversation_id=eq.${conversationId}`,
         },
         (payload) => {
           const newMsg = payload.new as Message;
-          setMessages((prev) => [...prev, newMsg]);
+          setMessages((prev) => mergeMessage(prev, newMsg));
+
+          // The timer is shared, so either side changing it posts a notice
+          if (newMsg.kind === 'notice') {
+            getDisappearingTimer(channelId!).then(setDisappearingSeconds);
+          }
 
           // Mark as delivered if we're the recipient
           if (newMsg.sender_id !== user!.id) {
             markMessageAsDelivered(newMsg.id);
 
             // Send browser notification if enabled
-            if (shouldSendNotification() && notificationsEnabled) {
+            const senderName = group
+              ? `${groupMembersRef.current.find((m) => m.user_id === newMsg.sender_id)?.display_name ?? 'Someone'} in ${group.name}`
+              : contactName;
+            // Only messages that would notify now are held for later
+            const wouldNotify = shouldSendNotification() && notificationsEnabled && newMsg.kind !== 'notice';
+            if (wouldNotify && !isPersonaAvailable(persona)) {
+              // Off-hours: Messenger sends a summary when the persona's next window opens
+              holdNotification({ personaId: persona.id, personaName: persona.name, senderName });
+            } else if (wouldNotify) {
               sendMessageNotification(
-                contact.nickname || contact.display_name,
+                senderName,
                 newMsg.content,
                 persona.name,
                 {
@@ -174,13 +876,30 @@ export function ChatView({ contact, persona }: ChatViewProps) {
           event: 'UPDATE',
           schema: 'public',
           table: 'messages',
-          filter: `channel_id=eq.${channelId}`,
+          filter: `conversation_id=eq.${conversationId}`,
         },
         (payload) => {
           const updatedMsg = payload.new as Message;
           setMessages((prev) =>
             prev.map((msg) => (msg.id === updatedMsg.id ? updatedMsg : msg))
           );
+          setSearchResults((prev) =>
+            prev.map((msg) => (msg.id === updatedMsg.id ? updatedMsg : msg))
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const deletedMsg = payload.old as Partial<Message>;
+          setMessages((prev) => prev.filter((msg) => msg.id !== deletedMsg.id));
+          setSearchResults((prev) => prev.filter((msg) => msg.id !== deletedMsg.id));
         }
       )
       .subscribe();
@@ -191,27 +910,23 @@ export function ChatView({ contact, persona }: ChatViewProps) {
   };
 
   const subscribeToTypingIndicators = () => {
-    if (!channelId) return;
+    if (!conversationId) return;
 
     typingChannelRef.current = subscribeToTyping(
-      channelId,
+      conversationId,
       user!.id,
       (isTyping, userId) => {
-        if (userId === contact.contact_user_id) {
-          setContactTyping(isTyping);
+        if (group || userId === contact.contact_user_id) {
+          setTypingUserId((current) => (isTyping ? userId : current === userId ? null : current));
         }
       }
     );
   };
 
   const markMessageAsDelivered = async (messageId: string) => {
-    await supabase
-      .from('messages')
-      .update({
-        status: 'delivered',
-        delivered_at: new Date().toISOString(),
-      })
-      .eq('id', messageId);
+    await supabase.rpc('mark_message_as_delivered', {
+      p_message_id: messageId,
+    });
   };
 
   const markMessagesAsRead = async () => {
@@ -231,80 +946,257 @@ export function ChatView({ contact, persona }: ChatViewProps) {
     });
   };
 
+  // Messages go through the outbox so they show up instantly and survive going offline
+  const queueMessage = async (message: Omit<NewOutboxMessage, 'channel_id' | 'conversation_id' | 'sender_id'>) => {
+    stickToBottomRef.current = true;
+
+    await enqueueMessage({
+      channel_id: channelId!,
+      conversation_id: conversationId,
+      sender_id: user!.id,
+      ...message,
+    });
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !channelId) return;
 
-    const message = {
-      channel_id: channelId,
-      sender_id: user!.id,
-      content: newMessage.trim(),
-      status: 'sent' as const,
-    };
+    if (parseSlashCommand(newMessage.trim())) {
+      await handleRunCommand();
+      return;
+    }
 
-    await supabase.from('messages').insert(message);
+    // Groups have one persona per member, so there is nothing to switch to.
+    // Sending again while the prompt is showing means "send anyway".
+    const activePersona = personas.find((p) => p.id === persona.id);
+    if (onSwitchPersona && activePersona && !mismatch) {
+      const found = checkPersonaMismatch(newMessage, activePersona, filterAllowedPersonas(personas, contact.allowed_persona_ids), mismatchSensitivity);
+      if (found) {
+        setMismatch(found);
+        return;
+      }
+    }
 
-    await supabase
-      .from('persona_channels')
-      .update({ last_message_at: new Date().toISOString() })
-      .eq('id', channelId);
+    await sendDraft();
+  };
+
+  const sendDraft = async () => {
+    if (!newMessage.trim() || !channelId) return;
+
+    setMismatch(null);
+
+    // "//" sends text that starts with a slash
+    const content = newMessage.trim().replace(/^\/\//, '/');
+    const replyToId = replyTo?.id ?? null;
+    const linkPreviewDisabled = !!previewUrl && previewUrl === dismissedPreviewUrl;
 
     setNewMessage('');
+    setReplyTo(null);
+    setDismissedPreviewUrl(null);
 
     // Stop typing indicator
-    if (channelId) {
-      cleanupTyping(channelId, user!.id);
+    cleanupTyping(channelId, user!.id);
+
+    await queueMessage({
+      content,
+      reply_to_id: replyToId,
+      link_preview: visibleComposerPreview,
+      link_preview_disabled: linkPreviewDisabled,
+    });
+  };
+
+  const commandContext: SlashCommandContext = {
+    send: async (content) => {
+      await queueMessage({ content, reply_to_id: replyTo?.id ?? null });
+    },
+    openGifPicker: (query) => {
+      setGifQuery(query);
+      setShowGifPicker(true);
+    },
+    switchPersona: (name) => {
+      if (!onSwitchPersona) return 'Group chats use one persona for everyone';
+
+      const needle = name.toLowerCase();
+      const exact = personas.filter((p) => p.name.toLowerCase() === needle);
+      const matches = exact.length > 0 ? exact : personas.filter((p) => p.name.toLowerCase().startsWith(needle));
+      if (matches.length === 0) return `No active persona called "${name}"`;
+      if (matches.length > 1) return `"${name}" matches ${matches.map((p) => p.name).join(', ')}`;
+      if (!isPersonaAllowed(contact.allowed_persona_ids, matches[0].id)) return `${matches[0].name} isn't used with ${contactName}`;
+      if (matches[0].id !== persona.id) onSwitchPersona(matches[0].id);
+      return null;
+    },
+    schedule: (content, sendAt) => scheduleContent(content, sendAt),
+    openPollComposer: (question) => {
+      setPollQuestion(question);
+      setShowCreatePoll(true);
+    },
+  };
+
+  const handleRunCommand = async () => {
+    const input = newMessage;
+    const error = await runSlashCommand(input, commandContext);
+
+    if (error) {
+      setCommandError(error);
+      return;
     }
+
+    // Keep anything typed while the command ran
+    setNewMessage((current) => (current === input ? '' : current));
+    setReplyTo(null);
+    cleanupTyping(channelId!, user!.id);
+  };
+
+  const handleSwitchForDraft = (personaId: string) => {
+    carriedDraftRef.current = newMessage;
+    setMismatch(null);
+    setNewMessage('');
+    onSwitchPersona?.(personaId);
+  };
+
+  const handleSelectCommand = (command: SlashCommand) => {
+    handleTyping(`/${command.name} `);
+    inputRef.current?.focus();
   };
 
   const handleSendFile = async (fileData: { url: string; type: string; name: string }) => {
     if (!channelId) return;
 
-    const message = {
-      channel_id: channelId,
-      sender_id: user!.id,
+    setShowFileUpload(false);
+
+    await queueMessage({
       content: `Sent a file: ${fileData.name}`,
       file_url: fileData.url,
       file_type: fileData.type,
       file_name: fileData.name,
-      status: 'sent' as const,
-    };
-
-    await supabase.from('messages').insert(message);
+    });
+  };
 
-    await supabase
-      .from('persona_channels')
-      .update({ last_message_at: new Date().toISOString() })
-      .eq('id', channelId);
+  const handleSendVoiceNote = async (fileData: { url: string; type: string; name: string }) => {
+    if (!channelId) return;
 
-    setShowFileUpload(false);
+    await queueMessage({
+      content: 'Sent a voice note',
+      file_url: fileData.url,
+      file_type: fileData.type,
+      file_name: fileData.name,
+    });
   };
 
   const handleSendGif = async (gifUrl: string) => {
     if (!channelId) return;
 
-    const message = {
-      channel_id: channelId,
-      sender_id: user!.id,
+    await queueMessage({
       content: 'Sent a GIF',
       file_url: gifUrl,
       file_type: 'image/gif',
       file_name: 'giphy.gif',
-      status: 'sent' as const,
-    };
+    });
+  };
 
-    await supabase.from('messages').insert(message);
+  const handleToggleStar = async (message: Message) => {
+    if (!channelId) return;
 
-    await supabase
-      .from('persona_channels')
-      .update({ last_message_at: new Date().toISOString() })
-      .eq('id', channelId);
+    const starred = starredIds.has(message.id);
+    const saved = starred
+      ? await unstarMessage(message.id, user!.id)
+      : await starMessage(message.id, channelId, user!.id);
+
+    if (saved) {
+      setStarredIds((prev) => {
+        const next = new Set(prev);
+        if (starred) {
+          next.delete(message.id);
+        } else {
+          next.add(message.id);
+        }
+        return next;
+      });
+    }
+  };
+
+  const handleSendPoll = async (poll: Poll) => {
+    if (!channelId) return;
+
+    setShowCreatePoll(false);
+    setPollQuestion('');
+
+    await queueMessage({
+      content: getPollContent(poll),
+      poll,
+      link_preview_disabled: true,
+    });
+  };
+
+  const refreshPollResults = async (messageId: string) => {
+    const found = await fetchPollResults([messageId]);
+    setPollResults((prev) => new Map([...prev, ...found]));
+  };
+
+  const handleVotePoll = async (messageId: string, optionIndexes: number[]) => {
+    const error = await castPollVote(messageId, optionIndexes);
+    if (!error) {
+      await refreshPollResults(messageId);
+    }
+    return error;
+  };
+
+  const scheduleContent = async (content: string, sendAt: Date) => {
+    const scheduled = await scheduleMessage({
+      channelId: channelId!,
+      senderId: user!.id,
+      content,
+      sendAt,
+      replyToId: replyTo?.id ?? null,
+    });
+
+    if (scheduled) {
+      setScheduledMessages((prev) =>
+        [...prev.filter((m) => m.id !== scheduled.id), scheduled].sort((a, b) => a.send_at.localeCompare(b.send_at))
+      );
+    }
+    return !!scheduled;
+  };
+
+  const handleScheduleMessage = async (sendAt: Date) => {
+    if (!newMessage.trim() || !channelId) return;
+
+    if (await scheduleContent(newMessage.trim(), sendAt)) {
+      setNewMessage('');
+      setReplyTo(null);
+      cleanupTyping(channelId, user!.id);
+    }
+  };
+
+  const handleUpdateScheduled = async (id: string, content: string, sendAt: Date) => {
+    const saved = await updateScheduledMessage(id, { content, sendAt });
+
+    if (saved) {
+      setScheduledMessages((prev) =>
+        prev
+          .map((m) => (m.id === id ? { ...m, content, send_at: sendAt.toISOString(), status: 'pending' as const } : m))
+          .sort((a, b) => a.send_at.localeCompare(b.send_at))
+      );
+    }
+
+    return saved;
+  };
+
+  const handleCancelScheduled = async (id: string) => {
+    if (await cancelScheduledMessage(id)) {
+      setScheduledMessages((prev) => prev.filter((m) => m.id !== id));
+    }
   };
 
   const handleTyping = (value: string) => {
     setNewMessage(value);
+    setCommandError(null);
+    setMismatch(null);
+    setCommandIndex(0);
+    setCommandMenuDismissed(false);
 
-    if (!channelId) return;
+    if (!channelId || !privacy.send_typing_indicators) return;
 
     // Send typing indicator
     if (value.length > 0 && !isTyping) {
@@ -326,6 +1218,125 @@ export function ChatView({ contact, persona }: ChatViewProps) {
     }, 2000);
   };
 
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const saved = await editMessage(messageId, content);
+
+    if (saved) {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === messageId
+            ? { ...msg, content, edited_at: new Date().toISOString() }
+            : msg
+        )
+      );
+    }
+
+    return saved;
+  };
+
+  const handleDeleteMessage = async (message: Message, mode: DeleteMode) => {
+    if (mode === 'everyone') {
+      if (!confirm('Delete this message for everyone?')) return;
+
+      const deleted = await deleteMessageForEveryone(message);
+      if (deleted) {
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === message.id
+              ? {
+                ...msg,
+                content: '',
+                file_url: null,
+                file_type: null,
+                file_name: null,
+                poll: null,
+                deleted_at: new Date().toISOString(),
+              }
+              : msg
+          )
+        );
+      }
+      return;
+    }
+
+    const hidden = await deleteMessageForMe(message.id, user!.id);
+    if (hidden) {
+      setMessages((prev) => prev.filter((msg) => msg.id !== message.id));
+    }
+  };
+
+  const toggleRichFormatting = async () => {
+    const enabled = !richFormatting;
+    if (await setRichFormatting(persona.id, enabled)) {
+      setRichFormattingState(enabled);
+    }
+  };
+
+  const handlePrivacyChange = async (changes: Partial<PersonaPrivacy>) => {
+    if (!(await setPersonaPrivacy(persona.id, changes))) return;
+    setPrivacy((prev) => ({ ...prev, ...changes }));
+
+    if (changes.send_typing_indicators === false && isTyping && channelId) {
+      setIsTyping(false);
+      handleTypingInput(channelId, user!.id, false);
+    }
+    // Messages read while receipts were hidden only show as delivered
+    if (changes.send_read_receipts) {
+      markMessagesAsRead();
+    }
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (commandSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCommandIndex((index) => (index + step + commandSuggestions.length) % commandSuggestions.length);
+        return;
+      }
+      // Enter completes a partial name and runs a complete one
+      const exactMatch = !!typedCommand && !!getSlashCommand(typedCommand.name);
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && !exactMatch)) {
+        e.preventDefault();
+        handleSelectCommand(commandSuggestions[Math.min(commandIndex, commandSuggestions.length - 1)]);
+        return;
+      }
+    }
+
+    if (e.key === 'Escape' && (commandSuggestions.length > 0 || activeCommand)) {
+      setCommandMenuDismissed(true);
+      return;
+    }
+
+    if (e.key === 'Escape' && replyTo) {
+      setReplyTo(null);
+      return;
+    }
+
+    // Enter sends, Shift+Enter starts a new line
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+      return;
+    }
+
+    const shortcut = FORMATTING_SHORTCUTS[e.key.toLowerCase()];
+    if (richFormatting && shortcut && (e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const result = wrapSelection(newMessage, textarea.selectionStart, textarea.selectionEnd, ...shortcut);
+      // For links, select the URL placeholder instead of the link text
+      const selection = e.key.toLowerCase() === 'k'
+        ? [result.selectionEnd + 2, result.selectionEnd + 2 + 'https://'.length]
+        : [result.selectionStart, result.selectionEnd];
+
+      handleTyping(result.text);
+      requestAnimationFrame(() => {
+        textarea.setSelectionRange(selection[0], selection[1]);
+      });
+    }
+  };
+
   const handleEmojiSelect = (emoji: string) => {
     setNewMessage((prev) => prev + emoji);
   };
@@ -348,16 +1359,29 @@ export function ChatView({ contact, persona }: ChatViewProps) {
     setNotificationsEnabled(newNotificationState);
   };
 
+  const handleDisappearingChange = async (seconds: number | null) => {
+    if (await setDisappearingTimer(channelId!, seconds)) {
+      setDisappearingSeconds(seconds);
+    }
+  };
+
+  // Drop expired messages right away; the server purge removes them for good
+  const handleMessageExpired = (messageId: string) => {
+    setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
+  };
+
+  const handleRemoveLinkPreview = async (messageId: string) => {
+    if (await removeLinkPreview(messageId)) {
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === messageId ? { ...msg, link_preview: null, link_preview_disabled: true } : msg))
+      );
+    }
+  };
+
   const handleSearch = (query: string) => {
     setSearchQuery(query);
   };
 
-  const filteredMessages = searchQuery
-    ? messages.filter((msg) =>
-      msg.content.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-    : messages;
-
   if (loading) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -366,6 +1390,14 @@ export function ChatView({ contact, persona }: ChatViewProps) {
     );
   }
 
+  if (personaNotAllowed) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-gray-600">{persona.name} isn't used with {contactName}. Pick another persona above.</div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex-1 flex flex-col bg-gray-50">
       {showSearch ? (
@@ -383,13 +1415,34 @@ export function ChatView({ contact, persona }: ChatViewProps) {
         >
           <div>
             <h3 className="font-semibold text-gray-900">
-              {contact.nickname || contact.display_name}
+              {group ? `${group.icon} ${group.name}` : contactName}
             </h3>
             <p className="text-sm text-gray-600">
-              Chatting in {persona.name} mode
+              {group
+                ? `${groupMembers.length} ${groupMembers.length === 1 ? 'member' : 'members'} · you appear as ${persona.name}`
+                : `Chatting in ${persona.name} mode`}
+              {!group && peerPersonaName && peerPersonaName !== persona.name && (
+                <span className="text-gray-400">
+                  {' '}· they see this as {peerPersonaName}
+                </span>
+              )}
+              {!group && channelId && !peerPersonaName && (
+                <span className="text-gray-400">
+                  {' '}· waiting for {contactName} to accept
+                </span>
+              )}
             </p>
           </div>
           <div className="flex gap-2">
+            {group && (
+              <button
+                onClick={() => setShowGroupSettings(true)}
+                className="p-2 rounded-lg transition-colors bg-gray-100 text-gray-600 hover:bg-gray-200"
+                title="Group settings"
+              >
+                <Users className="w-5 h-5" />
+              </button>
+            )}
             <button
               onClick={() => setShowSearch(true)}
               className="p-2 rounded-lg transition-colors bg-gray-100 text-gray-600 hover:bg-gray-200"
@@ -397,6 +1450,17 @@ export function ChatView({ contact, persona }: ChatViewProps) {
             >
               <Search className="w-5 h-5" />
             </button>
+            <DisappearingTimerMenu
+              seconds={disappearingSeconds}
+              colorPrimary={persona.color_primary}
+              onChange={handleDisappearingChange}
+            />
+            <PersonaPrivacyMenu
+              personaName={persona.name}
+              privacy={privacy}
+              colorPrimary={persona.color_primary}
+              onChange={handlePrivacyChange}
+            />
             <button
               onClick={toggleNotifications}
               className={`p-2 rounded-lg transition-colors ${notificationsEnabled
@@ -421,86 +1485,157 @@ export function ChatView({ contact, persona }: ChatViewProps) {
         </div>
       )}
 
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {filteredMessages.length === 0 ? (
-          <div className="text-center text-gray-500 py-12">
-            <p>{searchQuery ? 'No messages found' : 'No messages yet. Start the conversation!'}</p>
+      <PinnedMessages
+        pins={pins}
+        pinnedMessages={pinnedMessageMap}
+        colorPrimary={persona.color_primary}
+        resolveSenderName={resolveSenderName}
+        onJump={jumpToMessage}
+        onUnpin={handleUnpin}
+      />
+
+      <div className="relative flex-1 flex flex-col min-h-0">
+        {loadingOlder && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 px-3 py-1 rounded-full bg-white shadow text-xs text-gray-500">
+            Loading earlier messages...
           </div>
-        ) : (
-          filteredMessages.map((message) => {
-            const isSender = message.sender_id === user!.id;
-            const hasAttachment = message.file_url && message.file_type && message.file_name;
-
-            return (
-              <div
-                key={message.id}
-                className={`flex ${isSender ? 'justify-end' : 'justify-start'}`}
-              >
-                <div className="max-w-md">
-                  {hasAttachment && (
-                    <div className="mb-2">
-                      <MessageAttachment
-                        fileUrl={message.file_url!}
-                        fileType={message.file_type!}
-                        fileName={message.file_name!}
-                      />
-                    </div>
-                  )}
-
-                  {message.content && !message.content.startsWith('Sent a ') && (
-                    <div
-                      className={`px-4 py-3 rounded-2xl ${isSender
-                          ? 'rounded-br-sm text-white'
-                          : 'bg-white rounded-bl-sm text-gray-900 shadow-sm'
-                        }`}
-                      style={
-                        isSender
-                          ? {
-                            background: `linear-gradient(135deg, ${persona.color_primary}, ${persona.color_accent})`,
-                          }
-                          : {}
-                      }
-                    >
-                      <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
-                    </div>
-                  )}
+        )}
 
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-y-auto px-6"
+        >
+          {filteredMessages.length === 0 ? (
+            <div className="text-center text-gray-500 py-12">
+              <p>{searching ? 'Searching...' : activeSearch ? 'No messages found' : 'No messages yet. Start the conversation!'}</p>
+            </div>
+          ) : (
+            <div className="relative w-full" style={{ height: totalSize }}>
+              {virtualizer.getVirtualItems().map((item) => {
+                const message = filteredMessages[item.index];
+                const isSender = message.sender_id === user!.id;
+                const previous = filteredMessages[item.index - 1];
+                const showSenderLabel = !!group && !isSender && message.kind !== 'notice' &&
+                  (!previous || previous.sender_id !== message.sender_id || previous.kind === 'notice');
+                const poll = getPoll(message);
+
+                return (
                   <div
-                    className={`flex items-center gap-2 mt-1 px-2 ${isSender ? 'justify-end' : 'justify-start'
-                      }`}
+                    key={item.key}
+                    data-index={item.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full pb-4"
+                    style={{ transform: `translateY(${item.start}px)` }}
                   >
-                    <div className={`text-xs ${isSender ? 'text-gray-500' : 'text-gray-500'}`}>
-                      {isSender && (
-                        <MessageStatus
-                          status={message.status}
-                          timestamp={message.created_at}
-                        />
-                      )}
-                      {!isSender && (
-                        <span>
-                          {new Date(message.created_at).toLocaleTimeString([], {
-                            hour: '2-digit',
-                            minute: '2-digit',
-                          })}
-                        </span>
-                      )}
-                    </div>
+                    <MessageBubble
+                      message={message}
+                      isSender={isSender}
+                      persona={persona}
+                      onEdit={handleEditMessage}
+                      onShowHistory={setHistoryMessage}
+                      onDelete={handleDeleteMessage}
+                      onReply={handleReply}
+                      onForward={setForwardingMessage}
+                      isPinned={pins.some((pin) => pin.message_id === message.id)}
+                      canPin={pins.length < MAX_PINNED_MESSAGES}
+                      onTogglePin={handleTogglePin}
+                      isStarred={starredIds.has(message.id)}
+                      onToggleStar={handleToggleStar}
+                      richFormatting={richFormatting}
+                      readReceipts={privacy.send_read_receipts}
+                      quotedMessage={message.reply_to_id ? getQuotedMessage(message.reply_to_id) : undefined}
+                      onJumpToMessage={jumpToMessage}
+                      resolveSenderName={resolveSenderName}
+                      highlighted={highlightedMessageId === message.id}
+                      reactions={summarizeReactions(reactions.get(message.id) || [], user!.id)}
+                      quickReactions={quickReactions}
+                      onToggleReaction={handleToggleReaction}
+                      pendingState={outboxStates.get(message.id)}
+                      onRetry={retryOutboxMessage}
+                      onDiscard={discardOutboxMessage}
+                      onExpire={handleMessageExpired}
+                      onRemoveLinkPreview={handleRemoveLinkPreview}
+                      senderLabel={showSenderLabel ? {
+                        name: resolveSenderName(message.sender_id),
+                        color: membersById.get(message.sender_id)?.color_primary ?? '#6B7280',
+                      } : undefined}
+                      pollSummary={poll ? summarizePoll(poll, pollResults.get(message.id), user!.id) : undefined}
+                      onVotePoll={handleVotePoll}
+                    />
                   </div>
-                </div>
-              </div>
-            );
-          })
-        )}
+                );
+              })}
+            </div>
+          )}
 
-        {contactTyping && (
-          <div className="flex justify-start">
-            <TypingIndicator userName={contact.nickname || contact.display_name} />
-          </div>
-        )}
+          {typingUserId && privacy.send_typing_indicators && (
+            <div className="flex justify-start pb-4">
+              <TypingIndicator userName={resolveSenderName(typingUserId)} />
+            </div>
+          )}
 
-        <div ref={messagesEndRef} />
+          <div ref={messagesEndRef} className="h-6" />
+        </div>
       </div>
 
+      {showCreatePoll && (
+        <CreatePollDialog
+          persona={persona}
+          initialQuestion={pollQuestion}
+          onCreate={handleSendPoll}
+          onClose={() => {
+            setShowCreatePoll(false);
+            setPollQuestion('');
+          }}
+        />
+      )}
+
+      {forwardingMessage && (
+        <ForwardDialog
+          message={forwardingMessage}
+          contacts={contacts}
+          personas={personas}
+          source={{ contactId: contact.id, personaId: persona.id }}
+          onForward={handleForward}
+          onClose={() => setForwardingMessage(null)}
+        />
+      )}
+
+      {showGroupSettings && group && (
+        <GroupSettings
+          group={group}
+          members={groupMembers}
+          currentUserId={user!.id}
+          contacts={contacts}
+          personas={personas}
+          onClose={() => setShowGroupSettings(false)}
+          onLeave={() => {
+            setShowGroupSettings(false);
+            onLeaveGroup?.();
+          }}
+        />
+      )}
+
+      {showScheduled && (
+        <ScheduledMessages
+          messages={scheduledMessages}
+          colorPrimary={persona.color_primary}
+          onUpdate={handleUpdateScheduled}
+          onCancel={handleCancelScheduled}
+          onClose={() => setShowScheduled(false)}
+        />
+      )}
+
+      {historyMessage && (
+        <MessageHistory
+          messageId={historyMessage.id}
+          currentContent={messages.find((m) => m.id === historyMessage.id)?.content ?? historyMessage.content}
+          editedAt={messages.find((m) => m.id === historyMessage.id)?.edited_at ?? historyMessage.edited_at}
+          onClose={() => setHistoryMessage(null)}
+        />
+      )}
+
       {showFileUpload && (
         <div className="p-4 bg-white border-t border-gray-200">
           <FileUpload
@@ -513,7 +1648,106 @@ export function ChatView({ contact, persona }: ChatViewProps) {
       )}
 
       <form onSubmit={handleSendMessage} className="p-4 bg-white border-t border-gray-200">
-        <div className="flex gap-2 items-end">
+        {scheduledMessages.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowScheduled(true)}
+            className="flex items-center gap-1 mb-2 text-xs font-medium hover:underline"
+            style={{ color: persona.color_primary }}
+          >
+            <Clock className="w-3 h-3" />
+            {scheduledMessages.length} scheduled {scheduledMessages.length === 1 ? 'message' : 'messages'}
+          </button>
+        )}
+
+        {replyTo && (
+          <div
+            className="flex items-center gap-3 mb-3 px-3 py-2 bg-gray-50 border-l-4 rounded-lg"
+            style={{ borderColor: persona.color_primary }}
+          >
+            <Reply className="w-4 h-4 flex-shrink-0" style={{ color: persona.color_primary }} />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs font-medium" style={{ color: persona.color_primary }}>
+                Replying to {resolveSenderName(replyTo.sender_id)}
+              </div>
+              <div className="text-sm text-gray-600 truncate">{getMessagePreview(replyTo)}</div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setReplyTo(null)}
+              className="p-1 hover:bg-gray-200 rounded"
+              title="Cancel reply"
+            >
+              <X className="w-4 h-4 text-gray-500" />
+            </button>
+          </div>
+        )}
+
+        {visibleComposerPreview && (
+          <div className="mb-3">
+            <LinkPreviewCard
+              preview={visibleComposerPreview}
+              accentColor={persona.color_primary}
+              onRemove={() => setDismissedPreviewUrl(visibleComposerPreview.url)}
+            />
+          </div>
+        )}
+
+        {richFormatting && hasMarkdown(newMessage) && (
+          <div className="mb-3 px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl max-h-48 overflow-y-auto">
+            <div className="text-xs font-medium text-gray-400 mb-1">Preview</div>
+            <MarkdownContent content={newMessage} />
+          </div>
+        )}
+
+        {mismatch && (
+          <div className="mb-3 px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex flex-wrap items-center gap-2">
+            <span className="flex-1 min-w-0">
+              This reads as {TONE_LABELS[mismatch.tone].label.toLowerCase()}, which doesn't sound like {persona.name}.
+            </span>
+            <button
+              type="button"
+              onClick={sendDraft}
+              className="px-3 py-1 rounded-lg border border-amber-300 bg-white hover:bg-amber-100 font-medium"
+            >
+              Send anyway
+            </button>
+            {mismatch.suggestion && (
+              <button
+                type="button"
+                onClick={() => handleSwitchForDraft(mismatch.suggestion!.id)}
+                className="px-3 py-1 rounded-lg text-white font-medium"
+                style={{ backgroundColor: mismatch.suggestion.color_primary }}
+              >
+                Switch to {mismatch.suggestion.name}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setMismatch(null)}
+              className="p-1 hover:bg-amber-100 rounded"
+              title="Keep editing"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {commandError && (
+          <div className="mb-3 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-600">
+            {commandError}
+          </div>
+        )}
+
+        <div className="relative flex gap-2 items-end">
+          <SlashCommandMenu
+            suggestions={commandSuggestions}
+            selectedIndex={commandIndex}
+            activeCommand={activeCommand}
+            colorPrimary={persona.color_primary}
+            onSelect={handleSelectCommand}
+            onHover={setCommandIndex}
+          />
           <div className="flex gap-1">
             <button
               type="button"
@@ -533,24 +1767,65 @@ export function ChatView({ contact, persona }: ChatViewProps) {
               <ImageIcon className="w-5 h-5 text-gray-600" />
               {showGifPicker && (
                 <GifPicker
+                  initialQuery={gifQuery}
                   onGifSelect={handleSendGif}
-                  onClose={() => setShowGifPicker(false)}
+                  onClose={() => {
+                    setShowGifPicker(false);
+                    setGifQuery('');
+                  }}
                 />
               )}
             </button>
 
+            <button
+              type="button"
+              onClick={() => setShowCreatePoll(true)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Create poll"
+            >
+              <BarChart2 className="w-5 h-5 text-gray-600" />
+            </button>
+
             <EmojiPickerComponent onEmojiSelect={handleEmojiSelect} />
+
+            <button
+              type="button"
+              onClick={toggleRichFormatting}
+              className={`p-2 rounded-lg transition-colors ${richFormatting ? 'hover:bg-gray-100' : 'bg-gray-100'}`}
+              title={richFormatting
+                ? `Formatting on for ${persona.name} (Ctrl+B bold, Ctrl+I italic, Ctrl+E code, Ctrl+K link)`
+                : `Formatting off for ${persona.name}`}
+            >
+              <Type className={`w-5 h-5 ${richFormatting ? 'text-gray-600' : 'text-gray-400'}`} />
+            </button>
           </div>
 
-          <input
-            type="text"
+          <textarea
+            ref={inputRef}
             value={newMessage}
             onChange={(e) => handleTyping(e.target.value)}
+            onKeyDown={handleComposerKeyDown}
+            rows={Math.min(6, newMessage.split('\n').length)}
             placeholder={`Message in ${persona.name} mode...`}
-            className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:border-transparent"
+            className="flex-1 px-4 py-3 border border-gray-300 rounded-xl resize-none focus:outline-none focus:ring-2 focus:border-transparent"
             style={{ focusRing: persona.color_primary }}
           />
 
+          {channelId && (
+            <VoiceRecorderButton
+              channelId={channelId}
+              userId={user!.id}
+              colorPrimary={persona.color_primary}
+              onRecorded={handleSendVoiceNote}
+            />
+          )}
+
+          <SchedulePicker
+            disabled={!newMessage.trim()}
+            colorPrimary={persona.color_primary}
+            onSchedule={handleScheduleMessage}
+          />
+
           <button
             type="submit"
             disabled={!newMessage.trim()}
@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { UserPlus, Search } from 'lucide-react';
+import * as LucideIcons from 'lucide-react';
+import { UserPlus, Search, Users, Check, X } from 'lucide-react';
 import { PresenceBadge } from './PresenceBadge';
 import { UnreadBadge } from './UnreadBadge';
 import { getMultipleUserPresence, subscribeToPresence } from '../lib/presenceService';
+import { getDrafts, subscribeToDrafts, type ChannelDraft } from '../lib/draftService';
+import type { GroupChat, GroupInvite } from '../lib/groupService';
+import type { PersonaRequest } from '../lib/personaRequestService';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
 interface Contact {
@@ -26,9 +30,38 @@ interface ContactListProps {
   selectedContact: Contact | null;
   onSelectContact: (contact: Contact) => void;
   onRefresh: () => void;
+  groups: GroupChat[];
+  selectedGroupId: string | null;
+  onSelectGroup: (group: GroupChat) => void;
+  onCreateGroup: () => void;
+  requests: PersonaRequest[];
+  onAcceptRequest: (request: PersonaRequest) => void;
+  onIgnoreRequest: (request: PersonaRequest) => void;
+  groupInvites: GroupInvite[];
+  onAcceptInvite: (invite: GroupInvite) => void;
+  onIgnoreInvite: (invite: GroupInvite) => void;
 }
 
-export function ContactList({ contacts, selectedContact, onSelectContact, onRefresh }: ContactListProps) {
+function getIconComponent(iconName: string) {
+  return (LucideIcons as unknown as Record<string, LucideIcons.LucideIcon | undefined>)[iconName] ?? LucideIcons.Circle;
+}
+
+export function ContactList({
+  contacts,
+  selectedContact,
+  onSelectContact,
+  onRefresh,
+  groups,
+  selectedGroupId,
+  onSelectGroup,
+  onCreateGroup,
+  requests,
+  onAcceptRequest,
+  onIgnoreRequest,
+  groupInvites,
+  onAcceptInvite,
+  onIgnoreInvite,
+}: ContactListProps) {
   const { user } = useAuth();
   const [showAddContact, setShowAddContact] = useState(false);
   const [newContactEmail, setNewContactEmail] = useState('');
@@ -37,6 +70,15 @@ export function ContactList({ contacts, selectedContact, onSelectContact, onRefr
   const [searchQuery, setSearchQuery] = useState('');
   const [contactsWithPresence, setContactsWithPresence] = useState<ContactWithPresence[]>([]);
   const [presenceChannel, setPresenceChannel] = useState<RealtimeChannel | null>(null);
+  const [drafts, setDrafts] = useState<ChannelDraft[]>(getDrafts());
+  const [groupUnread, setGroupUnread] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    setDrafts(getDrafts());
+    return subscribeToDrafts(setDrafts);
+  }, []);
+
+  const contactsWithDraft = new Set(drafts.map(d => d.contactId));
 
   useEffect(() => {
     loadPresenceData();
@@ -99,6 +141,25 @@ export function ContactList({ contacts, selectedContact, onSelectContact, onRefr
     setPresenceChannel(channel);
   };
 
+  // Each group is a contact row of its own, so its unread count comes from the same view
+  useEffect(() => {
+    loadGroupUnreadCounts();
+  }, [groups]);
+
+  const loadGroupUnreadCounts = async () => {
+    if (groups.length === 0) {
+      setGroupUnread(new Map());
+      return;
+    }
+
+    const { data: unreadData } = await supabase
+      .from('contact_unread_counts')
+      .select('*')
+      .in('contact_id', groups.map(g => g.contact_id));
+
+    setGroupUnread(new Map(unreadData?.map(u => [u.contact_id, u.total_unread || 0]) || []));
+  };
+
   const handleAddContact = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -151,6 +212,10 @@ export function ContactList({ contacts, selectedContact, onSelectContact, onRefr
     (contact.nickname || contact.display_name).toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const filteredGroups = groups.filter(group =>
+    group.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   // Sort contacts: online first, then by unread count, then alphabetically
   const sortedContacts = [...filteredContacts].sort((a, b) => {
     // Online status priority
@@ -184,6 +249,13 @@ export function ContactList({ contacts, selectedContact, onSelectContact, onRefr
               className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
+          <button
+            onClick={onCreateGroup}
+            className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            title="New group"
+          >
+            <Users className="w-5 h-5" />
+          </button>
           <button
             onClick={() => setShowAddContact(!showAddContact)}
             className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
@@ -231,6 +303,114 @@ export function ContactList({ contacts, selectedContact, onSelectContact, onRefr
       </div>
 
       <div className="flex-1 overflow-y-auto">
+        {(requests.length > 0 || groupInvites.length > 0) && (
+          <div className="border-b border-gray-200">
+            <div className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">Requests</div>
+            <div className="divide-y divide-gray-100">
+              {requests.map((request) => {
+                const Icon = getIconComponent(request.persona_icon);
+
+                return (
+                  <div key={request.id} className="p-4 flex items-center gap-3">
+                    <div
+                      className="w-12 h-12 rounded-full flex items-center justify-center"
+                      style={{ backgroundColor: `${request.color_primary}20`, color: request.color_primary }}
+                    >
+                      <Icon className="w-6 h-6" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{request.display_name}</div>
+                      <div className="text-sm text-gray-500 truncate">
+                        wants to chat as <span style={{ color: request.color_primary }}>{request.persona_name}</span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onAcceptRequest(request)}
+                      className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+                      title="Accept"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onIgnoreRequest(request)}
+                      className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                      title="Ignore"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              {groupInvites.map((invite) => (
+                <div key={invite.id} className="p-4 flex items-center gap-3">
+                  <div className="w-12 h-12 rounded-full flex items-center justify-center text-2xl bg-gray-100">
+                    {invite.group_icon}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{invite.group_name}</div>
+                    <div className="text-sm text-gray-500 truncate">{invite.display_name} invited you</div>
+                  </div>
+                  <button
+                    onClick={() => onAcceptInvite(invite)}
+                    className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+                    title="Join"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onIgnoreInvite(invite)}
+                    className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                    title="Ignore"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {filteredGroups.length > 0 && (
+          <div className="border-b border-gray-200">
+            <div className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">Groups</div>
+            <div className="divide-y divide-gray-100">
+              {filteredGroups.map((group) => {
+                const unread = groupUnread.get(group.contact_id) || 0;
+
+                return (
+                  <button
+                    key={group.id}
+                    onClick={() => onSelectGroup(group)}
+                    className={`w-full p-4 text-left hover:bg-gray-50 transition-colors ${selectedGroupId === group.id ? 'bg-blue-50' : ''
+                      }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div
+                        className="w-12 h-12 rounded-full flex items-center justify-center text-2xl"
+                        style={{ backgroundColor: `${group.persona.color_primary}20` }}
+                      >
+                        {group.icon}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="font-medium text-gray-900 truncate">{group.name}</div>
+                          {unread > 0 && <UnreadBadge count={unread} size="sm" />}
+                        </div>
+                        <div className="text-sm text-gray-500 truncate">
+                          {contactsWithDraft.has(group.contact_id) && (
+                            <span className="text-orange-600 font-medium">Draft · </span>
+                          )}
+                          as <span style={{ color: group.persona.color_primary }}>{group.persona.name}</span>
+                        </div>
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {sortedContacts.length === 0 ? (
           <div className="p-6 text-center text-gray-500">
             {contacts.length === 0 ? 'No contacts yet' : 'No matching contacts'}
@@ -267,6 +447,9 @@ export function ContactList({ contacts, selectedContact, onSelectContact, onRefr
                       )}
                     </div>
                     <div className="text-sm text-gray-500 truncate">
+                      {contactsWithDraft.has(contact.id) && (
+                        <span className="text-orange-600 font-medium">Draft · </span>
+                      )}
                       {contact.display_name}
                     </div>
                   </div>
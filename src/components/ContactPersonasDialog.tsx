@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { X, Check, UserCog } from 'lucide-react';
+import { setAllowedPersonas } from '../lib/personaAllowlistService';
+
+interface ContactPersonasDialogProps {
+    contactId: string;
+    contactName: string;
+    personas: { id: string; name: string; color_primary: string }[];
+    allowedPersonaIds: string[] | null;
+    onSaved: () => void;
+    onClose: () => void;
+}
+
+export function ContactPersonasDialog({
+    contactId,
+    contactName,
+    personas,
+    allowedPersonaIds,
+    onSaved,
+    onClose,
+}: ContactPersonasDialogProps) {
+    const [restricted, setRestricted] = useState(allowedPersonaIds !== null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(
+        () => new Set(allowedPersonaIds ?? personas.map((p) => p.id))
+    );
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const allowedCount = personas.filter((p) => selectedIds.has(p.id)).length;
+
+    const handleSave = async () => {
+        // Personas that are switched off keep their place on the list
+        const hiddenIds = (allowedPersonaIds ?? []).filter((id) => !personas.some((p) => p.id === id));
+        const ids = restricted ? [...personas.filter((p) => selectedIds.has(p.id)).map((p) => p.id), ...hiddenIds] : null;
+
+        setSaving(true);
+        const saved = await setAllowedPersonas(contactId, ids);
+        setSaving(false);
+
+        if (!saved) {
+            setError('Could not save');
+            return;
+        }
+
+        onSaved();
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg max-w-md w-full p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <UserCog className="w-5 h-5" />
+                        Personas with {contactName}
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="radio" checked={!restricted} onChange={() => setRestricted(false)} />
+                        All personas, including new ones
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="radio" checked={restricted} onChange={() => setRestricted(true)} />
+                        Only these
+                    </label>
+
+                    {restricted && (
+                        <div className="flex flex-wrap gap-2 pl-6">
+                            {personas.map((persona) => {
+                                const isSelected = selectedIds.has(persona.id);
+
+                                return (
+                                    <button
+                                        key={persona.id}
+                                        onClick={() => toggleSelected(persona.id)}
+                                        className="px-3 py-1 rounded-full text-xs font-medium border transition-colors"
+                                        style={
+                                            isSelected
+                                                ? { backgroundColor: persona.color_primary, borderColor: persona.color_primary, color: '#fff' }
+                                                : { borderColor: persona.color_primary, color: persona.color_primary }
+                                        }
+                                    >
+                                        {persona.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                        Other personas are hidden for this contact, and neither of you can open chats in them. Existing chats in them are kept but can't be continued.
+                    </p>
+
+                    {error && (
+                        <div className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-600">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving || (restricted && allowedCount === 0)}
+                        className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        <Check className="w-4 h-4" />
+                        {saving ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 font-medium"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import * as LucideIcons from 'lucide-react';
+import { Users, X, Check } from 'lucide-react';
+import { createGroup } from '../lib/groupService';
+
+interface GroupContact {
+    contact_user_id: string;
+    nickname: string | null;
+    display_name: string;
+}
+
+interface GroupPersona {
+    id: string;
+    name: string;
+    icon: string;
+    color_primary: string;
+}
+
+interface CreateGroupDialogProps {
+    contacts: GroupContact[];
+    personas: GroupPersona[];
+    /** Preselected persona, e.g. the one currently in use */
+    defaultPersonaId?: string;
+    onCreated: (groupId: string) => void;
+    onClose: () => void;
+}
+
+const GROUP_ICONS = ['👥', '📚', '💼', '🎮', '🏠', '⚽', '🎉', '✈️'];
+
+function getIconComponent(iconName: string) {
+    return (LucideIcons as unknown as Record<string, LucideIcons.LucideIcon | undefined>)[iconName] ?? LucideIcons.Circle;
+}
+
+export function CreateGroupDialog({ contacts, personas, defaultPersonaId, onCreated, onClose }: CreateGroupDialogProps) {
+    const [name, setName] = useState('');
+    const [icon, setIcon] = useState(GROUP_ICONS[0]);
+    const [personaId, setPersonaId] = useState(defaultPersonaId ?? personas[0]?.id ?? '');
+    const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState('');
+
+    const toggleMember = (userId: string) => {
+        setMemberIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(userId)) {
+                next.delete(userId);
+            } else {
+                next.add(userId);
+            }
+            return next;
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || !personaId) return;
+
+        setCreating(true);
+        setError('');
+
+        const groupId = await createGroup({
+            name: name.trim(),
+            personaId,
+            memberIds: Array.from(memberIds),
+            icon,
+        });
+
+        setCreating(false);
+
+        if (groupId) {
+            onCreated(groupId);
+        } else {
+            setError('Could not create group');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <form
+                onSubmit={handleSubmit}
+                className="bg-white rounded-lg max-w-md w-full p-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <Users className="w-5 h-5 text-gray-600" />
+                        New Group
+                    </h3>
+                    <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={icon}
+                                onChange={(e) => setIcon(e.target.value)}
+                                className="px-2 py-2 border border-gray-300 rounded-lg text-lg"
+                                title="Group icon"
+                            >
+                                {GROUP_ICONS.map((option) => (
+                                    <option key={option} value={option}>{option}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="e.g. Study Group"
+                                maxLength={80}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required
+                                autoFocus
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Join as</label>
+                        <div className="flex flex-wrap gap-1">
+                            {personas.map((persona) => {
+                                const Icon = getIconComponent(persona.icon);
+
+                                return (
+                                    <button
+                                        key={persona.id}
+                                        type="button"
+                                        onClick={() => setPersonaId(persona.id)}
+                                        className="px-3 py-1 rounded-full text-xs font-medium border transition-colors flex items-center gap-1"
+                                        style={
+                                            persona.id === personaId
+                                                ? { backgroundColor: persona.color_primary, borderColor: persona.color_primary, color: '#fff' }
+                                                : { borderColor: persona.color_primary, color: persona.color_primary }
+                                        }
+                                    >
+                                        <Icon className="w-3 h-3" />
+                                        {persona.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Members {memberIds.size > 0 && <span className="text-gray-400">({memberIds.size})</span>}
+                        </label>
+                        <ul className="max-h-56 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                            {contacts.map((contact) => {
+                                const isSelected = memberIds.has(contact.contact_user_id);
+
+                                return (
+                                    <li key={contact.contact_user_id}>
+                                        <button
+                                            type="button"
+                                            onClick={() => toggleMember(contact.contact_user_id)}
+                                            className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-gray-50"
+                                        >
+                                            {contact.nickname || contact.display_name}
+                                            {isSelected && <Check className="w-4 h-4 text-blue-600" />}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                            {contacts.length === 0 && (
+                                <li className="px-3 py-4 text-sm text-gray-500 text-center">Add contacts to invite them</li>
+                            )}
+                        </ul>
+                        <p className="mt-1 text-xs text-gray-500">
+                            Members join under their persona with the same name, and can switch it in the group settings.
+                        </p>
+                    </div>
+
+                    {error && <div className="text-red-600 text-sm">{error}</div>}
+
+                    <button
+                        type="submit"
+                        disabled={!name.trim() || !personaId || creating}
+                        className="w-full py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {creating ? 'Creating...' : 'Create Group'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { BarChart2, X, Plus, Trash2 } from 'lucide-react';
+import { MIN_POLL_OPTIONS, MAX_POLL_OPTIONS, type Poll } from '../lib/pollService';
+import { toDateTimeLocalValue } from '../lib/scheduledMessageService';
+
+interface CreatePollDialogProps {
+    persona: {
+        name: string;
+        color_primary: string;
+        color_accent: string;
+    };
+    onCreate: (poll: Poll) => void;
+    onClose: () => void;
+    /** Prefilled by the /poll command */
+    initialQuestion?: string;
+}
+
+const CLOSING_OPTIONS = [
+    { label: 'Never', minutes: null },
+    { label: '1 hour', minutes: 60 },
+    { label: '1 day', minutes: 24 * 60 },
+    { label: '1 week', minutes: 7 * 24 * 60 },
+    { label: 'Custom', minutes: -1 },
+] as const;
+
+type ClosingLabel = typeof CLOSING_OPTIONS[number]['label'];
+
+export function CreatePollDialog({ persona, onCreate, onClose, initialQuestion = '' }: CreatePollDialogProps) {
+    const [question, setQuestion] = useState(initialQuestion);
+    const [options, setOptions] = useState<string[]>(['', '']);
+    const [multiple, setMultiple] = useState(false);
+    const [anonymous, setAnonymous] = useState(false);
+    const [closing, setClosing] = useState<ClosingLabel>('Never');
+    const [customClose, setCustomClose] = useState(() => toDateTimeLocalValue(new Date(Date.now() + 24 * 3600000)));
+
+    const filledOptions = options.map((o) => o.trim()).filter(Boolean);
+    const hasDuplicates = new Set(filledOptions.map((o) => o.toLowerCase())).size !== filledOptions.length;
+
+    const getClosesAt = (): Date | null => {
+        const choice = CLOSING_OPTIONS.find((c) => c.label === closing)!;
+        if (choice.minutes === null) return null;
+        if (choice.minutes === -1) return customClose ? new Date(customClose) : null;
+        return new Date(Date.now() + choice.minutes * 60000);
+    };
+
+    const closesAt = getClosesAt();
+    const closingIsValid = closing !== 'Custom' || (!!closesAt && !isNaN(closesAt.getTime()) && closesAt.getTime() > Date.now());
+    const canCreate = !!question.trim() && filledOptions.length >= MIN_POLL_OPTIONS && !hasDuplicates && closingIsValid;
+
+    const updateOption = (index: number, value: string) => {
+        setOptions((prev) => prev.map((o, i) => (i === index ? value : o)));
+    };
+
+    const removeOption = (index: number) => {
+        setOptions((prev) => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canCreate) return;
+
+        onCreate({
+            question: question.trim(),
+            options: filledOptions,
+            multiple,
+            anonymous,
+            closes_at: closesAt ? closesAt.toISOString() : null,
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <form
+                onSubmit={handleSubmit}
+                className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <BarChart2 className="w-5 h-5" style={{ color: persona.color_primary }} />
+                        New Poll
+                    </h3>
+                    <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Question</label>
+                        <input
+                            type="text"
+                            value={question}
+                            onChange={(e) => setQuestion(e.target.value)}
+                            placeholder="e.g. Where should we eat on Sunday?"
+                            maxLength={300}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            required
+                            autoFocus
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Options</label>
+                        <div className="space-y-2">
+                            {options.map((option, index) => (
+                                <div key={index} className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={option}
+                                        onChange={(e) => updateOption(index, e.target.value)}
+                                        placeholder={`Option ${index + 1}`}
+                                        maxLength={100}
+                                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                    {options.length > MIN_POLL_OPTIONS && (
+                                        <button
+                                            type="button"
+                                            onClick={() => removeOption(index)}
+                                            className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100"
+                                            title="Remove option"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        {options.length < MAX_POLL_OPTIONS && (
+                            <button
+                                type="button"
+                                onClick={() => setOptions((prev) => [...prev, ''])}
+                                className="flex items-center gap-1 mt-2 text-sm font-medium hover:underline"
+                                style={{ color: persona.color_primary }}
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add option
+                            </button>
+                        )}
+                        {hasDuplicates && <p className="mt-1 text-xs text-red-600">Options must be different</p>}
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input type="checkbox" checked={multiple} onChange={(e) => setMultiple(e.target.checked)} />
+                            Allow multiple choices
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input type="checkbox" checked={anonymous} onChange={(e) => setAnonymous(e.target.checked)} />
+                            Anonymous votes (only totals are shown)
+                        </label>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Closes</label>
+                        <div className="flex flex-wrap gap-1">
+                            {CLOSING_OPTIONS.map((option) => (
+                                <button
+                                    key={option.label}
+                                    type="button"
+                                    onClick={() => setClosing(option.label)}
+                                    className="px-3 py-1 rounded-full text-xs font-medium border transition-colors"
+                                    style={
+                                        option.label === closing
+                                            ? { backgroundColor: persona.color_primary, borderColor: persona.color_primary, color: '#fff' }
+                                            : { borderColor: '#D1D5DB', color: '#4B5563' }
+                                    }
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        {closing === 'Custom' && (
+                            <input
+                                type="datetime-local"
+                                value={customClose}
+                                min={toDateTimeLocalValue(new Date())}
+                                onChange={(e) => setCustomClose(e.target.value)}
+                                className="mt-2 w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                            />
+                        )}
+                        {!closingIsValid && <p className="mt-1 text-xs text-red-600">Pick a time in the future</p>}
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={!canCreate}
+                        className="w-full py-2 rounded-lg text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        style={{ background: `linear-gradient(135deg, ${persona.color_primary}, ${persona.color_accent})` }}
+                    >
+                        Send Poll in {persona.name}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
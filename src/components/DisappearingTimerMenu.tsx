@@ -0,0 +1,68 @@
+import { useState, useRef, useEffect } from 'react';
+import { Timer, Check } from 'lucide-react';
+import { DISAPPEARING_OPTIONS, formatTimerLabel } from '../lib/disappearingService';
+
+interface DisappearingTimerMenuProps {
+    seconds: number | null;
+    colorPrimary: string;
+    onChange: (seconds: number | null) => void;
+}
+
+export function DisappearingTimerMenu({ seconds, colorPrimary, onChange }: DisappearingTimerMenuProps) {
+    const [showMenu, setShowMenu] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setShowMenu(false);
+            }
+        };
+
+        if (showMenu) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [showMenu]);
+
+    const handleSelect = (value: number | null) => {
+        setShowMenu(false);
+        if (value !== seconds) {
+            onChange(value);
+        }
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setShowMenu(!showMenu)}
+                className={`p-2 rounded-lg transition-colors flex items-center gap-1 ${seconds ? 'text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                style={seconds ? { backgroundColor: colorPrimary } : undefined}
+                title={seconds ? 'Disappearing messages on' : 'Disappearing messages off'}
+            >
+                <Timer className={`w-5 h-5 ${seconds ? '' : 'opacity-40'}`} />
+                {seconds && <span className="text-xs font-medium">{formatTimerLabel(seconds)}</span>}
+            </button>
+
+            {showMenu && (
+                <div className="absolute top-full right-0 mt-1 z-20 bg-white border border-gray-200 rounded-lg shadow-lg py-1 w-52">
+                    <div className="px-3 py-2 text-xs text-gray-500">Disappearing messages</div>
+                    {DISAPPEARING_OPTIONS.map((option) => (
+                        <button
+                            key={option.label}
+                            onClick={() => handleSelect(option.seconds)}
+                            className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                        >
+                            {option.label}
+                            {option.seconds === seconds && <Check className="w-4 h-4" style={{ color: colorPrimary }} />}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
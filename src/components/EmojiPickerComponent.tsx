@@ -4,9 +4,11 @@ import { Smile } from 'lucide-react';
 
 interface EmojiPickerComponentProps {
     onEmojiSelect: (emoji: string) => void;
+    title?: string;
+    align?: 'left' | 'right';
 }
 
-export function EmojiPickerComponent({ onEmojiSelect }: EmojiPickerComponentProps) {
+export function EmojiPickerComponent({ onEmojiSelect, title = 'Add emoji', align = 'right' }: EmojiPickerComponentProps) {
     const [showPicker, setShowPicker] = useState(false);
     const pickerRef = useRef<HTMLDivElement>(null);
 
@@ -37,13 +39,13 @@ export function EmojiPickerComponent({ onEmojiSelect }: EmojiPickerComponentProp
                 type="button"
                 onClick={() => setShowPicker(!showPicker)}
                 className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                title="Add emoji"
+                title={title}
             >
                 <Smile className="w-5 h-5 text-gray-600" />
             </button>
 
             {showPicker && (
-                <div className="absolute bottom-full right-0 mb-2 z-50">
+                <div className={`absolute bottom-full mb-2 z-50 ${align === 'right' ? 'right-0' : 'left-0'}`}>
                     <EmojiPicker
                         onEmojiClick={handleEmojiClick}
                         width={350}
@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { Timer } from 'lucide-react';
+import { formatTimeLeft } from '../lib/disappearingService';
+
+interface ExpiryCountdownProps {
+    expiresAt: string;
+    onExpire: () => void;
+}
+
+export function ExpiryCountdown({ expiresAt, onExpire }: ExpiryCountdownProps) {
+    const [timeLeft, setTimeLeft] = useState(() => new Date(expiresAt).getTime() - Date.now());
+
+    useEffect(() => {
+        if (timeLeft <= 0) {
+            onExpire();
+            return;
+        }
+
+        // Tick every second in the last minute, otherwise once a minute is enough
+        const delay = timeLeft <= 60000 ? 1000 : Math.min(timeLeft - 60000, 60000);
+        const timeout = setTimeout(() => {
+            setTimeLeft(new Date(expiresAt).getTime() - Date.now());
+        }, delay);
+
+        return () => clearTimeout(timeout);
+    }, [timeLeft, expiresAt]);
+
+    return (
+        <span
+            className="inline-flex items-center gap-0.5 text-gray-400"
+            title={`Disappears ${new Date(expiresAt).toLocaleString()}`}
+        >
+            <Timer className="w-3 h-3" />
+            {formatTimeLeft(timeLeft)}
+        </span>
+    );
+}
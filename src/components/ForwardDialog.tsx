@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Forward, X, Search } from 'lucide-react';
+import { getMessagePreview, type MessageRow } from '../lib/messageService';
+import { filterAllowedPersonas } from '../lib/personaAllowlistService';
+import type { ForwardTarget } from '../lib/forwardService';
+
+export interface ForwardContact {
+    id: string;
+    nickname: string | null;
+    display_name: string;
+    allowed_persona_ids?: string[] | null;
+}
+
+export interface ForwardPersona {
+    id: string;
+    name: string;
+    color_primary: string;
+}
+
+interface ForwardDialogProps {
+    message: MessageRow;
+    contacts: ForwardContact[];
+    personas: ForwardPersona[];
+    /** The channel the message is being forwarded from, which is not offered as a target */
+    source: ForwardTarget;
+    onForward: (targets: ForwardTarget[]) => Promise<void>;
+    onClose: () => void;
+}
+
+const targetKey = (target: ForwardTarget) => `${target.contactId}:${target.personaId}`;
+
+export function ForwardDialog({ message, contacts, personas, source, onForward, onClose }: ForwardDialogProps) {
+    const [selected, setSelected] = useState<Map<string, ForwardTarget>>(new Map());
+    const [searchQuery, setSearchQuery] = useState('');
+    const [sending, setSending] = useState(false);
+
+    const toggleTarget = (target: ForwardTarget) => {
+        setSelected((prev) => {
+            const next = new Map(prev);
+            const key = targetKey(target);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.set(key, target);
+            }
+            return next;
+        });
+    };
+
+    const handleForward = async () => {
+        setSending(true);
+        await onForward(Array.from(selected.values()));
+        setSending(false);
+    };
+
+    const filteredContacts = contacts.filter((contact) =>
+        (contact.nickname || contact.display_name).toLowerCase().includes(searchQuery.toLowerCase())
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg max-w-md w-full p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <Forward className="w-5 h-5 text-gray-600" />
+                        Forward Message
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="mb-3 px-3 py-2 bg-gray-50 border-l-4 border-gray-300 rounded text-sm text-gray-600 line-clamp-2">
+                    {getMessagePreview(message)}
+                </div>
+
+                <div className="relative mb-3">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        type="text"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search contacts..."
+                        className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </div>
+
+                <ul className="space-y-3 max-h-80 overflow-y-auto mb-4">
+                    {filteredContacts.map((contact) => (
+                        <li key={contact.id}>
+                            <div className="text-sm font-medium text-gray-900 mb-1">
+                                {contact.nickname || contact.display_name}
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {filterAllowedPersonas(personas, contact.allowed_persona_ids).map((persona) => {
+                                    const target = { contactId: contact.id, personaId: persona.id };
+                                    if (targetKey(target) === targetKey(source)) return null;
+
+                                    const isSelected = selected.has(targetKey(target));
+
+                                    return (
+                                        <button
+                                            key={persona.id}
+                                            onClick={() => toggleTarget(target)}
+                                            className="px-3 py-1 rounded-full text-xs font-medium border transition-colors"
+                                            style={
+                                                isSelected
+                                                    ? { backgroundColor: persona.color_primary, borderColor: persona.color_primary, color: '#fff' }
+                                                    : { borderColor: persona.color_primary, color: persona.color_primary }
+                                            }
+                                        >
+                                            {persona.name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </li>
+                    ))}
+                    {filteredContacts.length === 0 && (
+                        <li className="text-sm text-gray-500 text-center py-4">No contacts found</li>
+                    )}
+                </ul>
+
+                <button
+                    onClick={handleForward}
+                    disabled={selected.size === 0 || sending}
+                    className="w-full py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {sending
+                        ? 'Forwarding...'
+                        : selected.size > 1
+                            ? `Forward to ${selected.size} chats`
+                            : 'Forward'}
+                </button>
+            </div>
+        </div>
+    );
+}
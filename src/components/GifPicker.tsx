@@ -11,10 +11,12 @@ const gf = new GiphyFetch(GIPHY_API_KEY);
 interface GifPickerProps {
     onGifSelect: (gifUrl: string) => void;
     onClose: () => void;
+    /** Start with a search, e.g. from the /gif command */
+    initialQuery?: string;
 }
 
-export function GifPicker({ onGifSelect, onClose }: GifPickerProps) {
-    const [searchQuery, setSearchQuery] = useState('');
+export function GifPicker({ onGifSelect, onClose, initialQuery = '' }: GifPickerProps) {
+    const [searchQuery, setSearchQuery] = useState(initialQuery);
     const pickerRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import * as LucideIcons from 'lucide-react';
+import { Settings, X, UserPlus, UserMinus, Shield, ShieldOff, LogOut, Trash2 } from 'lucide-react';
+import {
+    addGroupMember,
+    deleteGroup,
+    removeGroupMember,
+    setGroupMemberRole,
+    setGroupPersona,
+    updateGroup,
+    type GroupChat,
+    type GroupMember,
+} from '../lib/groupService';
+
+interface GroupSettingsProps {
+    group: GroupChat;
+    members: GroupMember[];
+    currentUserId: string;
+    /** The user's contacts, who can be added to the group */
+    contacts: {
+        contact_user_id: string;
+        nickname: string | null;
+        display_name: string;
+    }[];
+    personas: {
+        id: string;
+        name: string;
+        icon: string;
+        color_primary: string;
+    }[];
+    onClose: () => void;
+    /** Called after the user left or deleted the group */
+    onLeave: () => void;
+}
+
+const ROLE_LABELS: Record<GroupMember['role'], string> = {
+    owner: 'Owner',
+    admin: 'Admin',
+    member: '',
+};
+
+function getIconComponent(iconName: string) {
+    return (LucideIcons as unknown as Record<string, LucideIcons.LucideIcon | undefined>)[iconName] ?? LucideIcons.Circle;
+}
+
+export function GroupSettings({ group, members, currentUserId, contacts, personas, onClose, onLeave }: GroupSettingsProps) {
+    const [name, setName] = useState(group.name);
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [addingUserId, setAddingUserId] = useState('');
+    const [invited, setInvited] = useState('');
+
+    const isOwner = group.role === 'owner';
+    const isAdmin = group.role === 'owner' || group.role === 'admin';
+    const memberIds = new Set(members.map((m) => m.user_id));
+    const addableContacts = contacts.filter((c) => !memberIds.has(c.contact_user_id));
+
+    const run = async (action: () => Promise<string | null>) => {
+        setBusy(true);
+        setError('');
+        setInvited('');
+        const message = await action();
+        setBusy(false);
+        if (message) setError(message);
+        return !message;
+    };
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || name.trim() === group.name) return;
+        run(async () => (await updateGroup(group.id, { name: name.trim() })) ? null : 'Could not rename group');
+    };
+
+    const handleAdd = async () => {
+        if (!addingUserId) return;
+        if (await run(() => addGroupMember(group.id, addingUserId))) {
+            const contact = addableContacts.find((c) => c.contact_user_id === addingUserId);
+            setInvited(`Invite sent to ${contact?.nickname || contact?.display_name || 'your contact'}`);
+            setAddingUserId('');
+        }
+    };
+
+    const handleRemove = (member: GroupMember) => {
+        if (!confirm(`Remove ${member.display_name} from ${group.name}?`)) return;
+        run(() => removeGroupMember(group.id, member.user_id));
+    };
+
+    const handleLeave = async () => {
+        if (!confirm(`Leave ${group.name}?`)) return;
+        if (await run(() => removeGroupMember(group.id, currentUserId))) {
+            onLeave();
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(`Delete ${group.name} and all of its messages for everyone?`)) return;
+        if (await run(async () => (await deleteGroup(group.id)) ? null : 'Could not delete group')) {
+            onLeave();
+        }
+    };
+
+    const canRemove = (member: GroupMember) =>
+        member.user_id !== currentUserId && (isOwner || (isAdmin && member.role === 'member'));
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <Settings className="w-5 h-5 text-gray-600" />
+                        Group Settings
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-5">
+                    {isAdmin ? (
+                        <form onSubmit={handleRename} className="flex gap-2">
+                            <span className="text-2xl">{group.icon}</span>
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                maxLength={80}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                                type="submit"
+                                disabled={busy || !name.trim() || name.trim() === group.name}
+                                className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                Rename
+                            </button>
+                        </form>
+                    ) : (
+                        <div className="flex items-center gap-2 text-lg font-medium text-gray-900">
+                            <span className="text-2xl">{group.icon}</span>
+                            {group.name}
+                        </div>
+                    )}
+
+                    <div>
+                        <div className="text-sm font-medium text-gray-700 mb-1">You appear as</div>
+                        <div className="flex flex-wrap gap-1">
+                            {personas.map((persona) => {
+                                const Icon = getIconComponent(persona.icon);
+
+                                return (
+                                    <button
+                                        key={persona.id}
+                                        onClick={() => persona.id !== group.persona.id && run(async () =>
+                                            (await setGroupPersona(group.id, persona.id)) ? null : 'Could not switch persona'
+                                        )}
+                                        disabled={busy}
+                                        className="px-3 py-1 rounded-full text-xs font-medium border transition-colors flex items-center gap-1"
+                                        style={
+                                            persona.id === group.persona.id
+                                                ? { backgroundColor: persona.color_primary, borderColor: persona.color_primary, color: '#fff' }
+                                                : { borderColor: persona.color_primary, color: persona.color_primary }
+                                        }
+                                    >
+                                        <Icon className="w-3 h-3" />
+                                        {persona.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="text-sm font-medium text-gray-700 mb-1">
+                            {members.length} {members.length === 1 ? 'member' : 'members'}
+                        </div>
+                        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                            {members.map((member) => {
+                                const Icon = getIconComponent(member.persona_icon);
+
+                                return (
+                                    <li key={member.user_id} className="flex items-center gap-2 px-3 py-2">
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-sm text-gray-900 truncate">
+                                                {member.user_id === currentUserId ? 'You' : member.display_name}
+                                                {ROLE_LABELS[member.role] && (
+                                                    <span className="ml-2 text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                                                )}
+                                            </div>
+                                            <span
+                                                className="inline-flex items-center gap-1 mt-0.5 px-2 py-0.5 rounded-full text-xs text-white"
+                                                style={{ background: `linear-gradient(135deg, ${member.color_primary}, ${member.color_accent})` }}
+                                            >
+                                                <Icon className="w-3 h-3" />
+                                                {member.persona_name}
+                                            </span>
+                                        </div>
+                                        {isOwner && member.role !== 'owner' && (
+                                            <button
+                                                onClick={() => run(async () =>
+                                                    (await setGroupMemberRole(group.id, member.user_id, member.role === 'admin' ? 'member' : 'admin'))
+                                                        ? null
+                                                        : 'Could not change role'
+                                                )}
+                                                disabled={busy}
+                                                className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                                                title={member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                                            >
+                                                {member.role === 'admin' ? <ShieldOff className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
+                                            </button>
+                                        )}
+                                        {canRemove(member) && (
+                                            <button
+                                                onClick={() => handleRemove(member)}
+                                                disabled={busy}
+                                                className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-gray-100"
+                                                title="Remove from group"
+                                            >
+                                                <UserMinus className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+
+                    {isAdmin && addableContacts.length > 0 && (
+                        <div className="flex gap-2">
+                            <select
+                                value={addingUserId}
+                                onChange={(e) => setAddingUserId(e.target.value)}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                            >
+                                <option value="">Invite a contact...</option>
+                                {addableContacts.map((contact) => (
+                                    <option key={contact.contact_user_id} value={contact.contact_user_id}>
+                                        {contact.nickname || contact.display_name}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={handleAdd}
+                                disabled={busy || !addingUserId}
+                                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                <UserPlus className="w-4 h-4" />
+                                Invite
+                            </button>
+                        </div>
+                    )}
+
+                    {invited && <div className="text-green-600 text-sm">{invited}</div>}
+                    {error && <div className="text-red-600 text-sm">{error}</div>}
+
+                    <div className="flex gap-2 pt-2 border-t border-gray-100">
+                        <button
+                            onClick={handleLeave}
+                            disabled={busy}
+                            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-100 text-gray-700 text-sm hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            <LogOut className="w-4 h-4" />
+                            Leave group
+                        </button>
+                        {isOwner && (
+                            <button
+                                onClick={handleDelete}
+                                disabled={busy}
+                                className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-red-50 text-red-600 text-sm hover:bg-red-100 disabled:opacity-50"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                Delete group
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,48 @@
+import { X } from 'lucide-react';
+import type { LinkPreview } from '../lib/unfurlService';
+
+interface LinkPreviewCardProps {
+    preview: LinkPreview;
+    accentColor: string;
+    /** Shows a remove button, e.g. for the sender */
+    onRemove?: () => void;
+}
+
+export function LinkPreviewCard({ preview, accentColor, onRemove }: LinkPreviewCardProps) {
+    return (
+        <div
+            className="relative flex max-w-sm overflow-hidden rounded-xl border border-gray-200 border-l-4 bg-white shadow-sm"
+            style={{ borderLeftColor: accentColor }}
+        >
+            <a
+                href={preview.url}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="flex flex-1 min-w-0 gap-3 p-3 hover:bg-gray-50"
+            >
+                <div className="flex-1 min-w-0">
+                    {preview.site_name && (
+                        <div className="text-xs text-gray-500 truncate">{preview.site_name}</div>
+                    )}
+                    <div className="text-sm font-semibold text-gray-900 line-clamp-2">{preview.title}</div>
+                    {preview.description && (
+                        <div className="mt-0.5 text-xs text-gray-600 line-clamp-2">{preview.description}</div>
+                    )}
+                </div>
+                {preview.image?.startsWith('data:image/') && (
+                    <img src={preview.image} alt="" className="w-16 h-16 flex-shrink-0 rounded-lg object-cover" />
+                )}
+            </a>
+
+            {onRemove && (
+                <button
+                    onClick={onRemove}
+                    className="absolute top-1 right-1 p-0.5 rounded-full bg-white/90 text-gray-400 hover:text-gray-600"
+                    title="Remove preview"
+                >
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,146 @@
+import { Component, Fragment, type ReactNode } from 'react';
+import { parseMarkdown, type BlockNode, type InlineNode } from '../lib/markdown';
+import { highlightCode, type TokenType } from '../lib/syntaxHighlight';
+
+interface MarkdownContentProps {
+    content: string;
+    /** Light text on the persona gradient instead of dark text on white */
+    inverted?: boolean;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+    keyword: 'text-purple-300',
+    string: 'text-green-300',
+    comment: 'text-gray-400 italic',
+    number: 'text-orange-300',
+    plain: '',
+};
+
+interface MarkdownBoundaryProps {
+    content: string;
+    children: ReactNode;
+}
+
+/**
+ * Shows the message as plain text if it cannot be rendered, so one message
+ * can't take down the whole chat
+ */
+class MarkdownBoundary extends Component<MarkdownBoundaryProps, { failed: boolean; content: string }> {
+    state = { failed: false, content: this.props.content };
+
+    static getDerivedStateFromError() {
+        return { failed: true };
+    }
+
+    // Try again once the text changes, e.g. while typing in the preview
+    static getDerivedStateFromProps(props: MarkdownBoundaryProps, state: { content: string }) {
+        return props.content !== state.content ? { failed: false, content: props.content } : null;
+    }
+
+    componentDidCatch(error: unknown) {
+        console.error('Error rendering message formatting:', error);
+    }
+
+    render() {
+        if (this.state.failed) {
+            return <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">{this.props.content}</div>;
+        }
+        return this.props.children;
+    }
+}
+
+export function MarkdownContent({ content, inverted = false }: MarkdownContentProps) {
+    return (
+        <MarkdownBoundary content={content}>
+            <MarkdownBody content={content} inverted={inverted} />
+        </MarkdownBoundary>
+    );
+}
+
+function MarkdownBody({ content, inverted = false }: MarkdownContentProps) {
+    const renderInline = (nodes: InlineNode[]) =>
+        nodes.map((node, index) => {
+            switch (node.type) {
+                case 'text':
+                    return <Fragment key={index}>{node.text}</Fragment>;
+                case 'code':
+                    return (
+                        <code
+                            key={index}
+                            className={`px-1 py-0.5 rounded font-mono text-[0.85em] ${inverted ? 'bg-white/20' : 'bg-gray-100 text-gray-800'}`}
+                        >
+                            {node.text}
+                        </code>
+                    );
+                case 'strong':
+                    return <strong key={index}>{renderInline(node.children)}</strong>;
+                case 'em':
+                    return <em key={index}>{renderInline(node.children)}</em>;
+                case 'link':
+                    return (
+                        <a
+                            key={index}
+                            href={node.href}
+                            target="_blank"
+                            rel="noopener noreferrer nofollow"
+                            className={`underline break-all ${inverted ? 'text-white' : 'text-blue-600'}`}
+                        >
+                            {renderInline(node.children)}
+                        </a>
+                    );
+            }
+        });
+
+    const renderBlock = (block: BlockNode, index: number) => {
+        switch (block.type) {
+            case 'paragraph':
+                return (
+                    <p key={index}>
+                        {block.lines.map((line, lineIndex) => (
+                            <Fragment key={lineIndex}>
+                                {lineIndex > 0 && <br />}
+                                {renderInline(line)}
+                            </Fragment>
+                        ))}
+                    </p>
+                );
+            case 'code':
+                return (
+                    <pre key={index} className="rounded-lg bg-gray-900 text-gray-100 text-xs p-3 overflow-x-auto">
+                        <code className="font-mono">
+                            {highlightCode(block.code, block.language).map((token, tokenIndex) =>
+                                token.type === 'plain' ? (
+                                    <Fragment key={tokenIndex}>{token.text}</Fragment>
+                                ) : (
+                                    <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                                )
+                            )}
+                        </code>
+                    </pre>
+                );
+            case 'blockquote':
+                return (
+                    <blockquote
+                        key={index}
+                        className={`border-l-4 pl-3 space-y-2 ${inverted ? 'border-white/50 text-white/90' : 'border-gray-300 text-gray-600'}`}
+                    >
+                        {block.children.map(renderBlock)}
+                    </blockquote>
+                );
+            case 'list': {
+                const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+                return block.ordered ? (
+                    <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+                ) : (
+                    <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>
+                );
+            }
+        }
+    };
+
+    return (
+        <div className="text-sm leading-relaxed space-y-2 break-words">
+            {parseMarkdown(content).map(renderBlock)}
+        </div>
+    );
+}
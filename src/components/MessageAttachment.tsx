@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { Download, FileText, Image as ImageIcon, Video, Music, File as FileIcon, X } from 'lucide-react';
+import { WaveformPlayer } from './WaveformPlayer';
 import { isImageFile, isVideoFile, isAudioFile, formatFileSize, getFileIcon } from '../lib/fileService';
 
 interface MessageAttachmentProps {
@@ -7,9 +8,11 @@ interface MessageAttachmentProps {
     fileType: string;
     fileName: string;
     fileSize?: number;
+    /** Color of the audio player's waveform and controls */
+    accentColor?: string;
 }
 
-export function MessageAttachment({ fileUrl, fileType, fileName, fileSize }: MessageAttachmentProps) {
+export function MessageAttachment({ fileUrl, fileType, fileName, fileSize, accentColor = '#4B5563' }: MessageAttachmentProps) {
     const [showLightbox, setShowLightbox] = useState(false);
 
     const renderIcon = () => {
@@ -91,15 +94,7 @@ export function MessageAttachment({ fileUrl, fileType, fileName, fileSize }: Mes
     }
 
     if (isAudioFile(fileType)) {
-        return (
-            <div className="bg-gray-100 rounded-lg p-3 max-w-sm">
-                <audio controls className="w-full">
-                    <source src={fileUrl} type={fileType} />
-                    Your browser does not support the audio tag.
-                </audio>
-                <p className="text-xs text-gray-600 mt-2">{fileName}</p>
-            </div>
-        );
+        return <WaveformPlayer fileUrl={fileUrl} fileName={fileName} accentColor={accentColor} />;
     }
 
     // Default file display
@@ -0,0 +1,474 @@
+import { useState } from 'react';
+import { Pencil, Check, X, Trash2, Ban, Reply, Forward, Pin, PinOff, Star } from 'lucide-react';
+import { MessageStatus } from './MessageStatus';
+import { MessageAttachment } from './MessageAttachment';
+import { MessageReactions } from './MessageReactions';
+import { ReactionBar } from './ReactionBar';
+import { ExpiryCountdown } from './ExpiryCountdown';
+import { MarkdownContent } from './MarkdownContent';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { PollCard } from './PollCard';
+import { getMessagePreview, type MessageRow } from '../lib/messageService';
+import { getLinkPreview } from '../lib/unfurlService';
+import { getPoll, type PollSummary } from '../lib/pollService';
+import { getToneLabel } from '../lib/toneService';
+import type { ReactionSummary } from '../lib/reactionService';
+import type { OutboxState } from '../lib/outboxService';
+
+export type DeleteMode = 'me' | 'everyone';
+
+interface MessageBubbleProps {
+    message: MessageRow;
+    isSender: boolean;
+    persona: {
+        color_primary: string;
+        color_secondary: string;
+        color_accent: string;
+    };
+    onEdit: (messageId: string, content: string) => Promise<boolean>;
+    onShowHistory: (message: MessageRow) => void;
+    onDelete: (message: MessageRow, mode: DeleteMode) => void;
+    onReply: (message: MessageRow) => void;
+    onForward: (message: MessageRow) => void;
+    isPinned: boolean;
+    /** False when the conversation is at its pin limit */
+    canPin: boolean;
+    onTogglePin: (message: MessageRow) => void;
+    /** Starred by the current user; stars are private */
+    isStarred: boolean;
+    onToggleStar: (message: MessageRow) => void;
+    /** Render Markdown; off shows the text exactly as typed */
+    richFormatting: boolean;
+    /** The persona shares read receipts; receipts are reciprocal, so off shows "read" as delivered */
+    readReceipts: boolean;
+    /** The quoted original: undefined while loading, null when it is not available */
+    quotedMessage?: MessageRow | null;
+    onJumpToMessage: (messageId: string) => void;
+    resolveSenderName: (senderId: string) => string;
+    highlighted?: boolean;
+    reactions: ReactionSummary[];
+    quickReactions: string[];
+    onToggleReaction: (messageId: string, emoji: string) => void;
+    /** Set while the message is still in the outbox */
+    pendingState?: OutboxState;
+    onRetry?: (messageId: string) => void;
+    onDiscard?: (messageId: string) => void;
+    onExpire: (messageId: string) => void;
+    onRemoveLinkPreview: (messageId: string) => void;
+    /** Sender name above incoming group messages, in the sender's persona color */
+    senderLabel?: { name: string; color: string };
+    /** Results for poll messages */
+    pollSummary?: PollSummary;
+    onVotePoll: (messageId: string, optionIndexes: number[]) => Promise<string | null>;
+}
+
+export function MessageBubble({
+    message,
+    isSender,
+    persona,
+    onEdit,
+    onShowHistory,
+    onDelete,
+    onReply,
+    onForward,
+    isPinned,
+    canPin,
+    onTogglePin,
+    isStarred,
+    onToggleStar,
+    richFormatting,
+    readReceipts,
+    quotedMessage,
+    onJumpToMessage,
+    resolveSenderName,
+    highlighted = false,
+    reactions,
+    quickReactions,
+    onToggleReaction,
+    pendingState,
+    onRetry,
+    onDiscard,
+    onExpire,
+    onRemoveLinkPreview,
+    senderLabel,
+    pollSummary,
+    onVotePoll,
+}: MessageBubbleProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [showDeleteMenu, setShowDeleteMenu] = useState(false);
+    const [draft, setDraft] = useState(message.content);
+    const [saving, setSaving] = useState(false);
+
+    const isDeleted = !!message.deleted_at;
+    const hasAttachment = message.file_url && message.file_type && message.file_name;
+    const poll = getPoll(message);
+    const hasText = !poll && message.content && !message.content.startsWith('Sent a ');
+    const canEdit = isSender && hasText && !isDeleted;
+    const linkPreview = getLinkPreview(message);
+    const tone = getToneLabel(message.detected_tone);
+
+    const startEditing = () => {
+        setDraft(message.content);
+        setIsEditing(true);
+    };
+
+    const handleSave = async () => {
+        const content = draft.trim();
+        if (!content || content === message.content) {
+            setIsEditing(false);
+            return;
+        }
+
+        setSaving(true);
+        const saved = await onEdit(message.id, content);
+        setSaving(false);
+
+        if (saved) {
+            setIsEditing(false);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSave();
+        } else if (e.key === 'Escape') {
+            setIsEditing(false);
+        }
+    };
+
+    const handleDelete = (mode: DeleteMode) => {
+        setShowDeleteMenu(false);
+        onDelete(message, mode);
+    };
+
+    const renderActions = () => pendingState ? null : (
+        <div
+            className={`relative flex gap-1 transition-opacity focus-within:opacity-100 ${showDeleteMenu ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                }`}
+        >
+            {!isDeleted && (
+                <ReactionBar
+                    quickReactions={quickReactions}
+                    onReact={(emoji) => onToggleReaction(message.id, emoji)}
+                    align={isSender ? 'right' : 'left'}
+                />
+            )}
+            {!isDeleted && (
+                <button
+                    onClick={() => onReply(message)}
+                    className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+                    title="Reply"
+                >
+                    <Reply className="w-4 h-4" />
+                </button>
+            )}
+            {!isDeleted && (
+                <button
+                    onClick={() => onForward(message)}
+                    className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+                    title="Forward"
+                >
+                    <Forward className="w-4 h-4" />
+                </button>
+            )}
+            {!isDeleted && (isPinned || canPin) && (
+                <button
+                    onClick={() => onTogglePin(message)}
+                    className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+                    title={isPinned ? 'Unpin' : 'Pin'}
+                >
+                    {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                </button>
+            )}
+            {!isDeleted && (
+                <button
+                    onClick={() => onToggleStar(message)}
+                    className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+                    title={isStarred ? 'Unstar' : 'Star'}
+                >
+                    <Star className={`w-4 h-4 ${isStarred ? 'fill-current text-yellow-500' : ''}`} />
+                </button>
+            )}
+            {canEdit && (
+                <button
+                    onClick={startEditing}
+                    className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+                    title="Edit message"
+                >
+                    <Pencil className="w-4 h-4" />
+                </button>
+            )}
+            <button
+                onClick={() => setShowDeleteMenu(!showDeleteMenu)}
+                className="p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-gray-200"
+                title="Delete message"
+            >
+                <Trash2 className="w-4 h-4" />
+            </button>
+
+            {showDeleteMenu && (
+                <div
+                    className={`absolute bottom-full mb-1 z-20 bg-white border border-gray-200 rounded-lg shadow-lg py-1 w-44 ${isSender ? 'right-0' : 'left-0'
+                        }`}
+                >
+                    <button
+                        onClick={() => handleDelete('me')}
+                        className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                        Delete for me
+                    </button>
+                    {isSender && !isDeleted && (
+                        <button
+                            onClick={() => handleDelete('everyone')}
+                            className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
+                        >
+                            Delete for everyone
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    const renderQuote = () => {
+        if (!message.reply_to_id) return null;
+
+        let label: string;
+        let preview: string;
+
+        if (quotedMessage === undefined) {
+            label = 'Reply';
+            preview = 'Loading original message...';
+        } else if (quotedMessage === null) {
+            label = 'Reply';
+            preview = 'Original message unavailable';
+        } else {
+            label = resolveSenderName(quotedMessage.sender_id);
+            preview = quotedMessage.deleted_at ? 'Original message was deleted' : getMessagePreview(quotedMessage);
+        }
+
+        const canJump = !!quotedMessage && !quotedMessage.deleted_at;
+
+        return (
+            <button
+                onClick={() => canJump && onJumpToMessage(quotedMessage.id)}
+                disabled={!canJump}
+                className={`block w-full text-left mb-1 px-3 py-2 rounded-lg border-l-4 bg-white/70 text-xs shadow-sm ${canJump ? 'hover:bg-white cursor-pointer' : 'cursor-default'
+                    }`}
+                style={{ borderColor: persona.color_primary }}
+            >
+                <div className="font-medium" style={{ color: persona.color_primary }}>{label}</div>
+                <div className={`text-gray-600 line-clamp-2 ${canJump ? '' : 'italic'}`}>{preview}</div>
+            </button>
+        );
+    };
+
+    if (message.kind === 'notice') {
+        return (
+            <div className="flex justify-center">
+                <div className="px-3 py-1 rounded-full bg-gray-100 text-xs text-gray-500">
+                    {isSender ? 'You' : resolveSenderName(message.sender_id)} {message.content}
+                </div>
+            </div>
+        );
+    }
+
+    if (isDeleted) {
+        return (
+            <div className={`group flex items-center gap-2 ${isSender ? 'justify-end' : 'justify-start'}`}>
+                {isSender && renderActions()}
+                <div className="max-w-md">
+                    <div className="px-4 py-3 rounded-2xl border border-dashed border-gray-300 text-gray-400 text-sm italic flex items-center gap-2">
+                        <Ban className="w-4 h-4" />
+                        {isSender ? 'You deleted this message' : 'This message was deleted'}
+                    </div>
+                    <div className={`mt-1 px-2 text-xs text-gray-400 ${isSender ? 'text-right' : 'text-left'}`}>
+                        {new Date(message.created_at).toLocaleTimeString([], {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                        })}
+                    </div>
+                </div>
+                {!isSender && renderActions()}
+            </div>
+        );
+    }
+
+    return (
+        <div className={`group flex items-center gap-2 ${isSender ? 'justify-end' : 'justify-start'}`}>
+            {isSender && !isEditing && renderActions()}
+
+            <div
+                className="max-w-md rounded-2xl transition-shadow"
+                style={highlighted ? { boxShadow: `0 0 0 2px #fff, 0 0 0 4px ${persona.color_primary}` } : undefined}
+            >
+                {senderLabel && (
+                    <div className="mb-1 px-2 text-xs font-semibold" style={{ color: senderLabel.color }}>
+                        {senderLabel.name}
+                    </div>
+                )}
+
+                {message.forwarded_from_id && (
+                    <div className={`flex items-center gap-1 mb-1 px-2 text-xs italic text-gray-500 ${isSender ? 'justify-end' : 'justify-start'}`}>
+                        <Forward className="w-3 h-3" />
+                        Forwarded
+                    </div>
+                )}
+
+                {renderQuote()}
+
+                {hasAttachment && (
+                    <div className="mb-2">
+                        <MessageAttachment
+                            fileUrl={message.file_url!}
+                            fileType={message.file_type!}
+                            fileName={message.file_name!}
+                            accentColor={persona.color_primary}
+                        />
+                    </div>
+                )}
+
+                {poll && pollSummary && (
+                    <PollCard
+                        poll={poll}
+                        summary={pollSummary}
+                        persona={persona}
+                        onVote={(optionIndexes) => onVotePoll(message.id, optionIndexes)}
+                        resolveSenderName={resolveSenderName}
+                        disabled={!!pendingState}
+                    />
+                )}
+
+                {isEditing ? (
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-2">
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={handleKeyDown}
+                            className="w-full min-w-[16rem] text-sm px-2 py-1 resize-none focus:outline-none"
+                            rows={Math.min(6, draft.split('\n').length + 1)}
+                            autoFocus
+                        />
+                        <div className="flex justify-end gap-1">
+                            <button
+                                onClick={() => setIsEditing(false)}
+                                disabled={saving}
+                                className="p-1 rounded hover:bg-gray-100 text-gray-500 disabled:opacity-50"
+                                title="Cancel"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving || !draft.trim()}
+                                className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                                style={{ color: persona.color_primary }}
+                                title="Save"
+                            >
+                                <Check className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ) : hasText && (
+                    <div
+                        className={`px-4 py-3 rounded-2xl ${isSender
+                            ? 'rounded-br-sm text-white'
+                            : 'bg-white rounded-bl-sm text-gray-900 shadow-sm'
+                            }`}
+                        style={
+                            isSender
+                                ? {
+                                    background: `linear-gradient(135deg, ${persona.color_primary}, ${persona.color_accent})`,
+                                }
+                                : {}
+                        }
+                    >
+                        {richFormatting ? (
+                            <MarkdownContent content={message.content} inverted={isSender} />
+                        ) : (
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                        )}
+                    </div>
+                )}
+
+                {linkPreview && !isEditing && (
+                    <div className={`flex mt-1 ${isSender ? 'justify-end' : 'justify-start'}`}>
+                        <LinkPreviewCard
+                            preview={linkPreview}
+                            accentColor={persona.color_primary}
+                            onRemove={isSender && !pendingState ? () => onRemoveLinkPreview(message.id) : undefined}
+                        />
+                    </div>
+                )}
+
+                {pendingState === 'failed' && (
+                    <div className={`flex gap-2 mt-1 px-2 text-xs ${isSender ? 'justify-end' : 'justify-start'}`}>
+                        <span className="text-red-500">Not sent</span>
+                        {onRetry && (
+                            <button onClick={() => onRetry(message.id)} className="font-medium hover:underline" style={{ color: persona.color_primary }}>
+                                Retry
+                            </button>
+                        )}
+                        {onDiscard && (
+                            <button onClick={() => onDiscard(message.id)} className="text-gray-500 hover:underline">
+                                Discard
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <MessageReactions
+                    reactions={reactions}
+                    onToggle={(emoji) => onToggleReaction(message.id, emoji)}
+                    resolveSenderName={resolveSenderName}
+                    colorPrimary={persona.color_primary}
+                    align={isSender ? 'right' : 'left'}
+                />
+
+                <div
+                    className={`flex items-center gap-2 mt-1 px-2 text-xs text-gray-500 ${isSender ? 'justify-end' : 'justify-start'
+                        }`}
+                >
+                    {isPinned && <Pin className="w-3 h-3" style={{ color: persona.color_primary }} />}
+                    {isStarred && <Star className="w-3 h-3 fill-current text-yellow-500" />}
+                    {tone && (
+                        <span
+                            className="px-1.5 rounded-full border border-gray-200 bg-white/70 text-[10px] text-gray-500"
+                            title={`Detected tone: ${tone.label}`}
+                        >
+                            {tone.emoji} {tone.label}
+                        </span>
+                    )}
+                    {message.expires_at && (
+                        <ExpiryCountdown expiresAt={message.expires_at} onExpire={() => onExpire(message.id)} />
+                    )}
+                    {message.edited_at && (
+                        <button
+                            onClick={() => onShowHistory(message)}
+                            className="italic hover:underline"
+                            title="View edit history"
+                        >
+                            edited
+                        </button>
+                    )}
+                    {isSender ? (
+                        <MessageStatus
+                            status={pendingState ?? (message.status === 'read' && !readReceipts ? 'delivered' : message.status)}
+                            timestamp={message.created_at}
+                        />
+                    ) : (
+                        <span>
+                            {new Date(message.created_at).toLocaleTimeString([], {
+                                hour: '2-digit',
+                                minute: '2-digit',
+                            })}
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            {!isSender && renderActions()}
+        </div>
+    );
+}
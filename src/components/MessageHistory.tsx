@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { History, X } from 'lucide-react';
+import { fetchMessageRevisions, type MessageRevision } from '../lib/messageService';
+
+interface MessageHistoryProps {
+    messageId: string;
+    currentContent: string;
+    editedAt: string | null;
+    onClose: () => void;
+}
+
+export function MessageHistory({ messageId, currentContent, editedAt, onClose }: MessageHistoryProps) {
+    const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetchMessageRevisions(messageId).then((data) => {
+            if (!cancelled) {
+                setRevisions(data);
+                setLoading(false);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [messageId, editedAt]);
+
+    const formatTime = (timestamp: string) =>
+        new Date(timestamp).toLocaleString([], {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+        });
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg max-w-md w-full p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <History className="w-5 h-5 text-gray-600" />
+                        Edit History
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="text-sm text-gray-500 py-4 text-center">Loading history...</div>
+                ) : (
+                    <ol className="space-y-3 max-h-96 overflow-y-auto">
+                        {revisions.map((revision, index) => (
+                            <li key={revision.id} className="border border-gray-200 rounded-lg p-3">
+                                <div className="text-xs text-gray-500 mb-1">
+                                    {index === 0 ? 'Original' : `Edit ${index}`} · {formatTime(revision.created_at)}
+                                </div>
+                                <p className="text-sm text-gray-700 whitespace-pre-wrap">{revision.content}</p>
+                            </li>
+                        ))}
+                        <li className="border border-blue-200 bg-blue-50 rounded-lg p-3">
+                            <div className="text-xs text-blue-600 mb-1">
+                                Current{editedAt ? ` · ${formatTime(editedAt)}` : ''}
+                            </div>
+                            <p className="text-sm text-gray-900 whitespace-pre-wrap">{currentContent}</p>
+                        </li>
+                    </ol>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,33 @@
+import type { ReactionSummary } from '../lib/reactionService';
+
+interface MessageReactionsProps {
+    reactions: ReactionSummary[];
+    onToggle: (emoji: string) => void;
+    resolveSenderName: (userId: string) => string;
+    colorPrimary: string;
+    align?: 'left' | 'right';
+}
+
+export function MessageReactions({ reactions, onToggle, resolveSenderName, colorPrimary, align = 'left' }: MessageReactionsProps) {
+    if (reactions.length === 0) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-1 mt-1 px-1 ${align === 'right' ? 'justify-end' : 'justify-start'}`}>
+            {reactions.map((reaction) => (
+                <button
+                    key={reaction.emoji}
+                    onClick={() => onToggle(reaction.emoji)}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${reaction.reactedByMe
+                        ? 'bg-white'
+                        : 'bg-gray-100 border-transparent hover:bg-gray-200'
+                        }`}
+                    style={reaction.reactedByMe ? { borderColor: colorPrimary } : {}}
+                    title={reaction.userIds.map(resolveSenderName).join(', ')}
+                >
+                    <span>{reaction.emoji}</span>
+                    <span className="text-gray-600 font-medium">{reaction.count}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
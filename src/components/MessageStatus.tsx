@@ -1,6 +1,6 @@
-import { Check, CheckCheck } from 'lucide-react';
+import { Check, CheckCheck, Clock, AlertCircle } from 'lucide-react';
 
-type MessageStatus = 'sent' | 'delivered' | 'read';
+export type MessageStatus = 'sending' | 'failed' | 'sent' | 'delivered' | 'read';
 
 interface MessageStatusProps {
     status: MessageStatus;
@@ -10,6 +10,10 @@ interface MessageStatusProps {
 export function MessageStatus({ status, timestamp }: MessageStatusProps) {
     const getStatusIcon = () => {
         switch (status) {
+            case 'sending':
+                return <Clock className="w-4 h-4" />;
+            case 'failed':
+                return <AlertCircle className="w-4 h-4" />;
             case 'sent':
                 return <Check className="w-4 h-4" />;
             case 'delivered':
@@ -20,6 +24,7 @@ export function MessageStatus({ status, timestamp }: MessageStatusProps) {
     };
 
     const getStatusColor = () => {
+        if (status === 'failed') return 'text-red-500';
         return status === 'read' ? 'text-blue-500' : 'text-gray-400';
     };
 
@@ -33,7 +38,7 @@ export function MessageStatus({ status, timestamp }: MessageStatusProps) {
                     })}
                 </span>
             )}
-            <div className={getStatusColor()}>
+            <div className={getStatusColor()} title={status === 'sending' ? 'Sending' : status === 'failed' ? 'Not sent' : undefined}>
                 {getStatusIcon()}
             </div>
         </div>
@@ -5,9 +5,34 @@ import { ContactList } from './ContactList';
 import { ChatView } from './ChatView';
 import { PersonaPanel } from './PersonaPanel';
 import { AnalyticsDashboard } from './AnalyticsDashboard';
-import { LogOut, BarChart3 } from 'lucide-react';
+import { CreateGroupDialog } from './CreateGroupDialog';
+import { StarredMessages } from './StarredMessages';
+import { LogOut, BarChart3, Star } from 'lucide-react';
 import { startHeartbeat, stopHeartbeat } from '../lib/presenceService';
-import { initializeNotifications } from '../lib/notificationService';
+import { initializeNotifications, sendNotification } from '../lib/notificationService';
+import { isPersonaAvailable, pickDefaultPersona, releaseHeldNotifications } from '../lib/personaScheduleService';
+import { filterAllowedPersonas, isPersonaAllowed } from '../lib/personaAllowlistService';
+import { startOutbox, stopOutbox } from '../lib/outboxService';
+import { syncDrafts, stopDraftSync } from '../lib/draftService';
+import {
+  acceptGroupInvite,
+  fetchGroupInvites,
+  fetchGroups,
+  ignoreGroupInvite,
+  subscribeToGroupInvites,
+  subscribeToGroups,
+  type GroupChat,
+  type GroupInvite,
+} from '../lib/groupService';
+import {
+  acceptPersonaRequest,
+  fetchPersonaRequests,
+  ignorePersonaRequest,
+  subscribeToPersonaRequests,
+  type PersonaRequest,
+} from '../lib/personaRequestService';
+import type { StarredMessage } from '../lib/starService';
+import type { Json } from '../lib/database.types';
 
 interface Contact {
   id: string;
@@ -15,6 +40,7 @@ interface Contact {
   nickname: string | null;
   display_name: string;
   avatar_url: string | null;
+  allowed_persona_ids?: string[] | null;
 }
 
 interface Persona {
@@ -27,6 +53,7 @@ interface Persona {
   color_accent: string;
   is_active: boolean;
   is_custom: boolean;
+  schedule?: Json | null;
 }
 
 export function Messenger() {
@@ -35,13 +62,29 @@ export function Messenger() {
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [selectedPersona, setSelectedPersona] = useState<Persona | null>(null);
+  const [groups, setGroups] = useState<GroupChat[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  const [personaRequests, setPersonaRequests] = useState<PersonaRequest[]>([]);
+  const [groupInvites, setGroupInvites] = useState<GroupInvite[]>([]);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showStarred, setShowStarred] = useState(false);
+  const [jumpTo, setJumpTo] = useState<{ messageId: string; conversationId: string } | null>(null);
   const [loading, setLoading] = useState(true);
+  // Persona schedules are checked against this, so windows open and close on time
+  const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
     if (user) {
       loadPersonas();
       loadContacts();
+      loadGroups();
+      loadPersonaRequests();
+      loadGroupInvites();
+
+      const groupsChannel = subscribeToGroups(user.id, loadGroups);
+      const requestsChannel = subscribeToPersonaRequests(user.id, loadPersonaRequests);
+      const invitesChannel = subscribeToGroupInvites(user.id, loadGroupInvites);
 
       // Initialize presence tracking
       startHeartbeat(user.id);
@@ -49,19 +92,66 @@ export function Messenger() {
       // Initialize notifications
       initializeNotifications();
 
+      // Deliver messages queued while offline
+      startOutbox(user.id);
+
+      // Pull drafts saved on other devices
+      syncDrafts(user.id);
+
       // Cleanup on unmount
       return () => {
         stopHeartbeat(user.id);
+        stopOutbox();
+        stopDraftSync();
+        supabase.removeChannel(groupsChannel);
+        supabase.removeChannel(requestsChannel);
+        supabase.removeChannel(invitesChannel);
       };
     }
   }, [user]);
 
   useEffect(() => {
-    if (personas.length > 0 && !selectedPersona) {
-      setSelectedPersona(personas[0]);
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (personas.length > 0) {
+      // Keep the selection in step with edits, e.g. to its schedule
+      setSelectedPersona((current) => (current && personas.find((p) => p.id === current.id)) || pickDefaultPersona(personas, now));
     }
   }, [personas]);
 
+  useEffect(() => {
+    const released = releaseHeldNotifications((personaId) => {
+      const persona = personas.find((p) => p.id === personaId);
+      return !persona || isPersonaAvailable(persona, now);
+    });
+
+    for (const summary of released) {
+      sendNotification(
+        `${summary.count} ${summary.count === 1 ? 'message' : 'messages'} for ${summary.personaName}`,
+        {
+          body: `From ${summary.senders.join(', ')}`,
+          tag: `held-${summary.personaId}`,
+          data: { personaId: summary.personaId },
+        }
+      );
+    }
+  }, [now, personas]);
+
+  useEffect(() => {
+    if (!selectedContact) return;
+
+    // Move off a persona the contact's allowlist no longer includes
+    const allowed = filterAllowedPersonas(personas, selectedContact.allowed_persona_ids);
+    setSelectedPersona((current) =>
+      current && isPersonaAllowed(selectedContact.allowed_persona_ids, current.id)
+        ? current
+        : pickDefaultPersona(allowed, now) ?? current
+    );
+  }, [selectedContact, personas]);
+
   const loadPersonas = async () => {
     const { data } = await supabase
       .from('user_personas')
@@ -73,6 +163,7 @@ export function Messenger() {
     if (data) {
       setPersonas(data);
     }
+    return data ?? [];
   };
 
   const loadContacts = async () => {
@@ -82,21 +173,124 @@ export function Messenger() {
         id,
         contact_user_id,
         nickname,
+        allowed_persona_ids,
         profiles!contacts_contact_user_id_fkey(display_name, avatar_url)
       `)
-      .eq('user_id', user!.id);
+      .eq('user_id', user!.id)
+      .is('group_id', null);
 
+    let formattedContacts: Contact[] = [];
     if (data) {
-      const formattedContacts = data.map((contact: any) => ({
+      formattedContacts = data.map((contact: any) => ({
         id: contact.id,
         contact_user_id: contact.contact_user_id,
         nickname: contact.nickname,
         display_name: contact.profiles.display_name,
         avatar_url: contact.profiles.avatar_url,
+        allowed_persona_ids: contact.allowed_persona_ids,
       }));
       setContacts(formattedContacts);
+      setSelectedContact((current) => current && (formattedContacts.find((c) => c.id === current.id) ?? null));
     }
     setLoading(false);
+    return formattedContacts;
+  };
+
+  const loadGroups = async () => {
+    setGroups(await fetchGroups(user!.id));
+  };
+
+  const loadPersonaRequests = async () => {
+    setPersonaRequests(await fetchPersonaRequests());
+  };
+
+  const handleAcceptRequest = async (request: PersonaRequest) => {
+    const accepted = await acceptPersonaRequest(request.id);
+    if (!accepted) {
+      alert('Could not accept the request');
+      return;
+    }
+
+    const [loadedContacts, loadedPersonas] = await Promise.all([loadContacts(), loadPersonas(), loadPersonaRequests()]);
+    const contact = loadedContacts.find((c) => c.id === accepted.contact_id);
+    if (!contact) return;
+
+    handleSelectContact(contact);
+    const persona = loadedPersonas.find((p) => p.id === accepted.persona_id);
+    if (persona) setSelectedPersona(persona);
+  };
+
+  const handleIgnoreRequest = async (request: PersonaRequest) => {
+    if (await ignorePersonaRequest(request.id)) {
+      setPersonaRequests((prev) => prev.filter((r) => r.id !== request.id));
+    }
+  };
+
+  const loadGroupInvites = async () => {
+    setGroupInvites(await fetchGroupInvites());
+  };
+
+  const handleAcceptInvite = async (invite: GroupInvite) => {
+    const groupId = await acceptGroupInvite(invite.id);
+    if (!groupId) {
+      alert('Could not join the group');
+      loadGroupInvites();
+      return;
+    }
+
+    await Promise.all([loadGroups(), loadGroupInvites()]);
+    setSelectedContact(null);
+    setSelectedGroupId(groupId);
+  };
+
+  const handleIgnoreInvite = async (invite: GroupInvite) => {
+    if (await ignoreGroupInvite(invite.id)) {
+      setGroupInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    }
+  };
+
+  const selectedGroup = groups.find(g => g.id === selectedGroupId) ?? null;
+
+  const handleSelectContact = (contact: Contact) => {
+    setSelectedGroupId(null);
+    setSelectedContact(contact);
+    // Open chats in a persona that is on its schedule
+    if (selectedPersona && !isPersonaAvailable(selectedPersona, now)) {
+      setSelectedPersona(pickDefaultPersona(filterAllowedPersonas(personas, contact.allowed_persona_ids), now) ?? selectedPersona);
+    }
+  };
+
+  const handleSelectGroup = (group: GroupChat) => {
+    setSelectedContact(null);
+    setSelectedGroupId(group.id);
+  };
+
+  const handleGroupCreated = async (groupId: string) => {
+    setShowCreateGroup(false);
+    await loadGroups();
+    setSelectedContact(null);
+    setSelectedGroupId(groupId);
+  };
+
+  const handleOpenStarred = (message: StarredMessage) => {
+    if (message.group_id) {
+      const group = groups.find(g => g.id === message.group_id);
+      if (!group) return;
+      handleSelectGroup(group);
+    } else {
+      const contact = contacts.find(c => c.id === message.contact_id);
+      const persona = personas.find(p => p.id === message.persona_id);
+      if (!contact) return;
+      if (!persona) {
+        alert(`Turn the ${message.persona_name} persona back on to open this message.`);
+        return;
+      }
+      handleSelectContact(contact);
+      setSelectedPersona(persona);
+    }
+
+    setJumpTo({ messageId: message.message_id, conversationId: message.conversation_id });
+    setShowStarred(false);
   };
 
   const handleSignOut = async () => {
@@ -120,6 +314,13 @@ export function Messenger() {
             <p className="text-sm text-gray-600">Welcome, {user?.email}</p>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowStarred(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              <Star className="w-5 h-5" />
+              Starred
+            </button>
             <button
               onClick={() => setShowAnalytics(!showAnalytics)}
               className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
@@ -142,11 +343,42 @@ export function Messenger() {
         <ContactList
           contacts={contacts}
           selectedContact={selectedContact}
-          onSelectContact={setSelectedContact}
+          onSelectContact={handleSelectContact}
           onRefresh={loadContacts}
+          groups={groups}
+          selectedGroupId={selectedGroupId}
+          onSelectGroup={handleSelectGroup}
+          onCreateGroup={() => setShowCreateGroup(true)}
+          requests={personaRequests}
+          onAcceptRequest={handleAcceptRequest}
+          onIgnoreRequest={handleIgnoreRequest}
+          groupInvites={groupInvites}
+          onAcceptInvite={handleAcceptInvite}
+          onIgnoreInvite={handleIgnoreInvite}
         />
 
-        {selectedContact && selectedPersona ? (
+        {selectedGroup ? (
+          <div className="flex-1 flex flex-col">
+            <ChatView
+              contact={{
+                id: selectedGroup.contact_id,
+                contact_user_id: null,
+                nickname: null,
+                display_name: selectedGroup.name,
+              }}
+              persona={selectedGroup.persona}
+              contacts={contacts}
+              personas={personas}
+              group={selectedGroup}
+              onLeaveGroup={() => {
+                setSelectedGroupId(null);
+                loadGroups();
+              }}
+              jumpTo={jumpTo}
+              onJumpHandled={() => setJumpTo(null)}
+            />
+          </div>
+        ) : selectedContact && selectedPersona ? (
           <div className="flex-1 flex flex-col">
             <PersonaPanel
               personas={personas}
@@ -154,10 +386,22 @@ export function Messenger() {
               onSelectPersona={setSelectedPersona}
               onRefreshPersonas={loadPersonas}
               contactId={selectedContact.id}
+              contactName={selectedContact.nickname || selectedContact.display_name}
+              allowedPersonaIds={selectedContact.allowed_persona_ids}
+              onAllowlistChange={loadContacts}
+              now={now}
             />
             <ChatView
               contact={selectedContact}
               persona={selectedPersona}
+              contacts={contacts}
+              personas={personas}
+              jumpTo={jumpTo}
+              onJumpHandled={() => setJumpTo(null)}
+              onSwitchPersona={(personaId) => {
+                const persona = personas.find((p) => p.id === personaId);
+                if (persona) setSelectedPersona(persona);
+              }}
             />
           </div>
         ) : (
@@ -173,6 +417,23 @@ export function Messenger() {
           </div>
         )}
 
+        {showCreateGroup && (
+          <CreateGroupDialog
+            contacts={contacts}
+            personas={personas}
+            defaultPersonaId={selectedPersona?.id}
+            onCreated={handleGroupCreated}
+            onClose={() => setShowCreateGroup(false)}
+          />
+        )}
+
+        {showStarred && (
+          <StarredMessages
+            onOpen={handleOpenStarred}
+            onClose={() => setShowStarred(false)}
+          />
+        )}
+
         {showAnalytics && (
           <AnalyticsDashboard
             personas={personas}
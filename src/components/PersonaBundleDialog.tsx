@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { X, Download, Upload, Package } from 'lucide-react';
+import * as LucideIcons from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+    createPersonaBundle,
+    downloadPersonaBundle,
+    parsePersonaBundle,
+    planPersonaImport,
+    resolveImportNames,
+    importPersonas,
+    type BundledPersona,
+    type ClashResolution,
+    type PersonaImport,
+} from '../lib/personaBundleService';
+
+interface PersonaBundleDialogProps {
+    personas: { id: string; name: string; is_custom: boolean }[];
+    onImported: () => void;
+    onClose: () => void;
+}
+
+type Tab = 'export' | 'import';
+
+export function PersonaBundleDialog({ personas, onImported, onClose }: PersonaBundleDialogProps) {
+    const { user } = useAuth();
+    const [tab, setTab] = useState<Tab>('export');
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(
+        () => new Set(personas.filter((p) => p.is_custom).map((p) => p.id))
+    );
+    const [imports, setImports] = useState<PersonaImport[] | null>(null);
+    const [existingNames, setExistingNames] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handleExport = async () => {
+        setBusy(true);
+        const bundle = await createPersonaBundle(personas.filter((p) => selectedIds.has(p.id)).map((p) => p.id));
+        setBusy(false);
+
+        if (bundle) {
+            downloadPersonaBundle(bundle);
+        } else {
+            setError('Could not export personas');
+        }
+    };
+
+    const loadBundle = async (text: string) => {
+        setError(null);
+        setImports(null);
+
+        const result = parsePersonaBundle(text);
+        if ('error' in result) {
+            setError(result.error);
+            return;
+        }
+
+        const plan = await planPersonaImport(user!.id, result.personas);
+        setImports(plan.imports);
+        setExistingNames(plan.existingNames);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) {
+            await loadBundle(await file.text());
+        }
+    };
+
+    const setResolution = (index: number, resolution: ClashResolution) => {
+        setImports((prev) => prev && prev.map((item, i) => (i === index ? { ...item, resolution } : item)));
+    };
+
+    const handleImport = async () => {
+        if (!imports) return;
+
+        setBusy(true);
+        const result = await importPersonas(user!.id, imports, existingNames);
+        setBusy(false);
+
+        if ('error' in result) {
+            setError(result.error);
+            return;
+        }
+
+        onImported();
+        onClose();
+    };
+
+    const names = imports ? resolveImportNames(imports, existingNames) : [];
+    const importCount = names.filter((name) => name !== null).length;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                        <Package className="w-5 h-5" />
+                        Share personas
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex gap-1 mb-4 p-1 bg-gray-100 rounded-lg">
+                    {(['export', 'import'] as Tab[]).map((value) => (
+                        <button
+                            key={value}
+                            onClick={() => {
+                                setTab(value);
+                                setError(null);
+                            }}
+                            className={`flex-1 py-1.5 rounded-md text-sm font-medium capitalize ${tab === value ? 'bg-white shadow text-gray-900' : 'text-gray-600'}`}
+                        >
+                            {value}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-3">
+                    {tab === 'export' ? (
+                        <>
+                            <p className="text-sm text-gray-600">
+                                Save personas as a file others can import. Their look and settings are included; chats are not.
+                            </p>
+                            <div className="space-y-1">
+                                {personas.map((persona) => (
+                                    <label key={persona.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.has(persona.id)}
+                                            onChange={() => toggleSelected(persona.id)}
+                                            className="rounded"
+                                        />
+                                        {persona.name}
+                                        {!persona.is_custom && <span className="text-xs text-gray-400">built-in</span>}
+                                    </label>
+                                ))}
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <label className="flex items-center justify-center gap-2 px-3 py-4 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-50 cursor-pointer">
+                                <Upload className="w-4 h-4" />
+                                Choose a .json bundle
+                                <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                            </label>
+
+                            {imports && (
+                                <ul className="space-y-3">
+                                    {imports.map((item, index) => (
+                                        <li key={index} className="space-y-1">
+                                            <div className="flex items-center gap-2">
+                                                <PersonaPill persona={item.persona} name={names[index]} />
+                                                {names[index] !== null && names[index] !== item.persona.name && (
+                                                    <span className="text-xs text-gray-500">renamed</span>
+                                                )}
+                                            </div>
+                                            {item.existing && (
+                                                <select
+                                                    value={item.resolution}
+                                                    onChange={(e) => setResolution(index, e.target.value as ClashResolution)}
+                                                    className="w-full px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                                                >
+                                                    <option value="rename">You have "{item.existing.name}": import as a copy</option>
+                                                    {item.existing.is_custom && (
+                                                        <option value="replace">Replace your "{item.existing.name}" (keeps its chats)</option>
+                                                    )}
+                                                    <option value="skip">Skip</option>
+                                                </select>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+
+                    {error && (
+                        <div className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-600">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                    {tab === 'export' ? (
+                        <button
+                            onClick={handleExport}
+                            disabled={busy || selectedIds.size === 0}
+                            className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            <Download className="w-4 h-4" />
+                            Export {selectedIds.size} {selectedIds.size === 1 ? 'persona' : 'personas'}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleImport}
+                            disabled={busy || importCount === 0}
+                            className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            <Upload className="w-4 h-4" />
+                            {busy ? 'Importing...' : `Import ${importCount} ${importCount === 1 ? 'persona' : 'personas'}`}
+                        </button>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 font-medium"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/** The persona as it will appear in the persona bar; skipped ones are greyed out */
+function PersonaPill({ persona, name }: { persona: BundledPersona; name: string | null }) {
+    const Icon = (LucideIcons as unknown as Record<string, LucideIcons.LucideIcon | undefined>)[persona.icon] ?? LucideIcons.Circle;
+
+    return (
+        <span
+            className={`px-4 py-2 rounded-full text-sm font-medium text-white shadow-md flex items-center gap-2 ${name === null ? 'opacity-40 line-through' : ''}`}
+            style={{ background: `linear-gradient(135deg, ${persona.color_primary}, ${persona.color_accent})` }}
+            title={persona.description}
+        >
+            <Icon className="w-5 h-5" />
+            {name ?? persona.name}
+        </span>
+    );
+}
@@ -1,8 +1,17 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Edit2, Trash2, X, Check } from 'lucide-react';
+import { Plus, Edit2, Trash2, X, Check, Package, Clock, UserCog } from 'lucide-react';
 import { UnreadBadge } from './UnreadBadge';
+import { PersonaBundleDialog } from './PersonaBundleDialog';
+import { PersonaScheduleDialog } from './PersonaScheduleDialog';
+import { ContactPersonasDialog } from './ContactPersonasDialog';
+import { getDrafts, subscribeToDrafts, type ChannelDraft } from '../lib/draftService';
+import { MISMATCH_SENSITIVITY_OPTIONS } from '../lib/personaMismatchService';
+import { getPersonaSchedule, isWithinSchedule } from '../lib/personaScheduleService';
+import { filterAllowedPersonas } from '../lib/personaAllowlistService';
+import type { MismatchSensitivity } from '../lib/personaService';
+import type { Json } from '../lib/database.types';
 import * as LucideIcons from 'lucide-react';
 
 interface Persona {
@@ -15,6 +24,11 @@ interface Persona {
   color_accent: string;
   is_active: boolean;
   is_custom: boolean;
+  rich_formatting?: boolean;
+  send_read_receipts?: boolean;
+  send_typing_indicators?: boolean;
+  mismatch_sensitivity?: MismatchSensitivity;
+  schedule?: Json | null;
 }
 
 interface PersonaPanelProps {
@@ -23,13 +37,38 @@ interface PersonaPanelProps {
   onSelectPersona: (persona: Persona) => void;
   onRefreshPersonas: () => void;
   contactId?: string;
+  contactName?: string;
+  /** The personas allowed with this contact; null allows all */
+  allowedPersonaIds?: string[] | null;
+  onAllowlistChange?: () => void;
+  /** The time schedules are checked against */
+  now?: Date;
 }
 
-export function PersonaPanel({ personas, selectedPersona, onSelectPersona, onRefreshPersonas, contactId }: PersonaPanelProps) {
+export function PersonaPanel({
+  personas,
+  selectedPersona,
+  onSelectPersona,
+  onRefreshPersonas,
+  contactId,
+  contactName,
+  allowedPersonaIds = null,
+  onAllowlistChange,
+  now,
+}: PersonaPanelProps) {
   const { user } = useAuth();
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [showBundleDialog, setShowBundleDialog] = useState(false);
+  const [schedulingPersona, setSchedulingPersona] = useState<Persona | null>(null);
+  const [showAllowlistDialog, setShowAllowlistDialog] = useState(false);
   const [unreadCounts, setUnreadCounts] = useState<Map<string, number>>(new Map());
+  const [drafts, setDrafts] = useState<ChannelDraft[]>(getDrafts());
+
+  useEffect(() => {
+    setDrafts(getDrafts());
+    return subscribeToDrafts(setDrafts);
+  }, []);
 
   useEffect(() => {
     if (contactId) {
@@ -90,18 +129,44 @@ export function PersonaPanel({ personas, selectedPersona, onSelectPersona, onRef
     <div className="bg-white border-b border-gray-200 px-6 py-4">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-semibold text-gray-900">Personas</h2>
-        <button
-          onClick={() => setShowCreateForm(!showCreateForm)}
-          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-          title="Create custom persona"
-        >
-          <Plus className="w-5 h-5 text-gray-600" />
-        </button>
+        <div className="flex gap-1">
+          {contactId && onAllowlistChange && (
+            <button
+              onClick={() => setShowAllowlistDialog(true)}
+              className={`p-2 rounded-lg transition-colors ${allowedPersonaIds ? 'bg-blue-50 text-blue-600 hover:bg-blue-100' : 'text-gray-600 hover:bg-gray-100'}`}
+              title={allowedPersonaIds ? `Only some personas with ${contactName}` : `Choose personas for ${contactName}`}
+            >
+              <UserCog className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowBundleDialog(true)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Import or export personas"
+          >
+            <Package className="w-5 h-5 text-gray-600" />
+          </button>
+          <button
+            onClick={() => setShowCreateForm(!showCreateForm)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Create custom persona"
+          >
+            <Plus className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
       </div>
 
       <div className="flex flex-wrap gap-2">
-        {personas.map((persona) => {
+        {filterAllowedPersonas(personas, allowedPersonaIds).map((persona) => {
           const unreadCount = unreadCounts.get(persona.id) || 0;
+          const hasDraft = drafts.some(d => d.contactId === contactId && d.personaId === persona.id);
+          const schedule = getPersonaSchedule(persona.schedule);
+          const offHours = !isWithinSchedule(schedule, now);
+
+          // Hidden personas still show while selected, or while something waits in them
+          if (offHours && schedule?.off_hours === 'hide' && selectedPersona?.id !== persona.id && unreadCount === 0 && !hasDraft) {
+            return null;
+          }
 
           return (
             <button
@@ -110,7 +175,7 @@ export function PersonaPanel({ personas, selectedPersona, onSelectPersona, onRef
               className={`relative group px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2 ${selectedPersona?.id === persona.id
                   ? 'text-white shadow-md'
                   : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
+                } ${offHours ? 'opacity-60' : ''}`}
               style={
                 selectedPersona?.id === persona.id
                   ? {
@@ -121,32 +186,50 @@ export function PersonaPanel({ personas, selectedPersona, onSelectPersona, onRef
             >
               {getIconComponent(persona.icon)}
               <span>{persona.name}</span>
+              {offHours && (
+                <span className="text-xs italic opacity-75">Off-hours</span>
+              )}
+              {hasDraft && (
+                <span className="text-xs italic opacity-75">Draft</span>
+              )}
               {unreadCount > 0 && (
                 <UnreadBadge count={unreadCount} size="sm" />
               )}
 
-              {persona.is_custom && (
-                <div className="hidden group-hover:flex absolute -top-2 -right-2 gap-1">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setEditingPersona(persona);
-                    }}
-                    className="p-1 bg-blue-500 text-white rounded-full hover:bg-blue-600"
-                  >
-                    <Edit2 className="w-3 h-3" />
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeletePersona(persona.id);
-                    }}
-                    className="p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </button>
-                </div>
-              )}
+              <div className="hidden group-hover:flex absolute -top-2 -right-2 gap-1">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSchedulingPersona(persona);
+                  }}
+                  className="p-1 bg-gray-500 text-white rounded-full hover:bg-gray-600"
+                  title="Schedule"
+                >
+                  <Clock className="w-3 h-3" />
+                </button>
+                {persona.is_custom && (
+                  <>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingPersona(persona);
+                      }}
+                      className="p-1 bg-blue-500 text-white rounded-full hover:bg-blue-600"
+                    >
+                      <Edit2 className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeletePersona(persona.id);
+                      }}
+                      className="p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </div>
             </button>
           );
         })}
@@ -166,6 +249,33 @@ export function PersonaPanel({ personas, selectedPersona, onSelectPersona, onRef
           }}
         />
       )}
+
+      {schedulingPersona && (
+        <PersonaScheduleDialog
+          persona={schedulingPersona}
+          onSaved={onRefreshPersonas}
+          onClose={() => setSchedulingPersona(null)}
+        />
+      )}
+
+      {showAllowlistDialog && contactId && onAllowlistChange && (
+        <ContactPersonasDialog
+          contactId={contactId}
+          contactName={contactName ?? 'this contact'}
+          personas={personas}
+          allowedPersonaIds={allowedPersonaIds}
+          onSaved={onAllowlistChange}
+          onClose={() => setShowAllowlistDialog(false)}
+        />
+      )}
+
+      {showBundleDialog && (
+        <PersonaBundleDialog
+          personas={personas}
+          onImported={onRefreshPersonas}
+          onClose={() => setShowBundleDialog(false)}
+        />
+      )}
     </div>
   );
 
@@ -193,6 +303,10 @@ function PersonaForm({ persona, onClose, onSave }: {
   const [colorPrimary, setColorPrimary] = useState(persona?.color_primary || '#3B82F6');
   const [colorSecondary, setColorSecondary] = useState(persona?.color_secondary || '#2563EB');
   const [colorAccent, setColorAccent] = useState(persona?.color_accent || '#60A5FA');
+  const [richFormatting, setRichFormatting] = useState(persona?.rich_formatting ?? true);
+  const [sendReadReceipts, setSendReadReceipts] = useState(persona?.send_read_receipts ?? true);
+  const [sendTypingIndicators, setSendTypingIndicators] = useState(persona?.send_typing_indicators ?? true);
+  const [mismatchSensitivity, setMismatchSensitivity] = useState<MismatchSensitivity>(persona?.mismatch_sensitivity ?? 'medium');
   const [saving, setSaving] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -211,6 +325,10 @@ function PersonaForm({ persona, onClose, onSave }: {
             color_primary: colorPrimary,
             color_secondary: colorSecondary,
             color_accent: colorAccent,
+            rich_formatting: richFormatting,
+            send_read_receipts: sendReadReceipts,
+            send_typing_indicators: sendTypingIndicators,
+            mismatch_sensitivity: mismatchSensitivity,
           })
           .eq('id', persona.id);
       } else {
@@ -225,6 +343,10 @@ function PersonaForm({ persona, onClose, onSave }: {
             color_primary: colorPrimary,
             color_secondary: colorSecondary,
             color_accent: colorAccent,
+            rich_formatting: richFormatting,
+            send_read_receipts: sendReadReceipts,
+            send_typing_indicators: sendTypingIndicators,
+            mismatch_sensitivity: mismatchSensitivity,
             is_custom: true,
           });
       }
@@ -324,6 +446,58 @@ function PersonaForm({ persona, onClose, onSave }: {
             </div>
           </div>
 
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={richFormatting}
+              onChange={(e) => setRichFormatting(e.target.checked)}
+              className="rounded"
+            />
+            Rich text formatting (bold, italics, code, lists, links)
+          </label>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={sendReadReceipts}
+                onChange={(e) => setSendReadReceipts(e.target.checked)}
+                className="rounded"
+              />
+              Send read receipts
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={sendTypingIndicators}
+                onChange={(e) => setSendTypingIndicators(e.target.checked)}
+                className="rounded"
+              />
+              Send typing indicators
+            </label>
+            <p className="text-xs text-gray-500">
+              When off, you won't see the other side's either.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Warn when a message doesn't fit this persona
+            </label>
+            <select
+              value={mismatchSensitivity}
+              onChange={(e) => setMismatchSensitivity(e.target.value as MismatchSensitivity)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {MISMATCH_SENSITIVITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Based on the name and description, e.g. slang in a work persona
+            </p>
+          </div>
+
           <div className="flex gap-2 pt-4">
             <button
               type="submit"
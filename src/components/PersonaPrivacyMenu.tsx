@@ -0,0 +1,69 @@
+import { useState, useRef, useEffect } from 'react';
+import { Eye, EyeOff, Check } from 'lucide-react';
+import type { PersonaPrivacy } from '../lib/personaService';
+
+interface PersonaPrivacyMenuProps {
+    personaName: string;
+    privacy: PersonaPrivacy;
+    colorPrimary: string;
+    onChange: (privacy: Partial<PersonaPrivacy>) => void;
+}
+
+const OPTIONS: { key: keyof PersonaPrivacy; label: string; hint: string }[] = [
+    { key: 'send_read_receipts', label: 'Read receipts', hint: "Off: you won't see theirs either" },
+    { key: 'send_typing_indicators', label: 'Typing indicators', hint: "Off: you won't see theirs either" },
+];
+
+export function PersonaPrivacyMenu({ personaName, privacy, colorPrimary, onChange }: PersonaPrivacyMenuProps) {
+    const [showMenu, setShowMenu] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const isHiding = !privacy.send_read_receipts || !privacy.send_typing_indicators;
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setShowMenu(false);
+            }
+        };
+
+        if (showMenu) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [showMenu]);
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setShowMenu(!showMenu)}
+                className={`p-2 rounded-lg transition-colors ${isHiding ? 'text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                style={isHiding ? { backgroundColor: colorPrimary } : undefined}
+                title={isHiding ? `Some activity hidden in ${personaName}` : `Activity shared in ${personaName}`}
+            >
+                {isHiding ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+
+            {showMenu && (
+                <div className="absolute top-full right-0 mt-1 z-20 bg-white border border-gray-200 rounded-lg shadow-lg py-1 w-60">
+                    <div className="px-3 py-2 text-xs text-gray-500">Share in {personaName}</div>
+                    {OPTIONS.map((option) => (
+                        <button
+                            key={option.key}
+                            onClick={() => onChange({ [option.key]: !privacy[option.key] })}
+                            className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-gray-100"
+                        >
+                            <span>
+                                <span className="block text-sm text-gray-700">{option.label}</span>
+                                <span className="block text-xs text-gray-400">{option.hint}</span>
+                            </span>
+                            {privacy[option.key] && <Check className="w-4 h-4 flex-shrink-0" style={{ color: colorPrimary }} />}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { X, Clock, Plus, Trash2, Check } from 'lucide-react';
+import type { Json } from '../lib/database.types';
+import {
+    getPersonaSchedule,
+    getLocalTimezone,
+    getTimezoneOptions,
+    isWithinSchedule,
+    setPersonaSchedule,
+    formatScheduleTime,
+    parseScheduleTime,
+    SCHEDULE_PRESETS,
+    WEEKDAY_NAMES,
+    MAX_SCHEDULE_WINDOWS,
+    type PersonaSchedule,
+    type ScheduleWindow,
+} from '../lib/personaScheduleService';
+
+interface PersonaScheduleDialogProps {
+    persona: { id: string; name: string; schedule?: Json | null };
+    onSaved: () => void;
+    onClose: () => void;
+}
+
+export function PersonaScheduleDialog({ persona, onSaved, onClose }: PersonaScheduleDialogProps) {
+    const initial = getPersonaSchedule(persona.schedule);
+    const [enabled, setEnabled] = useState(initial !== null);
+    const [timezone, setTimezone] = useState(initial?.timezone ?? getLocalTimezone());
+    const [offHours, setOffHours] = useState<PersonaSchedule['off_hours']>(initial?.off_hours ?? 'mark');
+    const [windows, setWindows] = useState<ScheduleWindow[]>(initial?.windows ?? SCHEDULE_PRESETS[0].windows);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const timezones = getTimezoneOptions();
+    if (!timezones.includes(timezone)) timezones.unshift(timezone);
+
+    const schedule: PersonaSchedule = { timezone, off_hours: offHours, windows };
+    const availableNow = isWithinSchedule(schedule);
+
+    const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+        setWindows((prev) => prev.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+    };
+
+    const addWindow = () => {
+        const last = windows[windows.length - 1];
+        setWindows((prev) => [...prev, last ? { ...last, day: (last.day + 1) % 7 } : { day: 1, start: 9 * 60, end: 17 * 60 }]);
+    };
+
+    const handleSave = async () => {
+        if (enabled && windows.some((w) => w.start === w.end)) {
+            setError('A window needs different start and end times');
+            return;
+        }
+
+        setSaving(true);
+        const saved = await setPersonaSchedule(persona.id, enabled ? schedule : null);
+        setSaving(false);
+
+        if (!saved) {
+            setError('Could not save the schedule');
+            return;
+        }
+
+        onSaved();
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <Clock className="w-5 h-5" />
+                        {persona.name} schedule
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={enabled}
+                            onChange={(e) => setEnabled(e.target.checked)}
+                            className="rounded"
+                        />
+                        Only available at set times
+                    </label>
+
+                    {enabled && (
+                        <>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+                                <select
+                                    value={timezone}
+                                    onChange={(e) => setTimezone(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {timezones.map((zone) => (
+                                        <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <span className="text-sm font-medium text-gray-700">Available</span>
+                                    <div className="flex gap-1">
+                                        {SCHEDULE_PRESETS.map((preset) => (
+                                            <button
+                                                key={preset.label}
+                                                type="button"
+                                                onClick={() => setWindows(preset.windows)}
+                                                className="px-2 py-0.5 text-xs bg-gray-100 hover:bg-gray-200 rounded-full text-gray-700"
+                                            >
+                                                {preset.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <ul className="space-y-2">
+                                    {windows.map((window, index) => (
+                                        <li key={index} className="flex items-center gap-2">
+                                            <select
+                                                value={window.day}
+                                                onChange={(e) => updateWindow(index, { day: Number(e.target.value) })}
+                                                className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                                            >
+                                                {WEEKDAY_NAMES.map((name, day) => (
+                                                    <option key={day} value={day}>{name}</option>
+                                                ))}
+                                            </select>
+                                            <input
+                                                type="time"
+                                                value={formatScheduleTime(window.start)}
+                                                onChange={(e) => updateWindow(index, { start: parseScheduleTime(e.target.value) })}
+                                                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                                            />
+                                            <span className="text-gray-400">–</span>
+                                            <input
+                                                type="time"
+                                                value={formatScheduleTime(window.end)}
+                                                onChange={(e) => updateWindow(index, { end: parseScheduleTime(e.target.value, true) })}
+                                                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                                                title={window.end <= window.start ? 'Ends the next day' : undefined}
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                                                className="p-1 text-gray-400 hover:text-red-500"
+                                                title="Remove"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                {windows.length < MAX_SCHEDULE_WINDOWS && (
+                                    <button
+                                        type="button"
+                                        onClick={addWindow}
+                                        className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                        Add time
+                                    </button>
+                                )}
+                                <p className="text-xs text-gray-500 mt-1">
+                                    An end before the start runs past midnight.
+                                </p>
+                            </div>
+
+                            <div>
+                                <span className="block text-sm font-medium text-gray-700 mb-1">Outside these times</span>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="radio"
+                                        checked={offHours === 'mark'}
+                                        onChange={() => setOffHours('mark')}
+                                    />
+                                    Show it as off-hours
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="radio"
+                                        checked={offHours === 'hide'}
+                                        onChange={() => setOffHours('hide')}
+                                    />
+                                    Hide it from the persona bar
+                                </label>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Either way, its notifications wait until it is available again.
+                                </p>
+                            </div>
+
+                            <p className={`text-sm ${availableNow ? 'text-green-600' : 'text-gray-500'}`}>
+                                {availableNow ? 'Available now' : 'Off-hours now'}
+                            </p>
+                        </>
+                    )}
+
+                    {error && (
+                        <div className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-600">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        <Check className="w-4 h-4" />
+                        {saving ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 font-medium"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
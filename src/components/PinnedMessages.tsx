@@ -0,0 +1,60 @@
+import { Pin, X } from 'lucide-react';
+import { getMessagePreview, type MessageRow } from '../lib/messageService';
+import type { PinnedMessage } from '../lib/pinService';
+
+interface PinnedMessagesProps {
+    pins: PinnedMessage[];
+    /** Pinned messages by ID; missing entries are still loading */
+    pinnedMessages: Map<string, MessageRow>;
+    colorPrimary: string;
+    resolveSenderName: (senderId: string) => string;
+    onJump: (messageId: string) => void;
+    onUnpin: (messageId: string) => void;
+}
+
+export function PinnedMessages({
+    pins,
+    pinnedMessages,
+    colorPrimary,
+    resolveSenderName,
+    onJump,
+    onUnpin,
+}: PinnedMessagesProps) {
+    if (pins.length === 0) return null;
+
+    return (
+        <div className="px-6 py-2 bg-white border-b border-gray-200 space-y-1">
+            {pins.map((pin) => {
+                const message = pinnedMessages.get(pin.message_id);
+
+                return (
+                    <div key={pin.id} className="group flex items-center gap-2">
+                        <Pin className="w-3 h-3 flex-shrink-0" style={{ color: colorPrimary }} />
+                        <button
+                            onClick={() => onJump(pin.message_id)}
+                            className="flex-1 min-w-0 text-left text-sm truncate hover:underline"
+                        >
+                            {message ? (
+                                <>
+                                    <span className="font-medium" style={{ color: colorPrimary }}>
+                                        {resolveSenderName(message.sender_id)}:
+                                    </span>{' '}
+                                    <span className="text-gray-700">{getMessagePreview(message)}</span>
+                                </>
+                            ) : (
+                                <span className="text-gray-400 italic">Loading pinned message...</span>
+                            )}
+                        </button>
+                        <button
+                            onClick={() => onUnpin(pin.message_id)}
+                            className="p-0.5 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100 opacity-0 group-hover:opacity-100"
+                            title="Unpin"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
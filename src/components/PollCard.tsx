@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { BarChart2, Check, Lock } from 'lucide-react';
+import { isPollClosed, type Poll, type PollSummary } from '../lib/pollService';
+import { formatTimeLeft } from '../lib/disappearingService';
+
+interface PollCardProps {
+    poll: Poll;
+    summary: PollSummary;
+    persona: {
+        color_primary: string;
+        color_secondary: string;
+        color_accent: string;
+    };
+    /** Resolves to an error message when the vote was rejected */
+    onVote: (optionIndexes: number[]) => Promise<string | null>;
+    resolveSenderName: (senderId: string) => string;
+    /** Still in the outbox, so it can't be voted on yet */
+    disabled?: boolean;
+}
+
+export function PollCard({ poll, summary, persona, onVote, resolveSenderName, disabled = false }: PollCardProps) {
+    const [now, setNow] = useState(() => Date.now());
+    const [voting, setVoting] = useState(false);
+    const [error, setError] = useState('');
+
+    const closed = isPollClosed(poll, new Date(now));
+    const palette = [persona.color_primary, persona.color_accent, persona.color_secondary];
+
+    // Re-render when the poll closes so voting stops without a reload
+    useEffect(() => {
+        if (!poll.closes_at || closed) return;
+
+        const timeLeft = new Date(poll.closes_at).getTime() - Date.now();
+        const timeout = setTimeout(() => setNow(Date.now()), Math.min(Math.max(timeLeft, 0), 60000));
+
+        return () => clearTimeout(timeout);
+    }, [poll.closes_at, closed, now]);
+
+    const handleVote = async (index: number) => {
+        if (closed || disabled || voting) return;
+
+        const mine = summary.options.flatMap((o, i) => (o.votedByMe ? [i] : []));
+        let next: number[];
+
+        if (poll.multiple) {
+            next = mine.includes(index) ? mine.filter((i) => i !== index) : [...mine, index];
+        } else {
+            // Picking your current choice again withdraws the vote
+            next = mine.includes(index) ? [] : [index];
+        }
+
+        setVoting(true);
+        setError('');
+        const message = await onVote(next);
+        setVoting(false);
+        if (message) setError(message);
+    };
+
+    const footer = [
+        `${summary.voterCount} ${summary.voterCount === 1 ? 'vote' : 'votes'}`,
+        poll.anonymous ? 'Anonymous' : null,
+        poll.multiple ? 'Multiple choice' : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="w-72 bg-white rounded-2xl shadow-sm border border-gray-200 p-4 text-gray-900">
+            <div className="flex items-center gap-1 mb-1 text-xs font-semibold uppercase tracking-wide" style={{ color: persona.color_primary }}>
+                <BarChart2 className="w-3.5 h-3.5" />
+                Poll
+            </div>
+            <div className="font-medium text-sm mb-3 break-words">{poll.question}</div>
+
+            <div className="space-y-2">
+                {summary.options.map((option, index) => {
+                    const color = palette[index % palette.length];
+                    const showResults = summary.hasVoted || closed;
+
+                    return (
+                        <button
+                            key={index}
+                            onClick={() => handleVote(index)}
+                            disabled={closed || disabled || voting}
+                            className="block w-full text-left rounded-lg px-2 py-1.5 hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default"
+                            title={option.voterIds.length > 0 ? option.voterIds.map(resolveSenderName).join(', ') : undefined}
+                        >
+                            <div className="flex items-center gap-2 text-sm">
+                                <span
+                                    className={`flex-shrink-0 w-4 h-4 border-2 flex items-center justify-center ${poll.multiple ? 'rounded' : 'rounded-full'}`}
+                                    style={{
+                                        borderColor: option.votedByMe ? color : '#D1D5DB',
+                                        backgroundColor: option.votedByMe ? color : 'transparent',
+                                    }}
+                                >
+                                    {option.votedByMe && <Check className="w-3 h-3 text-white" />}
+                                </span>
+                                <span className={`flex-1 min-w-0 break-words ${option.leading && showResults ? 'font-semibold' : ''}`}>
+                                    {option.label}
+                                </span>
+                                {showResults && <span className="text-xs text-gray-500">{option.count}</span>}
+                            </div>
+                            <div className="mt-1 ml-6 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                                <div
+                                    className="h-full rounded-full transition-all duration-500"
+                                    style={{
+                                        width: `${showResults ? Math.round(option.share * 100) : 0}%`,
+                                        backgroundColor: color,
+                                        opacity: option.leading ? 1 : 0.6,
+                                    }}
+                                />
+                            </div>
+                            {showResults && option.voterIds.length > 0 && (
+                                <div className="mt-0.5 ml-6 text-xs text-gray-500 truncate">
+                                    {option.voterIds.map(resolveSenderName).join(', ')}
+                                </div>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {error && <div className="mt-2 text-xs text-red-600">{error}</div>}
+
+            <div className="flex items-center justify-between gap-2 mt-3 text-xs text-gray-500">
+                <span>{footer}</span>
+                {closed ? (
+                    <span className="inline-flex items-center gap-0.5">
+                        <Lock className="w-3 h-3" />
+                        Closed
+                    </span>
+                ) : poll.closes_at && (
+                    <span title={`Closes ${new Date(poll.closes_at).toLocaleString()}`}>
+                        Closes in {formatTimeLeft(new Date(poll.closes_at).getTime() - now)}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
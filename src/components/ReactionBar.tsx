@@ -0,0 +1,65 @@
+import { useState, useRef, useEffect } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { EmojiPickerComponent } from './EmojiPickerComponent';
+
+interface ReactionBarProps {
+    quickReactions: string[];
+    onReact: (emoji: string) => void;
+    align?: 'left' | 'right';
+}
+
+export function ReactionBar({ quickReactions, onReact, align = 'left' }: ReactionBarProps) {
+    const [showBar, setShowBar] = useState(false);
+    const barRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (barRef.current && !barRef.current.contains(event.target as Node)) {
+                setShowBar(false);
+            }
+        };
+
+        if (showBar) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [showBar]);
+
+    const handleReact = (emoji: string) => {
+        onReact(emoji);
+        setShowBar(false);
+    };
+
+    return (
+        <div className="relative" ref={barRef}>
+            <button
+                onClick={() => setShowBar(!showBar)}
+                className="p-1 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+                title="React"
+            >
+                <SmilePlus className="w-4 h-4" />
+            </button>
+
+            {showBar && (
+                <div
+                    className={`absolute bottom-full mb-1 z-20 flex items-center gap-1 bg-white border border-gray-200 rounded-full shadow-lg px-2 py-1 ${align === 'right' ? 'right-0' : 'left-0'
+                        }`}
+                >
+                    {quickReactions.map((emoji) => (
+                        <button
+                            key={emoji}
+                            onClick={() => handleReact(emoji)}
+                            className="text-xl leading-none p-1 rounded-full hover:bg-gray-100 hover:scale-110 transition-transform"
+                        >
+                            {emoji}
+                        </button>
+                    ))}
+                    <EmojiPickerComponent onEmojiSelect={handleReact} title="More reactions" align={align} />
+                </div>
+            )}
+        </div>
+    );
+}
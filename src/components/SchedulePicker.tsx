@@ -0,0 +1,99 @@
+import { useState, useRef, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { getScheduleSuggestions, toDateTimeLocalValue } from '../lib/scheduledMessageService';
+
+interface SchedulePickerProps {
+    disabled?: boolean;
+    colorPrimary: string;
+    onSchedule: (sendAt: Date) => void;
+}
+
+export function SchedulePicker({ disabled = false, colorPrimary, onSchedule }: SchedulePickerProps) {
+    const [showPicker, setShowPicker] = useState(false);
+    const [customValue, setCustomValue] = useState('');
+    const pickerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+                setShowPicker(false);
+            }
+        };
+
+        if (showPicker) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [showPicker]);
+
+    const openPicker = () => {
+        const tomorrow = getScheduleSuggestions()[1].date;
+        setCustomValue(toDateTimeLocalValue(tomorrow));
+        setShowPicker(!showPicker);
+    };
+
+    const handleSchedule = (sendAt: Date) => {
+        onSchedule(sendAt);
+        setShowPicker(false);
+    };
+
+    const customDate = customValue ? new Date(customValue) : null;
+    const customIsValid = !!customDate && !isNaN(customDate.getTime()) && customDate.getTime() > Date.now();
+
+    return (
+        <div className="relative" ref={pickerRef}>
+            <button
+                type="button"
+                onClick={openPicker}
+                disabled={disabled}
+                className="p-3 border border-gray-300 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Schedule message"
+            >
+                <Clock className="w-5 h-5 text-gray-600" />
+            </button>
+
+            {showPicker && (
+                <div className="absolute bottom-full right-0 mb-2 bg-white rounded-lg shadow-2xl border border-gray-200 z-50 w-64 p-3">
+                    <h3 className="font-semibold text-gray-900 text-sm mb-2">Schedule message</h3>
+
+                    <div className="space-y-1 mb-3">
+                        {getScheduleSuggestions().map((suggestion) => (
+                            <button
+                                key={suggestion.label}
+                                type="button"
+                                onClick={() => handleSchedule(suggestion.date)}
+                                className="w-full flex justify-between px-2 py-1.5 text-sm rounded hover:bg-gray-100"
+                            >
+                                <span className="text-gray-900">{suggestion.label}</span>
+                                <span className="text-gray-500">
+                                    {suggestion.date.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+
+                    <label className="block text-xs text-gray-500 mb-1">Pick a date and time</label>
+                    <input
+                        type="datetime-local"
+                        value={customValue}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setCustomValue(e.target.value)}
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded mb-2"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => customDate && handleSchedule(customDate)}
+                        disabled={!customIsValid}
+                        className="w-full py-1.5 text-sm rounded text-white font-medium disabled:opacity-50"
+                        style={{ backgroundColor: colorPrimary }}
+                    >
+                        Schedule
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Clock, X, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { toDateTimeLocalValue, type ScheduledMessage } from '../lib/scheduledMessageService';
+
+interface ScheduledMessagesProps {
+    messages: ScheduledMessage[];
+    colorPrimary: string;
+    onUpdate: (id: string, content: string, sendAt: Date) => Promise<boolean>;
+    onCancel: (id: string) => void;
+    onClose: () => void;
+}
+
+export function ScheduledMessages({ messages, colorPrimary, onUpdate, onCancel, onClose }: ScheduledMessagesProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [draftSendAt, setDraftSendAt] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const startEditing = (message: ScheduledMessage) => {
+        setEditingId(message.id);
+        setDraft(message.content);
+        setDraftSendAt(toDateTimeLocalValue(new Date(message.send_at)));
+    };
+
+    const draftDate = draftSendAt ? new Date(draftSendAt) : null;
+    const canSave = !!draft.trim() && !!draftDate && !isNaN(draftDate.getTime()) && draftDate.getTime() > Date.now();
+
+    const handleSave = async () => {
+        if (!editingId || !canSave) return;
+
+        setSaving(true);
+        const saved = await onUpdate(editingId, draft.trim(), draftDate!);
+        setSaving(false);
+
+        if (saved) {
+            setEditingId(null);
+        }
+    };
+
+    const formatTime = (timestamp: string) =>
+        new Date(timestamp).toLocaleString([], {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+        });
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg max-w-md w-full p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <Clock className="w-5 h-5 text-gray-600" />
+                        Scheduled Messages
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {messages.length === 0 ? (
+                    <div className="text-sm text-gray-500 py-4 text-center">No scheduled messages</div>
+                ) : (
+                    <ul className="space-y-3 max-h-96 overflow-y-auto">
+                        {messages.map((message) => (
+                            <li key={message.id} className="border border-gray-200 rounded-lg p-3">
+                                {editingId === message.id ? (
+                                    <div className="space-y-2">
+                                        <textarea
+                                            value={draft}
+                                            onChange={(e) => setDraft(e.target.value)}
+                                            className="w-full text-sm px-2 py-1 border border-gray-300 rounded resize-none"
+                                            rows={3}
+                                            autoFocus
+                                        />
+                                        <input
+                                            type="datetime-local"
+                                            value={draftSendAt}
+                                            min={toDateTimeLocalValue(new Date())}
+                                            onChange={(e) => setDraftSendAt(e.target.value)}
+                                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => setEditingId(null)}
+                                                disabled={saving}
+                                                className="px-3 py-1 text-sm rounded hover:bg-gray-100"
+                                            >
+                                                Cancel
+                                            </button>
+                                            <button
+                                                onClick={handleSave}
+                                                disabled={saving || !canSave}
+                                                className="px-3 py-1 text-sm rounded text-white disabled:opacity-50"
+                                                style={{ backgroundColor: colorPrimary }}
+                                            >
+                                                Save
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <span
+                                                className={`text-xs flex items-center gap-1 ${message.status === 'failed' ? 'text-red-500' : 'text-gray-500'}`}
+                                            >
+                                                {message.status === 'failed' ? (
+                                                    <>
+                                                        <AlertCircle className="w-3 h-3" />
+                                                        Could not be sent · edit to reschedule
+                                                    </>
+                                                ) : (
+                                                    <>Sends {formatTime(message.send_at)}</>
+                                                )}
+                                            </span>
+                                            <div className="flex gap-1">
+                                                <button
+                                                    onClick={() => startEditing(message)}
+                                                    className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                                                    title="Edit"
+                                                >
+                                                    <Pencil className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => onCancel(message.id)}
+                                                    className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-gray-100"
+                                                    title="Cancel scheduled message"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                        <p className="text-sm text-gray-900 whitespace-pre-wrap">{message.content}</p>
+                                    </>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
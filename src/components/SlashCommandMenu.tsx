@@ -0,0 +1,69 @@
+import { Terminal } from 'lucide-react';
+import { formatSlashCommandUsage, type SlashCommand } from '../lib/slashCommandService';
+
+interface SlashCommandMenuProps {
+    /** Matching commands while the name is being typed */
+    suggestions: SlashCommand[];
+    selectedIndex: number;
+    /** The command whose arguments are being typed, for inline help */
+    activeCommand?: SlashCommand;
+    colorPrimary: string;
+    onSelect: (command: SlashCommand) => void;
+    onHover: (index: number) => void;
+}
+
+/**
+ * Autocomplete for slash commands, shown above the composer
+ */
+export function SlashCommandMenu({
+    suggestions,
+    selectedIndex,
+    activeCommand,
+    colorPrimary,
+    onSelect,
+    onHover,
+}: SlashCommandMenuProps) {
+    if (activeCommand) {
+        return (
+            <div className="absolute bottom-full left-0 right-0 mb-2 z-30 bg-white border border-gray-200 rounded-lg shadow-lg px-3 py-2 text-sm">
+                <div className="font-mono" style={{ color: colorPrimary }}>{formatSlashCommandUsage(activeCommand)}</div>
+                <div className="text-xs text-gray-500">
+                    {activeCommand.description}
+                    {activeCommand.example && <> · e.g. <span className="font-mono">/{activeCommand.name} {activeCommand.example}</span></>}
+                </div>
+            </div>
+        );
+    }
+
+    if (suggestions.length === 0) return null;
+
+    return (
+        <div
+            className="absolute bottom-full left-0 right-0 mb-2 z-30 bg-white border border-gray-200 rounded-lg shadow-lg py-1 max-h-64 overflow-y-auto"
+            role="listbox"
+        >
+            <div className="flex items-center gap-1 px-3 py-1 text-xs text-gray-500">
+                <Terminal className="w-3 h-3" />
+                Commands · Tab to complete, Esc to close
+            </div>
+            {suggestions.map((command, index) => (
+                <button
+                    key={command.name}
+                    type="button"
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    // Keep focus in the composer
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => onSelect(command)}
+                    onMouseEnter={() => onHover(index)}
+                    className={`w-full flex items-baseline gap-3 px-3 py-1.5 text-left text-sm ${index === selectedIndex ? 'bg-gray-100' : ''}`}
+                >
+                    <span className="font-mono whitespace-nowrap" style={{ color: colorPrimary }}>
+                        {formatSlashCommandUsage(command)}
+                    </span>
+                    <span className="text-xs text-gray-500 truncate">{command.description}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect, useMemo } from 'react';
+import * as LucideIcons from 'lucide-react';
+import { Star, X, Search } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getMessagePreview } from '../lib/messageService';
+import {
+    fetchStarredMessages,
+    groupStarredMessages,
+    unstarMessage,
+    type StarredMessage,
+} from '../lib/starService';
+
+interface StarredMessagesProps {
+    /** Open the message's chat and scroll to it */
+    onOpen: (message: StarredMessage) => void;
+    onClose: () => void;
+}
+
+export function StarredMessages({ onOpen, onClose }: StarredMessagesProps) {
+    const { user } = useAuth();
+    const [starred, setStarred] = useState<StarredMessage[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [query, setQuery] = useState('');
+    const [personaFilter, setPersonaFilter] = useState<string | null>(null);
+    const [contactFilter, setContactFilter] = useState('');
+
+    useEffect(() => {
+        fetchStarredMessages().then((messages) => {
+            setStarred(messages);
+            setLoading(false);
+        });
+    }, []);
+
+    // Filter options come from what is starred, so every choice has results
+    const personaOptions = useMemo(() => {
+        const personas = new Map<string, StarredMessage>();
+        starred.forEach((m) => personas.has(m.persona_name) || personas.set(m.persona_name, m));
+        return Array.from(personas.values()).sort((a, b) => a.persona_name.localeCompare(b.persona_name));
+    }, [starred]);
+
+    const contactOptions = useMemo(() => {
+        const contacts = new Map(starred.map((m) => [m.contact_id, m.contact_name]));
+        return Array.from(contacts.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+    }, [starred]);
+
+    const groups = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        const visible = starred.filter((m) =>
+            (!personaFilter || m.persona_name === personaFilter) &&
+            (!contactFilter || m.contact_id === contactFilter) &&
+            (!needle || [getPreview(m), m.sender_name, m.contact_name].some((text) => text.toLowerCase().includes(needle)))
+        );
+        return groupStarredMessages(visible);
+    }, [starred, query, personaFilter, contactFilter]);
+
+    const handleUnstar = async (message: StarredMessage) => {
+        if (await unstarMessage(message.message_id, user!.id)) {
+            setStarred((prev) => prev.filter((m) => m.message_id !== message.message_id));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-yellow-50 to-orange-50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-yellow-400 rounded-lg">
+                            <Star className="w-6 h-6 text-white" />
+                        </div>
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-900">Starred</h2>
+                            <p className="text-sm text-gray-600">Only you can see what you starred</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="px-6 py-3 border-b border-gray-200 space-y-2">
+                    <div className="flex gap-2">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                                type="text"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder="Search starred messages..."
+                                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                autoFocus
+                            />
+                        </div>
+                        <select
+                            value={contactFilter}
+                            onChange={(e) => setContactFilter(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                            <option value="">All contacts</option>
+                            {contactOptions.map(([id, name]) => (
+                                <option key={id} value={id}>{name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {personaOptions.length > 1 && (
+                        <div className="flex flex-wrap gap-1">
+                            <button
+                                onClick={() => setPersonaFilter(null)}
+                                className={`px-3 py-1 rounded-full text-xs font-medium border ${personaFilter ? 'border-gray-300 text-gray-600' : 'border-gray-800 bg-gray-800 text-white'}`}
+                            >
+                                All personas
+                            </button>
+                            {personaOptions.map((persona) => (
+                                <button
+                                    key={persona.persona_name}
+                                    onClick={() => setPersonaFilter(persona.persona_name === personaFilter ? null : persona.persona_name)}
+                                    className="px-3 py-1 rounded-full text-xs font-medium border transition-colors flex items-center gap-1"
+                                    style={
+                                        persona.persona_name === personaFilter
+                                            ? { backgroundColor: persona.color_primary, borderColor: persona.color_primary, color: '#fff' }
+                                            : { borderColor: persona.color_primary, color: persona.color_primary }
+                                    }
+                                >
+                                    <PersonaIcon icon={persona.persona_icon} />
+                                    {persona.persona_name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-5">
+                    {loading ? (
+                        <div className="text-center text-gray-600 py-12">Loading starred messages...</div>
+                    ) : groups.length === 0 ? (
+                        <div className="text-center text-gray-500 py-12">
+                            <Star className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                            {starred.length === 0
+                                ? 'Star a message to keep it here'
+                                : 'No starred messages match your filters'}
+                        </div>
+                    ) : (
+                        groups.map((group) => (
+                            <section key={group.key}>
+                                <div className="flex items-center gap-2 mb-2">
+                                    <span className="font-semibold text-gray-900">{group.contact_name}</span>
+                                    <span
+                                        className="px-2 py-0.5 rounded-full text-xs text-white flex items-center gap-1"
+                                        style={{ background: `linear-gradient(135deg, ${group.color_primary}, ${group.color_accent})` }}
+                                    >
+                                        <PersonaIcon icon={group.persona_icon} />
+                                        {group.persona_name}
+                                    </span>
+                                </div>
+                                <ul className="space-y-2">
+                                    {group.messages.map((message) => (
+                                        <li
+                                            key={message.message_id}
+                                            className="group flex items-start gap-2 rounded-lg border-l-4 bg-gray-50 hover:bg-gray-100 transition-colors"
+                                            style={{ borderColor: group.color_primary }}
+                                        >
+                                            <button onClick={() => onOpen(message)} className="flex-1 min-w-0 text-left px-3 py-2">
+                                                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                                                    <span className="font-medium" style={{ color: group.color_primary }}>
+                                                        {message.sender_id === user!.id ? 'You' : message.sender_name}
+                                                    </span>
+                                                    <span>{new Date(message.sent_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                                                </div>
+                                                <div className="text-sm text-gray-800 line-clamp-3 whitespace-pre-wrap">{getPreview(message)}</div>
+                                            </button>
+                                            <button
+                                                onClick={() => handleUnstar(message)}
+                                                className="p-2 text-yellow-500 hover:text-gray-400"
+                                                title="Unstar"
+                                            >
+                                                <Star className="w-4 h-4 fill-current" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </section>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/** Persona icons are stored as lucide icon names */
+function PersonaIcon({ icon }: { icon: string }) {
+    const Icon = (LucideIcons as unknown as Record<string, LucideIcons.LucideIcon | undefined>)[icon] ?? LucideIcons.Circle;
+
+    return <Icon className="w-3 h-3" />;
+}
+
+function getPreview(message: StarredMessage): string {
+    return getMessagePreview({ content: message.content, file_name: message.file_name, deleted_at: null });
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useRef } from 'react';
+import { Mic, Trash2, Loader2 } from 'lucide-react';
+import { uploadFile } from '../lib/fileService';
+import {
+    startVoiceRecording,
+    isVoiceRecordingSupported,
+    formatDuration,
+    MAX_VOICE_NOTE_SECONDS,
+    MIN_VOICE_NOTE_MS,
+    type VoiceRecording,
+} from '../lib/voiceNoteService';
+
+interface VoiceRecorderButtonProps {
+    channelId: string;
+    userId: string;
+    colorPrimary: string;
+    onRecorded: (fileData: { url: string; type: string; name: string }) => void;
+}
+
+// Sliding this far left while holding cancels the recording
+const CANCEL_DISTANCE = 80;
+
+type RecorderState = 'idle' | 'starting' | 'recording' | 'uploading';
+
+/**
+ * Hold to record a voice note, release to send, slide left (or press Escape) to cancel
+ * The recording bar covers the nearest positioned ancestor, i.e. the composer row.
+ */
+export function VoiceRecorderButton({ channelId, userId, colorPrimary, onRecorded }: VoiceRecorderButtonProps) {
+    const [state, setState] = useState<RecorderState>('idle');
+    const [elapsed, setElapsed] = useState(0);
+    const [slide, setSlide] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const recordingRef = useRef<VoiceRecording | null>(null);
+    const startedAtRef = useRef(0);
+    const startXRef = useRef(0);
+    // The pointer may be released before microphone access is granted
+    const releasedRef = useRef(false);
+
+    const willCancel = slide >= CANCEL_DISTANCE;
+
+    useEffect(() => {
+        if (state !== 'recording') return;
+
+        const interval = setInterval(() => {
+            const seconds = (Date.now() - startedAtRef.current) / 1000;
+            setElapsed(seconds);
+            if (seconds >= MAX_VOICE_NOTE_SECONDS) finish(true);
+        }, 200);
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') finish(false);
+        };
+        document.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [state]);
+
+    useEffect(() => {
+        if (!error) return;
+        const timeout = setTimeout(() => setError(null), 4000);
+        return () => clearTimeout(timeout);
+    }, [error]);
+
+    // Never leave the microphone on when the chat closes mid-recording
+    useEffect(() => () => recordingRef.current?.cancel(), []);
+
+    const finish = async (send: boolean) => {
+        const recording = recordingRef.current;
+        recordingRef.current = null;
+        setSlide(0);
+        if (!recording) return;
+
+        if (!send || Date.now() - startedAtRef.current < MIN_VOICE_NOTE_MS) {
+            recording.cancel();
+            setState('idle');
+            return;
+        }
+
+        setState('uploading');
+        try {
+            const file = await recording.stop();
+            const result = await uploadFile(file, channelId, userId);
+            onRecorded({ url: result.url, type: result.type, name: result.name });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not send voice note');
+        } finally {
+            setState('idle');
+        }
+    };
+
+    const handlePointerDown = async (e: React.PointerEvent<HTMLButtonElement>) => {
+        if (state !== 'idle') return;
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        startXRef.current = e.clientX;
+        releasedRef.current = false;
+        setError(null);
+        setState('starting');
+
+        try {
+            const recording = await startVoiceRecording();
+            if (releasedRef.current) {
+                recording.cancel();
+                setState('idle');
+                return;
+            }
+            recordingRef.current = recording;
+            startedAtRef.current = Date.now();
+            setElapsed(0);
+            setState('recording');
+        } catch (err) {
+            setError(err instanceof Error && err.name !== 'NotAllowedError' ? err.message : 'Microphone access was denied');
+            setState('idle');
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+        if (state === 'recording') {
+            setSlide(Math.max(startXRef.current - e.clientX, 0));
+        }
+    };
+
+    const handlePointerUp = () => {
+        releasedRef.current = true;
+        if (state === 'recording') finish(!willCancel);
+    };
+
+    if (!isVoiceRecordingSupported()) return null;
+
+    return (
+        <>
+            <button
+                type="button"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => {
+                    releasedRef.current = true;
+                    finish(false);
+                }}
+                onContextMenu={(e) => e.preventDefault()}
+                disabled={state === 'uploading'}
+                className="relative z-20 p-3 border border-gray-300 rounded-xl hover:bg-gray-50 transition-colors touch-none select-none disabled:opacity-50"
+                style={state === 'recording' ? { backgroundColor: colorPrimary, borderColor: colorPrimary } : undefined}
+                title="Hold to record a voice note"
+            >
+                {state === 'uploading' ? (
+                    <Loader2 className="w-5 h-5 text-gray-600 animate-spin" />
+                ) : (
+                    <Mic className={`w-5 h-5 ${state === 'recording' ? 'text-white' : 'text-gray-600'}`} />
+                )}
+            </button>
+
+            {(state === 'recording' || state === 'uploading') && (
+                <div className="absolute inset-0 z-10 flex items-center gap-3 px-4 bg-white rounded-xl pointer-events-none">
+                    {state === 'recording' ? (
+                        <>
+                            <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+                            <span className="font-mono text-sm text-gray-900">{formatDuration(elapsed)}</span>
+                            <span
+                                className={`flex-1 flex items-center justify-center gap-1 text-sm ${willCancel ? 'text-red-600 font-medium' : 'text-gray-500'}`}
+                                style={{ transform: `translateX(-${Math.min(slide, CANCEL_DISTANCE)}px)` }}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                {willCancel ? 'Release to cancel' : '‹ Slide to cancel · Esc'}
+                            </span>
+                        </>
+                    ) : (
+                        <span className="flex-1 text-sm text-gray-500">Sending voice note...</span>
+                    )}
+                </div>
+            )}
+
+            {error && (
+                <div className="absolute bottom-full right-0 mb-2 z-20 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-600">
+                    {error}
+                </div>
+            )}
+        </>
+    );
+}
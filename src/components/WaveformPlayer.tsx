@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from 'react';
+import { Play, Pause, Mic, Music } from 'lucide-react';
+import { getWaveform, formatDuration, isVoiceNote, PLAYBACK_RATES } from '../lib/voiceNoteService';
+
+interface WaveformPlayerProps {
+    fileUrl: string;
+    fileName: string;
+    accentColor: string;
+}
+
+const BAR_COUNT = 48;
+const SEEK_STEP_SECONDS = 5;
+
+export function WaveformPlayer({ fileUrl, fileName, accentColor }: WaveformPlayerProps) {
+    const [playing, setPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+    const [peaks, setPeaks] = useState<number[] | null>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const scrubbingRef = useRef(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        getWaveform(fileUrl, BAR_COUNT).then((waveform) => {
+            if (cancelled || !waveform) return;
+            setPeaks(waveform.peaks);
+            // Recorded webm files often report an infinite duration until played through
+            setDuration((known) => (Number.isFinite(known) && known > 0 ? known : waveform.duration));
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [fileUrl]);
+
+    const togglePlayback = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+
+        if (audio.paused) {
+            audio.play().catch((error) => console.error('Error playing audio:', error));
+        } else {
+            audio.pause();
+        }
+    };
+
+    const cycleRate = () => {
+        const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+        setRate(next);
+        if (audioRef.current) audioRef.current.playbackRate = next;
+    };
+
+    const seekTo = (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio || !duration) return;
+
+        const time = Math.min(Math.max(seconds, 0), duration);
+        audio.currentTime = time;
+        setCurrentTime(time);
+    };
+
+    const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        seekTo(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        scrubbingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        seekToPointer(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (scrubbingRef.current) seekToPointer(e);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        scrubbingRef.current = false;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.key === 'ArrowRight') {
+            e.preventDefault();
+            seekTo(currentTime + SEEK_STEP_SECONDS);
+        } else if (e.key === 'ArrowLeft') {
+            e.preventDefault();
+            seekTo(currentTime - SEEK_STEP_SECONDS);
+        }
+    };
+
+    const progress = duration ? currentTime / duration : 0;
+    const bars = peaks ?? Array.from({ length: BAR_COUNT }, () => 0.3);
+    const voiceNote = isVoiceNote(fileName);
+
+    return (
+        <div className="flex items-center gap-3 bg-white border border-gray-200 rounded-2xl shadow-sm px-3 py-2 w-72">
+            <audio
+                ref={audioRef}
+                src={fileUrl}
+                preload="metadata"
+                onLoadedMetadata={(e) => {
+                    const audio = e.currentTarget;
+                    audio.playbackRate = rate;
+                    if (Number.isFinite(audio.duration)) setDuration(audio.duration);
+                }}
+                onTimeUpdate={(e) => {
+                    if (!scrubbingRef.current) setCurrentTime(e.currentTarget.currentTime);
+                }}
+                onPlay={() => setPlaying(true)}
+                onPause={() => setPlaying(false)}
+                onEnded={() => {
+                    setPlaying(false);
+                    setCurrentTime(0);
+                }}
+            />
+
+            <button
+                onClick={togglePlayback}
+                className="flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center text-white"
+                style={{ backgroundColor: accentColor }}
+                title={playing ? 'Pause' : 'Play'}
+            >
+                {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+            </button>
+
+            <div className="flex-1 min-w-0">
+                <div
+                    role="slider"
+                    tabIndex={0}
+                    aria-label={voiceNote ? 'Voice note position' : `${fileName} position`}
+                    aria-valuemin={0}
+                    aria-valuemax={Math.round(duration)}
+                    aria-valuenow={Math.round(currentTime)}
+                    aria-valuetext={formatDuration(currentTime)}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onKeyDown={handleKeyDown}
+                    className="flex items-center gap-px h-8 cursor-pointer touch-none focus:outline-none"
+                >
+                    {bars.map((peak, index) => (
+                        <div
+                            key={index}
+                            className="flex-1 rounded-full"
+                            style={{
+                                height: `${Math.max(peak * 100, 12)}%`,
+                                backgroundColor: (index + 0.5) / bars.length <= progress ? accentColor : '#D1D5DB',
+                            }}
+                        />
+                    ))}
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span className="inline-flex items-center gap-1 min-w-0">
+                        {voiceNote ? <Mic className="w-3 h-3 flex-shrink-0" /> : <Music className="w-3 h-3 flex-shrink-0" />}
+                        {playing || currentTime > 0 ? formatDuration(currentTime) : formatDuration(duration)}
+                        {!voiceNote && <span className="truncate">· {fileName}</span>}
+                    </span>
+                    <button
+                        onClick={cycleRate}
+                        className="px-1.5 rounded-full font-medium hover:bg-gray-100"
+                        style={{ color: accentColor }}
+                        title="Playback speed"
+                    >
+                        {rate}×
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -34,6 +34,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       default_personas: {
         Row: {
@@ -66,6 +67,7 @@ export interface Database {
           color_accent?: string
           sort_order?: number
         }
+        Relationships: []
       }
       user_personas: {
         Row: {
@@ -79,6 +81,11 @@ export interface Database {
           color_accent: string
           is_custom: boolean
           is_active: boolean
+          rich_formatting: boolean
+          send_read_receipts: boolean
+          send_typing_indicators: boolean
+          mismatch_sensitivity: 'off' | 'low' | 'medium' | 'high'
+          schedule: Json | null
           created_at: string
           updated_at: string
         }
@@ -93,6 +100,11 @@ export interface Database {
           color_accent: string
           is_custom?: boolean
           is_active?: boolean
+          rich_formatting?: boolean
+          send_read_receipts?: boolean
+          send_typing_indicators?: boolean
+          mismatch_sensitivity?: 'off' | 'low' | 'medium' | 'high'
+          schedule?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -107,39 +119,96 @@ export interface Database {
           color_accent?: string
           is_custom?: boolean
           is_active?: boolean
+          rich_formatting?: boolean
+          send_read_receipts?: boolean
+          send_typing_indicators?: boolean
+          mismatch_sensitivity?: 'off' | 'low' | 'medium' | 'high'
+          schedule?: Json | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       contacts: {
         Row: {
           id: string
           user_id: string
-          contact_user_id: string
+          contact_user_id: string | null
           nickname: string | null
+          group_id: string | null
+          allowed_persona_ids: string[] | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
-          contact_user_id: string
+          contact_user_id: string | null
           nickname?: string | null
+          group_id?: string | null
+          allowed_persona_ids?: string[] | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
-          contact_user_id?: string
+          contact_user_id?: string | null
           nickname?: string | null
+          group_id?: string | null
+          allowed_persona_ids?: string[] | null
           created_at?: string
         }
+        Relationships: []
+      }
+      channel_drafts: {
+        Row: {
+          channel_id: string
+          user_id: string
+          contact_id: string
+          persona_id: string
+          content: string
+          updated_at: string
+        }
+        Insert: {
+          channel_id: string
+          user_id: string
+          contact_id: string
+          persona_id: string
+          content: string
+          updated_at?: string
+        }
+        Update: {
+          channel_id?: string
+          user_id?: string
+          contact_id?: string
+          persona_id?: string
+          content?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      conversations: {
+        Row: {
+          id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+        }
+        Relationships: []
       }
       persona_channels: {
         Row: {
           id: string
           contact_id: string
           persona_id: string
+          conversation_id: string | null
           last_message_at: string | null
+          disappearing_seconds: number | null
           is_locked: boolean
           notification_enabled: boolean
           unread_count: number
@@ -149,7 +218,9 @@ export interface Database {
           id?: string
           contact_id: string
           persona_id: string
+          conversation_id?: string | null
           last_message_at?: string | null
+          disappearing_seconds?: number | null
           is_locked?: boolean
           notification_enabled?: boolean
           unread_count?: number
@@ -159,17 +230,141 @@ export interface Database {
           id?: string
           contact_id?: string
           persona_id?: string
+          conversation_id?: string | null
           last_message_at?: string | null
+          disappearing_seconds?: number | null
           is_locked?: boolean
           notification_enabled?: boolean
           unread_count?: number
           created_at?: string
         }
+        Relationships: []
+      }
+      persona_requests: {
+        Row: {
+          id: string
+          from_user_id: string
+          to_user_id: string
+          channel_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          from_user_id: string
+          to_user_id: string
+          channel_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          from_user_id?: string
+          to_user_id?: string
+          channel_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      group_invites: {
+        Row: {
+          id: string
+          group_id: string
+          from_user_id: string
+          to_user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          group_id: string
+          from_user_id: string
+          to_user_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          group_id?: string
+          from_user_id?: string
+          to_user_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      group_members: {
+        Row: {
+          group_id: string
+          user_id: string
+          persona_id: string
+          role: 'owner' | 'admin' | 'member'
+          joined_at: string
+        }
+        Insert: {
+          group_id: string
+          user_id: string
+          persona_id: string
+          role?: 'owner' | 'admin' | 'member'
+          joined_at?: string
+        }
+        Update: {
+          group_id?: string
+          user_id?: string
+          persona_id?: string
+          role?: 'owner' | 'admin' | 'member'
+          joined_at?: string
+        }
+        Relationships: []
+      }
+      groups: {
+        Row: {
+          id: string
+          conversation_id: string
+          name: string
+          description: string
+          icon: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id: string
+          name: string
+          description?: string
+          icon?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string
+          name?: string
+          description?: string
+          icon?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      link_previews: {
+        Row: {
+          url: string
+          preview: Json | null
+          fetched_at: string
+        }
+        Insert: {
+          url: string
+          preview?: Json | null
+          fetched_at?: string
+        }
+        Update: {
+          url?: string
+          preview?: Json | null
+          fetched_at?: string
+        }
+        Relationships: []
       }
       messages: {
         Row: {
           id: string
           channel_id: string
+          conversation_id: string | null
           sender_id: string
           content: string
           detected_tone: string | null
@@ -180,11 +375,21 @@ export interface Database {
           file_url: string | null
           file_type: string | null
           file_name: string | null
+          edited_at: string | null
+          deleted_at: string | null
+          reply_to_id: string | null
+          forwarded_from_id: string | null
+          expires_at: string | null
+          kind: 'message' | 'notice' | 'poll'
+          link_preview: Json | null
+          link_preview_disabled: boolean
+          poll: Json | null
           created_at: string
         }
         Insert: {
           id?: string
           channel_id: string
+          conversation_id?: string | null
           sender_id: string
           content: string
           detected_tone?: string | null
@@ -195,11 +400,21 @@ export interface Database {
           file_url?: string | null
           file_type?: string | null
           file_name?: string | null
+          edited_at?: string | null
+          deleted_at?: string | null
+          reply_to_id?: string | null
+          forwarded_from_id?: string | null
+          expires_at?: string | null
+          kind?: 'message' | 'notice' | 'poll'
+          link_preview?: Json | null
+          link_preview_disabled?: boolean
+          poll?: Json | null
           created_at?: string
         }
         Update: {
           id?: string
           channel_id?: string
+          conversation_id?: string | null
           sender_id?: string
           content?: string
           detected_tone?: string | null
@@ -210,8 +425,216 @@ export interface Database {
           file_url?: string | null
           file_type?: string | null
           file_name?: string | null
+          edited_at?: string | null
+          deleted_at?: string | null
+          reply_to_id?: string | null
+          forwarded_from_id?: string | null
+          expires_at?: string | null
+          kind?: 'message' | 'notice' | 'poll'
+          link_preview?: Json | null
+          link_preview_disabled?: boolean
+          poll?: Json | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      hidden_messages: {
+        Row: {
+          user_id: string
+          message_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          message_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          message_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      message_reactions: {
+        Row: {
+          id: string
+          message_id: string
+          conversation_id: string | null
+          user_id: string
+          emoji: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          conversation_id?: string | null
+          user_id: string
+          emoji: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          conversation_id?: string | null
+          user_id?: string
+          emoji?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      message_revisions: {
+        Row: {
+          id: string
+          message_id: string
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          content?: string
           created_at?: string
         }
+        Relationships: []
+      }
+      pinned_messages: {
+        Row: {
+          id: string
+          conversation_id: string | null
+          message_id: string
+          pinned_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id?: string | null
+          message_id: string
+          pinned_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string | null
+          message_id?: string
+          pinned_by?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      poll_votes: {
+        Row: {
+          message_id: string
+          conversation_id: string | null
+          user_id: string
+          option_index: number
+          created_at: string
+        }
+        Insert: {
+          message_id: string
+          conversation_id?: string | null
+          user_id: string
+          option_index: number
+          created_at?: string
+        }
+        Update: {
+          message_id?: string
+          conversation_id?: string | null
+          user_id?: string
+          option_index?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      poll_tallies: {
+        Row: {
+          message_id: string
+          conversation_id: string | null
+          counts: number[]
+          voter_count: number
+          updated_at: string
+        }
+        Insert: {
+          message_id: string
+          conversation_id?: string | null
+          counts?: number[]
+          voter_count?: number
+          updated_at?: string
+        }
+        Update: {
+          message_id?: string
+          conversation_id?: string | null
+          counts?: number[]
+          voter_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      starred_messages: {
+        Row: {
+          user_id: string
+          message_id: string
+          channel_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          message_id: string
+          channel_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          message_id?: string
+          channel_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      scheduled_messages: {
+        Row: {
+          id: string
+          channel_id: string
+          sender_id: string
+          content: string
+          reply_to_id: string | null
+          send_at: string
+          status: 'pending' | 'sent' | 'failed'
+          sent_message_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          channel_id: string
+          sender_id: string
+          content: string
+          reply_to_id?: string | null
+          send_at: string
+          status?: 'pending' | 'sent' | 'failed'
+          sent_message_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          channel_id?: string
+          sender_id?: string
+          content?: string
+          reply_to_id?: string | null
+          send_at?: string
+          status?: 'pending' | 'sent' | 'failed'
+          sent_message_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       user_presence: {
         Row: {
@@ -235,11 +658,13 @@ export interface Database {
           last_seen?: string
           updated_at?: string
         }
+        Relationships: []
       }
       typing_indicators: {
         Row: {
           id: string
           channel_id: string
+          conversation_id: string | null
           user_id: string
           created_at: string
           expires_at: string
@@ -247,6 +672,7 @@ export interface Database {
         Insert: {
           id?: string
           channel_id: string
+          conversation_id?: string | null
           user_id: string
           created_at?: string
           expires_at?: string
@@ -254,10 +680,12 @@ export interface Database {
         Update: {
           id?: string
           channel_id?: string
+          conversation_id?: string | null
           user_id?: string
           created_at?: string
           expires_at?: string
         }
+        Relationships: []
       }
       persona_analytics: {
         Row: {
@@ -284,7 +712,231 @@ export interface Database {
           avg_response_time_minutes?: number | null
           updated_at?: string
         }
+        Relationships: []
       }
     }
+    Views: {
+      contact_unread_counts: {
+        Row: {
+          contact_id: string
+          user_id: string
+          total_unread: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      accept_group_invite: {
+        Args: {
+          p_invite_id: string
+          p_persona_id?: string
+        }
+        Returns: string
+      }
+      accept_persona_request: {
+        Args: {
+          p_request_id: string
+          p_persona_id?: string
+        }
+        Returns: {
+          contact_id: string
+          persona_id: string
+        }[]
+      }
+      add_group_member: {
+        Args: {
+          p_group_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      cast_poll_vote: {
+        Args: {
+          p_message_id: string
+          p_options: number[]
+        }
+        Returns: undefined
+      }
+      create_group: {
+        Args: {
+          p_name: string
+          p_persona_id: string
+          p_member_ids?: string[]
+          p_description?: string
+          p_icon?: string
+        }
+        Returns: string
+      }
+      delete_group: {
+        Args: {
+          p_group_id: string
+        }
+        Returns: undefined
+      }
+      delete_message_for_everyone: {
+        Args: {
+          p_message_id: string
+        }
+        Returns: undefined
+      }
+      deliver_scheduled_messages: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      ensure_persona_channel: {
+        Args: {
+          p_contact_id: string
+          p_persona_id: string
+        }
+        Returns: {
+          channel_id: string
+          conversation_id: string
+          is_locked: boolean
+          notification_enabled: boolean
+          peer_persona_name: string | null
+        }[]
+      }
+      get_group_invites: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          group_id: string
+          group_name: string
+          group_icon: string
+          from_user_id: string
+          display_name: string
+          created_at: string
+        }[]
+      }
+      get_group_members: {
+        Args: {
+          p_group_id: string
+        }
+        Returns: {
+          user_id: string
+          display_name: string
+          role: 'owner' | 'admin' | 'member'
+          joined_at: string
+          persona_name: string
+          persona_icon: string
+          color_primary: string
+          color_accent: string
+        }[]
+      }
+      get_persona_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          from_user_id: string
+          display_name: string
+          persona_name: string
+          persona_icon: string
+          color_primary: string
+          color_accent: string
+          created_at: string
+        }[]
+      }
+      get_starred_messages: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          message_id: string
+          conversation_id: string
+          starred_at: string
+          content: string
+          kind: 'message' | 'notice' | 'poll'
+          file_name: string | null
+          file_type: string | null
+          sender_id: string
+          sender_name: string
+          sent_at: string
+          contact_id: string
+          contact_name: string
+          group_id: string | null
+          persona_id: string
+          persona_name: string
+          persona_icon: string
+          color_primary: string
+          color_accent: string
+        }[]
+      }
+      mark_message_as_delivered: {
+        Args: {
+          p_message_id: string
+        }
+        Returns: undefined
+      }
+      mark_messages_as_read: {
+        Args: {
+          p_channel_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      purge_expired_messages: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      remove_group_member: {
+        Args: {
+          p_group_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      remove_link_preview: {
+        Args: {
+          p_message_id: string
+        }
+        Returns: undefined
+      }
+      reset_unread_count: {
+        Args: {
+          p_channel_id: string
+        }
+        Returns: undefined
+      }
+      set_disappearing_timer: {
+        Args: {
+          p_channel_id: string
+          p_seconds: number | null
+        }
+        Returns: undefined
+      }
+      set_group_member_role: {
+        Args: {
+          p_group_id: string
+          p_user_id: string
+          p_role: 'admin' | 'member'
+        }
+        Returns: undefined
+      }
+      set_group_persona: {
+        Args: {
+          p_group_id: string
+          p_persona_id: string
+        }
+        Returns: undefined
+      }
+      set_link_preview: {
+        Args: {
+          p_message_id: string
+          p_preview: Json
+        }
+        Returns: undefined
+      }
+      set_message_tones: {
+        Args: {
+          p_message_ids: string[]
+          p_tones: string[]
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+
+export interface DisappearingOption {
+    label: string;
+    seconds: number | null;
+}
+
+export const DISAPPEARING_OPTIONS: DisappearingOption[] = [
+    { label: 'Off', seconds: null },
+    { label: '5 minutes', seconds: 5 * 60 },
+    { label: '1 hour', seconds: 60 * 60 },
+    { label: '1 day', seconds: 24 * 60 * 60 },
+    { label: '1 week', seconds: 7 * 24 * 60 * 60 },
+];
+
+/**
+ * Get the disappearing message timer for a channel, in seconds (null when off)
+ */
+export async function getDisappearingTimer(channelId: string): Promise<number | null> {
+    const { data, error } = await supabase
+        .from('persona_channels')
+        .select('disappearing_seconds')
+        .eq('id', channelId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching disappearing timer:', error);
+        return null;
+    }
+
+    return data?.disappearing_seconds ?? null;
+}
+
+/**
+ * Change the timer for the whole conversation
+ * The server posts a notice into the conversation so both sides see the change.
+ */
+export async function setDisappearingTimer(channelId: string, seconds: number | null): Promise<boolean> {
+    const { error } = await supabase.rpc('set_disappearing_timer', {
+        p_channel_id: channelId,
+        p_seconds: seconds,
+    });
+
+    if (error) {
+        console.error('Error setting disappearing timer:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Short label for a timer, e.g. "5m", "1h", "1d", "1w"
+ */
+export function formatTimerLabel(seconds: number): string {
+    if (seconds % 604800 === 0) return `${seconds / 604800}w`;
+    if (seconds % 86400 === 0) return `${seconds / 86400}d`;
+    if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+    if (seconds % 60 === 0) return `${seconds / 60}m`;
+    return `${seconds}s`;
+}
+
+/**
+ * Time left until expiry, in the largest whole unit, e.g. "4m" or "23h"
+ */
+export function formatTimeLeft(ms: number): string {
+    const seconds = Math.max(Math.ceil(ms / 1000), 0);
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+    return `${Math.floor(seconds / 86400)}d`;
+}
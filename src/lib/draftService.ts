@@ -0,0 +1,221 @@
+/**
+ * Draft Service
+ * Keeps unsent text per persona channel in localStorage and mirrors it to the
+ * channel_drafts table so drafts follow the user across devices.
+ */
+
+import { supabase } from './supabase';
+
+export interface ChannelDraft {
+    channelId: string;
+    contactId: string;
+    personaId: string;
+    content: string;
+    updatedAt: string;
+    /** True once the server has this version of the draft */
+    synced: boolean;
+}
+
+type DraftListener = (drafts: ChannelDraft[]) => void;
+
+const STORAGE_KEY = 'persona-messenger:drafts';
+const SERVER_SAVE_DELAY = 1000;
+
+let draftUserId: string | null = null;
+let listeners: DraftListener[] = [];
+const pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Drafts are stored per user so a shared browser never mixes accounts
+function getStorageKey(): string {
+    return draftUserId ? `${STORAGE_KEY}:${draftUserId}` : STORAGE_KEY;
+}
+
+function readLocalDrafts(): Record<string, ChannelDraft> {
+    try {
+        return JSON.parse(localStorage.getItem(getStorageKey()) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+function writeLocalDrafts(drafts: Record<string, ChannelDraft>) {
+    try {
+        localStorage.setItem(getStorageKey(), JSON.stringify(drafts));
+    } catch (error) {
+        console.error('Error saving drafts:', error);
+    }
+
+    const list = Object.values(drafts);
+    listeners.forEach((listener) => listener(list));
+}
+
+async function pushDraft(channelId: string) {
+    pendingSaves.delete(channelId);
+    if (!draftUserId) return;
+
+    const draft = readLocalDrafts()[channelId];
+
+    if (!draft) {
+        const { error } = await supabase
+            .from('channel_drafts')
+            .delete()
+            .eq('channel_id', channelId);
+
+        if (error) {
+            console.error('Error deleting draft:', error);
+        }
+        return;
+    }
+
+    const { error } = await supabase
+        .from('channel_drafts')
+        .upsert({
+            channel_id: draft.channelId,
+            user_id: draftUserId,
+            contact_id: draft.contactId,
+            persona_id: draft.personaId,
+            content: draft.content,
+            updated_at: draft.updatedAt,
+        }, {
+            onConflict: 'channel_id'
+        });
+
+    if (error) {
+        console.error('Error syncing draft:', error);
+        return;
+    }
+
+    // Only mark synced if the draft was not changed while the request was in flight
+    const drafts = readLocalDrafts();
+    if (drafts[channelId]?.updatedAt === draft.updatedAt) {
+        drafts[channelId] = { ...draft, synced: true };
+        writeLocalDrafts(drafts);
+    }
+}
+
+function schedulePush(channelId: string) {
+    const pending = pendingSaves.get(channelId);
+    if (pending) {
+        clearTimeout(pending);
+    }
+
+    pendingSaves.set(channelId, setTimeout(() => pushDraft(channelId), SERVER_SAVE_DELAY));
+}
+
+/**
+ * Get the saved draft for a channel
+ */
+export function getDraft(channelId: string): ChannelDraft | null {
+    return readLocalDrafts()[channelId] ?? null;
+}
+
+/**
+ * Save the composer text for a channel; empty text clears the draft
+ */
+export function saveDraft(channelId: string, contactId: string, personaId: string, content: string) {
+    const drafts = readLocalDrafts();
+    const existing = drafts[channelId];
+
+    if (!content.trim()) {
+        if (!existing) return;
+        delete drafts[channelId];
+    } else {
+        if (existing?.content === content) return;
+        drafts[channelId] = {
+            channelId,
+            contactId,
+            personaId,
+            content,
+            updatedAt: new Date().toISOString(),
+            synced: false,
+        };
+    }
+
+    writeLocalDrafts(drafts);
+    schedulePush(channelId);
+}
+
+/**
+ * Remove a channel's draft, e.g. after the message was sent
+ */
+export function clearDraft(channelId: string) {
+    const drafts = readLocalDrafts();
+    if (!drafts[channelId]) return;
+
+    delete drafts[channelId];
+    writeLocalDrafts(drafts);
+    schedulePush(channelId);
+}
+
+/**
+ * Get every saved draft, for "Draft" markers
+ */
+export function getDrafts(): ChannelDraft[] {
+    return Object.values(readLocalDrafts());
+}
+
+/**
+ * Subscribe to drafts being saved or cleared
+ */
+export function subscribeToDrafts(listener: DraftListener): () => void {
+    listeners.push(listener);
+
+    return () => {
+        listeners = listeners.filter((l) => l !== listener);
+    };
+}
+
+/**
+ * Merge server drafts into the local ones, newest version wins
+ * A synced local draft that is gone from the server was sent or cleared on
+ * another device, so it is dropped here too.
+ */
+export async function syncDrafts(userId: string) {
+    draftUserId = userId;
+
+    const { data, error } = await supabase
+        .from('channel_drafts')
+        .select('*')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error fetching drafts:', error);
+        return;
+    }
+
+    const drafts = readLocalDrafts();
+    const serverDrafts = new Map((data || []).map((d) => [d.channel_id, d]));
+
+    Object.values(drafts).forEach((local) => {
+        if (local.synced && !serverDrafts.has(local.channelId)) {
+            delete drafts[local.channelId];
+        } else if (!local.synced) {
+            schedulePush(local.channelId);
+        }
+    });
+
+    serverDrafts.forEach((server) => {
+        const local = drafts[server.channel_id];
+        if (!local || new Date(local.updatedAt) < new Date(server.updated_at)) {
+            drafts[server.channel_id] = {
+                channelId: server.channel_id,
+                contactId: server.contact_id,
+                personaId: server.persona_id,
+                content: server.content,
+                updatedAt: server.updated_at,
+                synced: true,
+            };
+        }
+    });
+
+    writeLocalDrafts(drafts);
+}
+
+/**
+ * Stop mirroring drafts to the server, e.g. on sign out
+ */
+export function stopDraftSync() {
+    draftUserId = null;
+    pendingSaves.forEach((timeout) => clearTimeout(timeout));
+    pendingSaves.clear();
+}
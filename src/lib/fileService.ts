@@ -16,7 +16,7 @@ const ALLOWED_DOCUMENT_TYPES = [
     'text/plain',
 ];
 const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/ogg'];
-const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm'];
+const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/webm', 'audio/mp4'];
 
 const ALLOWED_TYPES = [
     ...ALLOWED_IMAGE_TYPES,
@@ -129,6 +129,19 @@ export async function deleteFile(filePath: string): Promise<boolean> {
     }
 }
 
+/**
+ * Get the storage path of an uploaded attachment from its public URL
+ * Returns null for URLs that do not point into the attachments bucket (e.g. GIFs)
+ */
+export function getFilePathFromUrl(fileUrl: string): string | null {
+    const marker = `/${BUCKET_NAME}/`;
+    const index = fileUrl.indexOf(marker);
+
+    if (index === -1) return null;
+
+    return decodeURIComponent(fileUrl.substring(index + marker.length).split('?')[0]);
+}
+
 /**
  * Get file URL from path
  */
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import { enqueueMessage } from './outboxService';
+import { getLinkPreview } from './unfurlService';
+import { getPoll } from './pollService';
+import type { MessageRow } from './messageService';
+
+export interface ForwardTarget {
+    contactId: string;
+    personaId: string;
+}
+
+/**
+ * Forward a message into one or more persona channels
+ * Each copy keeps the content and attachment and points back at the original.
+ * Returns the number of targets the message was queued for.
+ */
+export async function forwardMessage(
+    message: MessageRow,
+    targets: ForwardTarget[],
+    senderId: string
+): Promise<number> {
+    let forwarded = 0;
+
+    for (const target of targets) {
+        const { data: channel, error } = await supabase
+            .rpc('ensure_persona_channel', {
+                p_contact_id: target.contactId,
+                p_persona_id: target.personaId,
+            })
+            .maybeSingle();
+
+        if (error || !channel) {
+            console.error('Error opening channel to forward to:', error);
+            continue;
+        }
+
+        await enqueueMessage({
+            channel_id: channel.channel_id,
+            conversation_id: channel.conversation_id,
+            sender_id: senderId,
+            content: message.content,
+            forwarded_from_id: message.id,
+            file_url: message.file_url,
+            file_type: message.file_type,
+            file_name: message.file_name,
+            link_preview: getLinkPreview(message),
+            link_preview_disabled: message.link_preview_disabled,
+            // A forwarded poll starts over with no votes
+            poll: getPoll(message),
+        });
+        forwarded += 1;
+    }
+
+    return forwarded;
+}
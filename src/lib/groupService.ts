@@ -0,0 +1,348 @@
+/**
+ * Group Service
+ * Group conversations: each member takes part under one of their personas.
+ * Every member has a "group contact" row with a single persona channel in the
+ * group's conversation, so chat features and unread counts work the same as
+ * in 1:1 chats. Membership changes go through RPCs that keep those in sync.
+ * People are invited rather than added, and join once they accept.
+ */
+
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+export type Group = Database['public']['Tables']['groups']['Row'];
+export type GroupRole = Database['public']['Tables']['group_members']['Row']['role'];
+export type GroupMember = Database['public']['Functions']['get_group_members']['Returns'][number];
+export type GroupInvite = Database['public']['Functions']['get_group_invites']['Returns'][number];
+type PersonaRow = Database['public']['Tables']['user_personas']['Row'];
+
+/** A group as seen by the current user */
+export interface GroupChat extends Group {
+    /** The user's group contact row, used for the channel, drafts and unread counts */
+    contact_id: string;
+    /** The persona the user takes part under */
+    persona: PersonaRow;
+    role: GroupRole;
+}
+
+/**
+ * Get the groups the user is a member of, sorted by name
+ */
+export async function fetchGroups(userId: string): Promise<GroupChat[]> {
+    const { data: memberships, error } = await supabase
+        .from('group_members')
+        .select('group_id, persona_id, role')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error fetching group memberships:', error);
+        return [];
+    }
+
+    if (!memberships || memberships.length === 0) return [];
+
+    const groupIds = memberships.map((m) => m.group_id);
+
+    const [groupsResult, contactsResult, personasResult] = await Promise.all([
+        supabase.from('groups').select('*').in('id', groupIds),
+        supabase.from('contacts').select('id, group_id').eq('user_id', userId).in('group_id', groupIds),
+        supabase.from('user_personas').select('*').in('id', memberships.map((m) => m.persona_id)),
+    ]);
+
+    const fetchError = groupsResult.error ?? contactsResult.error ?? personasResult.error;
+    if (fetchError) {
+        console.error('Error fetching groups:', fetchError);
+        return [];
+    }
+
+    const contactIds = new Map((contactsResult.data || []).map((c) => [c.group_id, c.id]));
+    const personas = new Map((personasResult.data || []).map((p) => [p.id, p]));
+
+    return (groupsResult.data || [])
+        .flatMap((group) => {
+            const membership = memberships.find((m) => m.group_id === group.id);
+            const contactId = contactIds.get(group.id);
+            const persona = membership && personas.get(membership.persona_id);
+            if (!membership || !contactId || !persona) return [];
+
+            return [{
+                ...group,
+                contact_id: contactId,
+                persona,
+                role: membership.role,
+            }];
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a group's members with their display names and persona colors
+ */
+export async function fetchGroupMembers(groupId: string): Promise<GroupMember[]> {
+    const { data, error } = await supabase.rpc('get_group_members', {
+        p_group_id: groupId,
+    });
+
+    if (error) {
+        console.error('Error fetching group members:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Create a group and invite members from the user's contacts
+ * Returns the new group's ID, or null if it could not be created.
+ */
+export async function createGroup(group: {
+    name: string;
+    personaId: string;
+    memberIds: string[];
+    description?: string;
+    icon?: string;
+}): Promise<string | null> {
+    const { data, error } = await supabase.rpc('create_group', {
+        p_name: group.name,
+        p_persona_id: group.personaId,
+        p_member_ids: group.memberIds,
+        p_description: group.description ?? '',
+        p_icon: group.icon ?? '👥',
+    });
+
+    if (error) {
+        console.error('Error creating group:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Update a group's name, description or icon (admins only)
+ */
+export async function updateGroup(
+    groupId: string,
+    updates: Partial<Pick<Group, 'name' | 'description' | 'icon'>>
+): Promise<boolean> {
+    const { error } = await supabase
+        .from('groups')
+        .update(updates)
+        .eq('id', groupId);
+
+    if (error) {
+        console.error('Error updating group:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Invite one of the user's contacts to a group (admins only)
+ * Returns an error message when the invite could not be sent.
+ */
+export async function addGroupMember(groupId: string, userId: string): Promise<string | null> {
+    const { error } = await supabase.rpc('add_group_member', {
+        p_group_id: groupId,
+        p_user_id: userId,
+    });
+
+    if (error) {
+        console.error('Error inviting group member:', error);
+        return error.message || 'Could not invite member';
+    }
+
+    return null;
+}
+
+/**
+ * Get the group invites waiting for the current user, newest first
+ */
+export async function fetchGroupInvites(): Promise<GroupInvite[]> {
+    const { data, error } = await supabase.rpc('get_group_invites');
+
+    if (error) {
+        console.error('Error fetching group invites:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Accept an invite and join the group
+ * Without a persona, one the user shows the inviter is picked, preferring the
+ * inviter's persona name. Returns the group's ID.
+ */
+export async function acceptGroupInvite(inviteId: string, personaId?: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('accept_group_invite', {
+        p_invite_id: inviteId,
+        p_persona_id: personaId,
+    });
+
+    if (error) {
+        console.error('Error accepting group invite:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Ignore an invite; the inviter is not told
+ */
+export async function ignoreGroupInvite(inviteId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('group_invites')
+        .delete()
+        .eq('id', inviteId);
+
+    if (error) {
+        console.error('Error ignoring group invite:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Remove a member from a group, or leave it when userId is the current user
+ * Returns an error message when the member could not be removed.
+ */
+export async function removeGroupMember(groupId: string, userId: string): Promise<string | null> {
+    const { error } = await supabase.rpc('remove_group_member', {
+        p_group_id: groupId,
+        p_user_id: userId,
+    });
+
+    if (error) {
+        console.error('Error removing group member:', error);
+        return error.message || 'Could not remove member';
+    }
+
+    return null;
+}
+
+/**
+ * Make a member an admin or a regular member (owner only)
+ */
+export async function setGroupMemberRole(
+    groupId: string,
+    userId: string,
+    role: 'admin' | 'member'
+): Promise<boolean> {
+    const { error } = await supabase.rpc('set_group_member_role', {
+        p_group_id: groupId,
+        p_user_id: userId,
+        p_role: role,
+    });
+
+    if (error) {
+        console.error('Error changing group role:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Switch the persona the user takes part in a group under
+ */
+export async function setGroupPersona(groupId: string, personaId: string): Promise<boolean> {
+    const { error } = await supabase.rpc('set_group_persona', {
+        p_group_id: groupId,
+        p_persona_id: personaId,
+    });
+
+    if (error) {
+        console.error('Error changing group persona:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Delete a group and all of its messages (owner only)
+ */
+export async function deleteGroup(groupId: string): Promise<boolean> {
+    const { error } = await supabase.rpc('delete_group', {
+        p_group_id: groupId,
+    });
+
+    if (error) {
+        console.error('Error deleting group:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Subscribe to the user joining, leaving or being re-assigned in groups,
+ * and to changes of their groups' names and icons
+ */
+export function subscribeToGroups(userId: string, onChange: () => void): RealtimeChannel {
+    return supabase
+        .channel(`groups:${userId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: '*',
+                schema: 'public',
+                table: 'group_members',
+                filter: `user_id=eq.${userId}`,
+            },
+            onChange
+        )
+        .on(
+            'postgres_changes',
+            {
+                event: 'UPDATE',
+                schema: 'public',
+                table: 'groups',
+            },
+            onChange
+        )
+        .subscribe();
+}
+
+/**
+ * Subscribe to group invites arriving for or being removed from the user
+ */
+export function subscribeToGroupInvites(userId: string, onChange: () => void): RealtimeChannel {
+    return supabase
+        .channel(`group-invites:${userId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: '*',
+                schema: 'public',
+                table: 'group_invites',
+                filter: `to_user_id=eq.${userId}`,
+            },
+            onChange
+        )
+        .subscribe();
+}
+
+/**
+ * Subscribe to members joining, leaving or changing role or persona in a group
+ */
+export function subscribeToGroupMembers(groupId: string, onChange: () => void): RealtimeChannel {
+    return supabase
+        .channel(`group-members:${groupId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: '*',
+                schema: 'public',
+                table: 'group_members',
+                filter: `group_id=eq.${groupId}`,
+            },
+            onChange
+        )
+        .subscribe();
+}
@@ -0,0 +1,279 @@
+/**
+ * Markdown Subset Parser
+ * Parses the formatting we support in messages into a small syntax tree:
+ * bold, italics, inline code, fenced code blocks, lists, links and blockquotes.
+ *
+ * The tree is rendered as React elements (see MarkdownContent), never as an
+ * HTML string, so message text cannot inject markup. Link targets are limited
+ * to http(s) and mailto URLs.
+ */
+
+export type InlineNode =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong'; children: InlineNode[] }
+    | { type: 'em'; children: InlineNode[] }
+    | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+    | { type: 'paragraph'; lines: InlineNode[][] }
+    | { type: 'code'; language: string | null; code: string }
+    | { type: 'blockquote'; children: BlockNode[] }
+    | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const FENCE_OPEN = /^```\s*([\w+#-]*)\s*$/;
+const FENCE_CLOSE = /^```\s*$/;
+const QUOTE_LINE = /^>\s?/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const LINK = /^\[([^\]\n]+)\]\(([^)\s]+)\)/;
+const AUTOLINK = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?]/;
+const ESCAPABLE = /[\\`*_[\]()>#+\-.!]/;
+// The shrug's backslash and underscores are part of the face, not an escape or emphasis
+const SHRUG = '¯\\_(ツ)_/¯';
+// Deeper quotes and emphasis are shown as plain text rather than nested further
+const MAX_QUOTE_DEPTH = 8;
+const MAX_EMPHASIS_DEPTH = 8;
+
+/**
+ * Return the URL if it is safe to link to, otherwise null
+ */
+export function getSafeUrl(href: string): string | null {
+    try {
+        const url = new URL(href);
+        return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+function isWordChar(char: string | undefined): boolean {
+    return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Find the closing delimiter for an emphasis run starting at `start`
+ */
+function findClosing(text: string, delimiter: string, start: number): number {
+    let index = text.indexOf(delimiter, start);
+
+    while (index !== -1) {
+        const before = text[index - 1];
+        const after = text[index + delimiter.length];
+        const closesRun = before !== undefined && !/\s/.test(before) && before !== '\\';
+        // Underscores inside words (snake_case) are not emphasis
+        const wordSafe = delimiter[0] !== '_' || !isWordChar(after);
+        // A single * must not match half of a ** pair
+        const notDoubled = delimiter.length === 2 || after !== delimiter;
+
+        if (closesRun && wordSafe && notDoubled && index > start) {
+            return index;
+        }
+        index = text.indexOf(delimiter, index + 1);
+    }
+
+    return -1;
+}
+
+/**
+ * Parse inline formatting in a single line of text
+ */
+export function parseInline(text: string, depth = 0): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    // Where a search for each delimiter last failed; any later search fails too
+    const unclosedFrom = new Map<string, number>();
+    let buffer = '';
+    let i = 0;
+
+    const flush = () => {
+        if (buffer) {
+            nodes.push({ type: 'text', text: buffer });
+            buffer = '';
+        }
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        const rest = text.slice(i);
+
+        if (rest.startsWith(SHRUG)) {
+            buffer += SHRUG;
+            i += SHRUG.length;
+            continue;
+        }
+
+        if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end > i + 1) {
+                flush();
+                nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+                i = end + 1;
+                continue;
+            }
+        }
+
+        if ((char === '*' || char === '_') && depth < MAX_EMPHASIS_DEPTH && !/\s/.test(text[i + 1] ?? ' ')) {
+            const doubled = text[i + 1] === char;
+            const delimiter = doubled ? char + char : char;
+            const opensRun = char === '*' || !isWordChar(text[i - 1]);
+            const contentStart = i + delimiter.length;
+
+            if (opensRun && !/\s/.test(text[contentStart] ?? ' ') && contentStart < (unclosedFrom.get(delimiter) ?? Infinity)) {
+                const end = findClosing(text, delimiter, contentStart);
+                if (end === -1) {
+                    unclosedFrom.set(delimiter, contentStart);
+                } else {
+                    flush();
+                    const children = parseInline(text.slice(contentStart, end), depth + 1);
+                    nodes.push(doubled ? { type: 'strong', children } : { type: 'em', children });
+                    i = end + delimiter.length;
+                    continue;
+                }
+            }
+        }
+
+        if (char === '[') {
+            const match = LINK.exec(rest);
+            const href = match && getSafeUrl(match[2]);
+            if (match && href) {
+                flush();
+                nodes.push({ type: 'link', href, children: parseInline(match[1], depth + 1) });
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        if (char === 'h' && !isWordChar(text[i - 1])) {
+            const match = AUTOLINK.exec(rest);
+            const href = match && getSafeUrl(match[0]);
+            if (match && href) {
+                flush();
+                nodes.push({ type: 'link', href, children: [{ type: 'text', text: match[0] }] });
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        buffer += char;
+        i += 1;
+    }
+
+    flush();
+    return nodes;
+}
+
+function startsBlock(line: string, depth: number): boolean {
+    return (
+        FENCE_OPEN.test(line) ||
+        (depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line)) ||
+        UNORDERED_ITEM.test(line) ||
+        ORDERED_ITEM.test(line)
+    );
+}
+
+/**
+ * Parse message text into blocks
+ */
+export function parseMarkdown(text: string, depth = 0): BlockNode[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: BlockNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i += 1;
+            continue;
+        }
+
+        const fence = FENCE_OPEN.exec(line);
+        if (fence) {
+            const code: string[] = [];
+            i += 1;
+            while (i < lines.length && !FENCE_CLOSE.test(lines[i])) {
+                code.push(lines[i]);
+                i += 1;
+            }
+            i += 1; // closing fence (or end of message)
+            blocks.push({ type: 'code', language: fence[1] ? fence[1].toLowerCase() : null, code: code.join('\n') });
+            continue;
+        }
+
+        if (depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+                quoted.push(lines[i].replace(QUOTE_LINE, ''));
+                i += 1;
+            }
+            blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n'), depth + 1) });
+            continue;
+        }
+
+        const ordered = ORDERED_ITEM.exec(line);
+        if (ordered || UNORDERED_ITEM.test(line)) {
+            const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+            const items: InlineNode[][] = [];
+            let match: RegExpExecArray | null;
+            while (i < lines.length && (match = pattern.exec(lines[i]))) {
+                items.push(parseInline(match[match.length - 1]));
+                i += 1;
+            }
+            blocks.push({
+                type: 'list',
+                ordered: !!ordered,
+                start: ordered ? parseInt(ordered[1], 10) : 1,
+                items,
+            });
+            continue;
+        }
+
+        const paragraph: InlineNode[][] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], depth))) {
+            paragraph.push(parseInline(lines[i]));
+            i += 1;
+        }
+        blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+
+    return blocks;
+}
+
+/**
+ * Whether the text uses any formatting, i.e. whether a preview adds anything
+ */
+export function hasMarkdown(text: string): boolean {
+    return parseMarkdown(text).some((block) =>
+        block.type !== 'paragraph' ||
+        block.lines.some((line) => line.some((node) => node.type !== 'text'))
+    );
+}
+
+/**
+ * Wrap the selected text in a formatting marker, e.g. "**" for bold
+ * With nothing selected the markers are inserted and the cursor placed between them.
+ * Returns the new text and selection.
+ */
+export function wrapSelection(
+    text: string,
+    selectionStart: number,
+    selectionEnd: number,
+    before: string,
+    after: string = before
+): { text: string; selectionStart: number; selectionEnd: number } {
+    const selected = text.slice(selectionStart, selectionEnd);
+
+    return {
+        text: text.slice(0, selectionStart) + before + selected + after + text.slice(selectionEnd),
+        selectionStart: selectionStart + before.length,
+        selectionEnd: selectionEnd + before.length,
+    };
+}
@@ -0,0 +1,263 @@
+import { supabase } from './supabase';
+import { isVoiceNote } from './voiceNoteService';
+import type { Database } from './database.types';
+
+export type MessageRow = Database['public']['Tables']['messages']['Row'];
+export type MessageRevision = Database['public']['Tables']['message_revisions']['Row'];
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * Keyset cursor pointing at the oldest message of the last loaded page
+ */
+export interface MessageCursor {
+    created_at: string;
+    id: string;
+}
+
+export interface MessagePage {
+    messages: MessageRow[];
+    nextCursor: MessageCursor | null;
+}
+
+/**
+ * Fetch one page of a conversation, newest first from the database
+ * Pass the cursor from the previous page to load older messages.
+ * Messages are returned in ascending order, ready to render.
+ */
+export async function fetchMessagePage(
+    conversationId: string,
+    cursor: MessageCursor | null = null,
+    limit: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> {
+    let query = supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+    if (cursor) {
+        query = query.or(
+            `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
+        );
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('Error fetching messages:', error);
+        return { messages: [], nextCursor: cursor };
+    }
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    const oldest = page[page.length - 1];
+
+    return {
+        messages: page.reverse(),
+        nextCursor: hasMore && oldest ? { created_at: oldest.created_at, id: oldest.id } : null,
+    };
+}
+
+/**
+ * Search a conversation's messages on the server, newest matches first
+ * Pages through older matches with the same keyset cursor as
+ * fetchMessagePage, so results aren't limited to the pages already loaded.
+ */
+export async function searchMessages(
+    conversationId: string,
+    searchQuery: string,
+    cursor: MessageCursor | null = null,
+    limit: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> {
+    // Match the text literally, including any % or _ the user typed
+    const pattern = `%${searchQuery.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+    let query = supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .is('deleted_at', null)
+        .ilike('content', pattern)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+    if (cursor) {
+        query = query.or(
+            `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
+        );
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('Error searching messages:', error);
+        return { messages: [], nextCursor: null };
+    }
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    const oldest = page[page.length - 1];
+
+    return {
+        messages: page.reverse(),
+        nextCursor: hasMore && oldest ? { created_at: oldest.created_at, id: oldest.id } : null,
+    };
+}
+
+/**
+ * Fetch every message in [from, before) by keyset, in ascending order
+ * Used to fill the gap between the loaded page and an older message we jump to.
+ */
+export async function fetchMessageRange(
+    conversationId: string,
+    from: MessageCursor,
+    before: MessageCursor
+): Promise<MessageRow[]> {
+    const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .or(
+            `and(or(created_at.gt.${from.created_at},and(created_at.eq.${from.created_at},id.gte.${from.id})),` +
+            `or(created_at.lt.${before.created_at},and(created_at.eq.${before.created_at},id.lt.${before.id})))`
+        )
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching message range:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Fetch specific messages by ID, e.g. quoted originals outside the loaded page
+ */
+export async function fetchMessagesByIds(messageIds: string[]): Promise<MessageRow[]> {
+    if (messageIds.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .in('id', messageIds);
+
+    if (error) {
+        console.error('Error fetching messages:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Short plain-text summary of a message for quotes and previews
+ */
+export function getMessagePreview(message: Pick<MessageRow, 'content' | 'file_name' | 'deleted_at'>): string {
+    if (message.deleted_at) return 'Message deleted';
+    if (message.content && !message.content.startsWith('Sent a ')) return message.content;
+    if (message.file_name && isVoiceNote(message.file_name)) return '🎤 Voice note';
+    if (message.file_name) return message.file_name;
+    return message.content || 'Attachment';
+}
+
+/**
+ * Insert a message into a list, keeping it sorted and free of duplicates
+ * Realtime events can race the initial page load, so the same row may arrive twice.
+ */
+export function mergeMessage<T extends { id: string; created_at: string }>(messages: T[], message: T): T[] {
+    if (messages.some((m) => m.id === message.id)) {
+        return messages.map((m) => (m.id === message.id ? message : m));
+    }
+
+    const last = messages[messages.length - 1];
+    if (!last || last.created_at <= message.created_at) {
+        return [...messages, message];
+    }
+
+    return [...messages, message].sort((a, b) =>
+        a.created_at === b.created_at ? a.id.localeCompare(b.id) : a.created_at.localeCompare(b.created_at)
+    );
+}
+
+/**
+ * Edit the content of one of your own messages
+ * The previous text is archived server-side and the change reaches the
+ * other side through the messages UPDATE realtime event.
+ */
+export async function editMessage(messageId: string, content: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('messages')
+        .update({ content })
+        .eq('id', messageId);
+
+    if (error) {
+        console.error('Error editing message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Get the previous versions of a message, oldest first
+ */
+export async function fetchMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+    const { data, error } = await supabase
+        .from('message_revisions')
+        .select('*')
+        .eq('message_id', messageId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching message revisions:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Delete a message for everyone in the conversation
+ * The row is kept as a tombstone so both sides can show that it was deleted,
+ * and an uploaded attachment is queued for removal on the server once no
+ * forwarded copy still uses it.
+ */
+export async function deleteMessageForEveryone(message: MessageRow): Promise<boolean> {
+    const { error } = await supabase.rpc('delete_message_for_everyone', {
+        p_message_id: message.id,
+    });
+
+    if (error) {
+        console.error('Error deleting message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Hide a message from your own view only
+ */
+export async function deleteMessageForMe(messageId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('hidden_messages')
+        .insert({
+            user_id: userId,
+            message_id: messageId,
+        });
+
+    if (error) {
+        console.error('Error hiding message:', error);
+        return false;
+    }
+
+    return true;
+}
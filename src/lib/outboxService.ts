@@ -0,0 +1,405 @@
+/**
+ * Offline Outbox Service
+ * Queues outgoing messages in IndexedDB and delivers them in the background,
+ * retrying with exponential backoff until the insert succeeds.
+ */
+
+import { supabase } from './supabase';
+import { fetchMessagesByIds, type MessageRow } from './messageService';
+import { attachLinkPreview, setLinkPreview, type LinkPreview } from './unfurlService';
+import type { Poll } from './pollService';
+import type { Json } from './database.types';
+
+export type OutboxState = 'sending' | 'failed';
+
+export interface OutboxMessage {
+    /** Client-generated message ID, reused on every attempt so retries never duplicate */
+    id: string;
+    channel_id: string;
+    conversation_id: string | null;
+    sender_id: string;
+    content: string;
+    reply_to_id: string | null;
+    forwarded_from_id: string | null;
+    file_url: string | null;
+    file_type: string | null;
+    file_name: string | null;
+    /** Preview card already unfurled in the composer, if any */
+    link_preview: LinkPreview | null;
+    link_preview_disabled: boolean;
+    /** Set when the message is a poll */
+    poll: Poll | null;
+    queued_at: string;
+    attempts: number;
+    /** Infinity once the server has rejected the message for good; only a manual retry sends it again */
+    next_attempt_at: number;
+    state: OutboxState;
+}
+
+export type NewOutboxMessage = Pick<OutboxMessage, 'channel_id' | 'conversation_id' | 'sender_id' | 'content'> &
+    Partial<Pick<OutboxMessage, 'reply_to_id' | 'forwarded_from_id' | 'file_url' | 'file_type' | 'file_name' | 'link_preview' | 'link_preview_disabled' | 'poll'>>;
+
+interface OutboxListener {
+    onChange: (entries: OutboxMessage[]) => void;
+    onDelivered?: (message: MessageRow) => void;
+}
+
+const DB_NAME = 'persona-messenger';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+// SQLSTATE classes that fail the same way on every attempt: invalid data,
+// constraint violations, missing permissions and exceptions raised by our
+// triggers (e.g. a persona the contact doesn't allow, or an invalid forward)
+const PERMANENT_ERROR_CODE = /^(22|23|42|P0)/;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let outboxUserId: string | null = null;
+let listeners: OutboxListener[] = [];
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+let flushRequested = false;
+
+function openOutboxDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('sender_id', 'sender_id');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+
+    return dbPromise;
+}
+
+async function runTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openOutboxDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+    });
+}
+
+async function getAllEntries(): Promise<OutboxMessage[]> {
+    try {
+        const entries = await runTransaction<OutboxMessage[]>('readonly', (store) => store.getAll());
+        return entries.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+    } catch (error) {
+        console.error('Error reading outbox:', error);
+        return [];
+    }
+}
+
+// Only the signed-in user's messages can be sent; others wait for their owner
+async function getOwnEntries(): Promise<OutboxMessage[]> {
+    if (!outboxUserId) return [];
+    const entries = await getAllEntries();
+    return entries.filter((entry) => entry.sender_id === outboxUserId);
+}
+
+async function putEntry(entry: OutboxMessage) {
+    try {
+        await runTransaction('readwrite', (store) => store.put(entry));
+    } catch (error) {
+        console.error('Error saving outbox message:', error);
+    }
+}
+
+async function deleteEntry(id: string) {
+    try {
+        await runTransaction('readwrite', (store) => store.delete(id));
+    } catch (error) {
+        console.error('Error removing outbox message:', error);
+    }
+}
+
+async function notifyChange() {
+    const entries = await getAllEntries();
+    listeners.forEach((listener) => listener.onChange(entries));
+}
+
+function notifyDelivered(message: MessageRow) {
+    listeners.forEach((listener) => listener.onDelivered?.(message));
+}
+
+/**
+ * Delay before the next attempt: 1s, 2s, 4s... capped at one minute
+ */
+function getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Insert one queued message, treating "already exists" as success
+ * A previous attempt may have reached the server even though its response was lost.
+ */
+async function deliverEntry(entry: OutboxMessage): Promise<MessageRow | null> {
+    const { data, error } = await supabase
+        .from('messages')
+        .insert({
+            id: entry.id,
+            channel_id: entry.channel_id,
+            sender_id: entry.sender_id,
+            content: entry.content,
+            reply_to_id: entry.reply_to_id,
+            forwarded_from_id: entry.forwarded_from_id ?? null,
+            file_url: entry.file_url,
+            file_type: entry.file_type,
+            file_name: entry.file_name,
+            link_preview_disabled: entry.link_preview_disabled ?? false,
+            kind: entry.poll ? 'poll' : 'message',
+            poll: (entry.poll ?? null) as unknown as Json,
+        })
+        .select()
+        .single();
+
+    if (error && error.code === '23505') {
+        const [existing] = await fetchMessagesByIds([entry.id]);
+        return existing ?? null;
+    }
+
+    if (error) {
+        throw error;
+    }
+
+    await supabase
+        .from('persona_channels')
+        .update({ last_message_at: data.created_at })
+        .eq('id', entry.channel_id);
+
+    return data;
+}
+
+/**
+ * Whether retrying would hit the same error again
+ */
+function isPermanentError(error: unknown): boolean {
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && PERMANENT_ERROR_CODE.test(code);
+}
+
+function scheduleRetry(entries: OutboxMessage[]) {
+    if (retryTimeout) {
+        clearTimeout(retryTimeout);
+        retryTimeout = null;
+    }
+
+    // Retries resume from the online event instead of polling while offline
+    if (!outboxUserId || entries.length === 0 || !navigator.onLine) return;
+
+    const retryable = entries.filter((entry) => Number.isFinite(entry.next_attempt_at));
+    if (retryable.length === 0) return;
+
+    const nextAttempt = Math.min(...retryable.map((entry) => entry.next_attempt_at));
+    retryTimeout = setTimeout(flushOutbox, Math.max(nextAttempt - Date.now(), 0));
+}
+
+/**
+ * Try to deliver every queued message whose retry time has come
+ */
+export async function flushOutbox() {
+    if (flushing) {
+        flushRequested = true;
+        return;
+    }
+
+    flushing = true;
+
+    try {
+        do {
+            flushRequested = false;
+            const entries = await getOwnEntries();
+            const due = entries.filter((entry) => entry.next_attempt_at <= Date.now());
+
+            for (const entry of due) {
+                try {
+                    const delivered = await deliverEntry(entry);
+                    await deleteEntry(entry.id);
+                    if (delivered) {
+                        // Cards are saved through the server, which checks them, once the message exists
+                        if (entry.link_preview && !delivered.link_preview && await setLinkPreview(delivered.id, entry.link_preview)) {
+                            notifyDelivered({ ...delivered, link_preview: entry.link_preview as unknown as Json });
+                        } else {
+                            notifyDelivered(delivered);
+                        }
+                        // The composer had no card ready yet, so unfurl now that the message exists
+                        if (!entry.link_preview && !entry.link_preview_disabled) {
+                            attachLinkPreview(delivered);
+                        }
+                    }
+                } catch (error) {
+                    console.error('Error sending queued message:', error);
+                    const attempts = entry.attempts + 1;
+                    await putEntry({
+                        ...entry,
+                        attempts,
+                        next_attempt_at: isPermanentError(error) ? Infinity : Date.now() + getRetryDelay(attempts),
+                        state: 'failed',
+                    });
+                }
+                await notifyChange();
+            }
+        } while (flushRequested);
+    } finally {
+        // An unexpected error must not leave the outbox stuck in the flushing state
+        flushing = false;
+        scheduleRetry(await getOwnEntries());
+    }
+}
+
+/**
+ * Queue a message and start sending it right away
+ * Returns the queued entry so it can be shown as pending immediately.
+ */
+export async function enqueueMessage(message: NewOutboxMessage): Promise<OutboxMessage> {
+    const entry: OutboxMessage = {
+        id: crypto.randomUUID(),
+        reply_to_id: null,
+        forwarded_from_id: null,
+        file_url: null,
+        file_type: null,
+        file_name: null,
+        link_preview: null,
+        link_preview_disabled: false,
+        poll: null,
+        ...message,
+        queued_at: new Date().toISOString(),
+        attempts: 0,
+        next_attempt_at: Date.now(),
+        state: 'sending',
+    };
+
+    await putEntry(entry);
+    await notifyChange();
+    flushOutbox();
+
+    return entry;
+}
+
+/**
+ * Retry a failed message now instead of waiting for its backoff
+ */
+export async function retryOutboxMessage(id: string) {
+    const entry = (await getAllEntries()).find((e) => e.id === id);
+    if (!entry) return;
+
+    await putEntry({ ...entry, next_attempt_at: Date.now(), state: 'sending' });
+    await notifyChange();
+    flushOutbox();
+}
+
+/**
+ * Drop a queued message without sending it
+ */
+export async function discardOutboxMessage(id: string) {
+    await deleteEntry(id);
+    await notifyChange();
+}
+
+/**
+ * Get the queued messages for a channel, oldest first
+ */
+export async function getOutboxMessages(channelId: string): Promise<OutboxMessage[]> {
+    const entries = await getAllEntries();
+    return entries.filter((entry) => entry.channel_id === channelId);
+}
+
+/**
+ * Subscribe to outbox changes and delivered messages
+ */
+export function subscribeToOutbox(
+    onChange: (entries: OutboxMessage[]) => void,
+    onDelivered?: (message: MessageRow) => void
+): () => void {
+    const listener: OutboxListener = { onChange, onDelivered };
+    listeners.push(listener);
+
+    return () => {
+        listeners = listeners.filter((l) => l !== listener);
+    };
+}
+
+/**
+ * Render a queued message with the same shape as a stored one
+ */
+export function outboxEntryToMessage(entry: OutboxMessage): MessageRow {
+    return {
+        id: entry.id,
+        channel_id: entry.channel_id,
+        conversation_id: entry.conversation_id,
+        sender_id: entry.sender_id,
+        content: entry.content,
+        detected_tone: null,
+        is_read: false,
+        status: 'sent',
+        delivered_at: null,
+        read_at: null,
+        file_url: entry.file_url,
+        file_type: entry.file_type,
+        file_name: entry.file_name,
+        edited_at: null,
+        deleted_at: null,
+        reply_to_id: entry.reply_to_id,
+        forwarded_from_id: entry.forwarded_from_id ?? null,
+        expires_at: null,
+        kind: entry.poll ? 'poll' : 'message',
+        link_preview: (entry.link_preview ?? null) as unknown as Json,
+        link_preview_disabled: entry.link_preview_disabled ?? false,
+        poll: (entry.poll ?? null) as unknown as Json,
+        created_at: entry.queued_at,
+    };
+}
+
+function handleOnline() {
+    // Connectivity is back, so restart the backoff from the first attempt
+    getOwnEntries().then(async (entries) => {
+        // Messages the server rejected would only fail again
+        for (const entry of entries.filter((e) => Number.isFinite(e.next_attempt_at))) {
+            await putEntry({ ...entry, attempts: 0, next_attempt_at: Date.now(), state: 'sending' });
+        }
+        await notifyChange();
+        flushOutbox();
+    });
+}
+
+/**
+ * Start delivering the outbox in the background
+ * Picks up anything left over from a previous session.
+ */
+export function startOutbox(userId: string) {
+    stopOutbox();
+    outboxUserId = userId;
+    window.addEventListener('online', handleOnline);
+    flushOutbox();
+}
+
+/**
+ * Stop background delivery; queued messages stay in IndexedDB
+ */
+export function stopOutbox() {
+    outboxUserId = null;
+    window.removeEventListener('online', handleOnline);
+
+    if (retryTimeout) {
+        clearTimeout(retryTimeout);
+        retryTimeout = null;
+    }
+}
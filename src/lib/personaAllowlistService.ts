@@ -0,0 +1,43 @@
+/**
+ * Persona Allowlist Service
+ * Limits which personas are used with a contact, e.g. only Professional with
+ * a manager. The database enforces the list; these helpers keep the UI from
+ * offering personas it would reject.
+ */
+
+import { supabase } from './supabase';
+
+/**
+ * Whether a persona may be used with a contact; a missing list allows all
+ */
+export function isPersonaAllowed(allowedPersonaIds: string[] | null | undefined, personaId: string): boolean {
+    return !allowedPersonaIds || allowedPersonaIds.includes(personaId);
+}
+
+/**
+ * The personas that may be used with a contact, in their usual order
+ */
+export function filterAllowedPersonas<P extends { id: string }>(
+    personas: P[],
+    allowedPersonaIds: string[] | null | undefined
+): P[] {
+    return personas.filter((persona) => isPersonaAllowed(allowedPersonaIds, persona.id));
+}
+
+/**
+ * Save a contact's allowlist; null allows every persona, including ones
+ * created later
+ */
+export async function setAllowedPersonas(contactId: string, personaIds: string[] | null): Promise<boolean> {
+    const { error } = await supabase
+        .from('contacts')
+        .update({ allowed_persona_ids: personaIds })
+        .eq('id', contactId);
+
+    if (error) {
+        console.error('Error updating contact personas:', error);
+        return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,274 @@
+/**
+ * Persona Bundle Service
+ * Exports personas as a versioned JSON bundle and imports bundles shared by
+ * others, e.g. a team's persona pack. Bundles carry how a persona looks and
+ * its settings, never channels or messages.
+ */
+
+import { supabase } from './supabase';
+import { isValidPersonaSchedule } from './personaScheduleService';
+import type { Database } from './database.types';
+
+type PersonaRow = Database['public']['Tables']['user_personas']['Row'];
+
+export const PERSONA_BUNDLE_FORMAT = 'persona-messenger/personas';
+export const PERSONA_BUNDLE_VERSION = 1;
+export const MAX_BUNDLE_PERSONAS = 50;
+
+const BUNDLE_FIELDS = [
+    'name',
+    'description',
+    'icon',
+    'color_primary',
+    'color_secondary',
+    'color_accent',
+    'rich_formatting',
+    'send_read_receipts',
+    'send_typing_indicators',
+    'mismatch_sensitivity',
+    'schedule',
+] as const;
+
+export type BundledPersona = Pick<PersonaRow, typeof BUNDLE_FIELDS[number]>;
+
+export interface PersonaBundle {
+    format: typeof PERSONA_BUNDLE_FORMAT;
+    version: number;
+    exported_at: string;
+    personas: BundledPersona[];
+}
+
+/** What to do with an imported persona whose name is taken */
+export type ClashResolution = 'rename' | 'replace' | 'skip';
+
+export interface PersonaImport {
+    persona: BundledPersona;
+    /** The user's persona with the same name, if any */
+    existing: Pick<PersonaRow, 'id' | 'name' | 'is_custom'> | null;
+    resolution: ClashResolution;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const ICON_NAME = /^[A-Z][A-Za-z0-9]{0,49}$/;
+const SENSITIVITIES = ['off', 'low', 'medium', 'high'];
+
+/**
+ * Build a bundle of the given personas, in the given order
+ */
+export async function createPersonaBundle(personaIds: string[]): Promise<PersonaBundle | null> {
+    const { data, error } = await supabase
+        .from('user_personas')
+        .select('*')
+        .in('id', personaIds);
+
+    if (error) {
+        console.error('Error exporting personas:', error);
+        return null;
+    }
+
+    const byId = new Map((data || []).map((row) => [row.id, row]));
+
+    return {
+        format: PERSONA_BUNDLE_FORMAT,
+        version: PERSONA_BUNDLE_VERSION,
+        exported_at: new Date().toISOString(),
+        personas: personaIds
+            .map((id) => byId.get(id))
+            .filter((row): row is PersonaRow => !!row)
+            .map((row) => Object.fromEntries(BUNDLE_FIELDS.map((field) => [field, row[field]])) as BundledPersona),
+    };
+}
+
+/**
+ * Save a bundle as a .json file
+ */
+export function downloadPersonaBundle(bundle: PersonaBundle) {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const name = bundle.personas.length === 1
+        ? bundle.personas[0].name.replace(/[^\w-]+/g, '-').toLowerCase()
+        : 'personas';
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}.persona.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function validatePersona(value: unknown, index: number): BundledPersona | string {
+    const where = `Persona ${index + 1}`;
+    if (!value || typeof value !== 'object') return `${where} is not an object`;
+
+    const p = value as Record<string, unknown>;
+    if (typeof p.name !== 'string' || !p.name.trim() || p.name.length > 50) {
+        return `${where} needs a name of 1 to 50 characters`;
+    }
+    if (p.description !== undefined && (typeof p.description !== 'string' || p.description.length > 500)) {
+        return `${where} ("${p.name}") has an invalid description`;
+    }
+    if (typeof p.icon !== 'string' || !ICON_NAME.test(p.icon)) {
+        return `${where} ("${p.name}") has an invalid icon`;
+    }
+    for (const color of ['color_primary', 'color_secondary', 'color_accent']) {
+        if (typeof p[color] !== 'string' || !HEX_COLOR.test(p[color] as string)) {
+            return `${where} ("${p.name}") needs ${color} as a #rrggbb color`;
+        }
+    }
+    for (const flag of ['rich_formatting', 'send_read_receipts', 'send_typing_indicators']) {
+        if (p[flag] !== undefined && typeof p[flag] !== 'boolean') {
+            return `${where} ("${p.name}") has an invalid ${flag}`;
+        }
+    }
+    if (p.mismatch_sensitivity !== undefined && !SENSITIVITIES.includes(p.mismatch_sensitivity as string)) {
+        return `${where} ("${p.name}") has an invalid mismatch_sensitivity`;
+    }
+    if (p.schedule !== undefined && p.schedule !== null && !isValidPersonaSchedule(p.schedule)) {
+        return `${where} ("${p.name}") has an invalid schedule`;
+    }
+
+    // Settings missing from a bundle get the same defaults as a new persona
+    return {
+        name: p.name.trim(),
+        description: (p.description as string | undefined) ?? '',
+        icon: p.icon,
+        color_primary: p.color_primary as string,
+        color_secondary: p.color_secondary as string,
+        color_accent: p.color_accent as string,
+        rich_formatting: (p.rich_formatting as boolean | undefined) ?? true,
+        send_read_receipts: (p.send_read_receipts as boolean | undefined) ?? true,
+        send_typing_indicators: (p.send_typing_indicators as boolean | undefined) ?? true,
+        mismatch_sensitivity: (p.mismatch_sensitivity as BundledPersona['mismatch_sensitivity'] | undefined) ?? 'medium',
+        schedule: (p.schedule as BundledPersona['schedule'] | undefined) ?? null,
+    };
+}
+
+/**
+ * Read and validate a bundle file
+ * Unknown fields are ignored so newer bundles of the same version still load.
+ */
+export function parsePersonaBundle(text: string): { personas: BundledPersona[] } | { error: string } {
+    let bundle: unknown;
+    try {
+        bundle = JSON.parse(text);
+    } catch {
+        return { error: 'This file is not valid JSON' };
+    }
+
+    if (!bundle || typeof bundle !== 'object' || (bundle as PersonaBundle).format !== PERSONA_BUNDLE_FORMAT) {
+        return { error: 'This is not a persona bundle' };
+    }
+
+    const { version, personas } = bundle as PersonaBundle;
+    if (typeof version !== 'number' || version > PERSONA_BUNDLE_VERSION) {
+        return { error: `This bundle is version ${version}; this app reads up to version ${PERSONA_BUNDLE_VERSION}` };
+    }
+    if (!Array.isArray(personas) || personas.length === 0) {
+        return { error: 'This bundle has no personas' };
+    }
+    if (personas.length > MAX_BUNDLE_PERSONAS) {
+        return { error: `A bundle can have at most ${MAX_BUNDLE_PERSONAS} personas` };
+    }
+
+    const valid: BundledPersona[] = [];
+    for (const [index, value] of personas.entries()) {
+        const result = validatePersona(value, index);
+        if (typeof result === 'string') return { error: result };
+        valid.push(result);
+    }
+
+    return { personas: valid };
+}
+
+/**
+ * A name not used by any of the given names, e.g. "Work (2)"
+ */
+export function getUniquePersonaName(name: string, taken: string[]): string {
+    const names = new Set(taken.map((n) => n.toLowerCase()));
+    if (!names.has(name.toLowerCase())) return name;
+
+    let n = 2;
+    while (names.has(`${name} (${n})`.toLowerCase())) n++;
+    return `${name} (${n})`;
+}
+
+/**
+ * Match bundled personas with the user's personas by name
+ * Clashing names are renamed by default.
+ */
+export async function planPersonaImport(
+    userId: string,
+    personas: BundledPersona[]
+): Promise<{ imports: PersonaImport[]; existingNames: string[] }> {
+    const { data, error } = await supabase
+        .from('user_personas')
+        .select('id, name, is_custom')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error loading personas for import:', error);
+    }
+
+    const existing = data || [];
+    return {
+        imports: personas.map((persona) => ({
+            persona,
+            existing: existing.find((p) => p.name.toLowerCase() === persona.name.toLowerCase()) ?? null,
+            resolution: 'rename',
+        })),
+        existingNames: existing.map((p) => p.name),
+    };
+}
+
+/**
+ * The name a persona will be saved under, after renames for clashes with
+ * the user's personas and with personas earlier in the same import
+ */
+export function resolveImportNames(imports: PersonaImport[], existingNames: string[]): (string | null)[] {
+    const taken = [...existingNames];
+
+    return imports.map((item) => {
+        if (item.resolution === 'skip') return null;
+        if (item.resolution === 'replace' && item.existing) return item.existing.name;
+
+        const name = getUniquePersonaName(item.persona.name, taken);
+        taken.push(name);
+        return name;
+    });
+}
+
+/**
+ * Save an import: new personas are created as custom personas, and replaced
+ * ones keep their channels and messages but take the bundle's look and settings
+ * Returns the number of personas saved, or an error message.
+ */
+export async function importPersonas(
+    userId: string,
+    imports: PersonaImport[],
+    existingNames: string[]
+): Promise<{ saved: number } | { error: string }> {
+    const names = resolveImportNames(imports, existingNames);
+    let saved = 0;
+
+    for (const [index, item] of imports.entries()) {
+        const name = names[index];
+        if (name === null) continue;
+
+        const { error } = item.resolution === 'replace' && item.existing
+            ? await supabase
+                .from('user_personas')
+                .update({ ...item.persona, name })
+                .eq('id', item.existing.id)
+            : await supabase
+                .from('user_personas')
+                .insert({ ...item.persona, name, user_id: userId, is_custom: true });
+
+        if (error) {
+            console.error('Error importing persona:', error);
+            return { error: `Could not import "${item.persona.name}"; ${saved} of ${imports.length} saved` };
+        }
+        saved++;
+    }
+
+    return { saved };
+}
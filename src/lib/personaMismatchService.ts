@@ -0,0 +1,85 @@
+/**
+ * Persona Mismatch Service
+ * Checks a draft against the register its persona is for, so a formal work
+ * note doesn't go out in "Romantic" or slang in "Professional". The draft is
+ * scored with the local tone lexicon, before anything leaves the device.
+ */
+
+import { scoreToneLocally, type MessageTone } from './toneService';
+import type { MismatchSensitivity } from './personaService';
+
+type RegisterTone = Extract<MessageTone, 'formal' | 'playful' | 'affectionate'>;
+
+export interface RegisterPersona {
+    id: string;
+    name: string;
+    description: string;
+}
+
+export interface PersonaMismatch<P extends RegisterPersona = RegisterPersona> {
+    tone: RegisterTone;
+    /** A persona the draft fits better, if the user has one */
+    suggestion: P | null;
+}
+
+export const MISMATCH_SENSITIVITY_OPTIONS: { value: MismatchSensitivity; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'low', label: 'Low: only clear mismatches' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'high', label: 'High: any hint of a mismatch' },
+];
+
+// Lexicon cues the draft needs before it counts as a mismatch
+const MIN_SCORE: Record<Exclude<MismatchSensitivity, 'off'>, number> = {
+    low: 3,
+    medium: 2,
+    high: 1,
+};
+
+// What a persona is for, read from its name and description
+const REGISTER_KEYWORDS: Record<RegisterTone, RegExp> = {
+    formal: /\b(professional|work|business|formal|office|colleagues?|clients?|career|study|school|serious)\b/i,
+    playful: /\b(fun|gaming|games?|casual|playful|humou?r|banter|friends?|party|jokes?)\b/i,
+    affectionate: /\b(romantic|romance|love|affection|partner|dating|intimate|family|warm)\b/i,
+};
+
+// Tones that don't belong in a persona with this register
+const CLASHES: Record<RegisterTone, RegisterTone[]> = {
+    formal: ['playful', 'affectionate'],
+    playful: ['formal'],
+    affectionate: ['formal'],
+};
+
+/**
+ * The tones a persona is meant for; empty when its name and description
+ * don't say, e.g. for many custom personas
+ */
+export function getPersonaRegister(persona: RegisterPersona): RegisterTone[] {
+    const text = `${persona.name} ${persona.description}`;
+    return (Object.keys(REGISTER_KEYWORDS) as RegisterTone[]).filter((tone) => REGISTER_KEYWORDS[tone].test(text));
+}
+
+/**
+ * Check whether a draft clashes with the persona it is about to be sent in
+ * Returns null when it fits, when the persona's register is unknown, or when
+ * the persona's sensitivity is off.
+ */
+export function checkPersonaMismatch<P extends RegisterPersona>(
+    draft: string,
+    persona: RegisterPersona,
+    personas: P[],
+    sensitivity: MismatchSensitivity
+): PersonaMismatch<P> | null {
+    if (sensitivity === 'off') return null;
+
+    const register = getPersonaRegister(persona);
+    if (register.length === 0) return null;
+
+    const { tone, score } = scoreToneLocally(draft);
+    if (tone !== 'formal' && tone !== 'playful' && tone !== 'affectionate') return null;
+    if (score < MIN_SCORE[sensitivity] || register.includes(tone)) return null;
+    if (!register.some((expected) => CLASHES[expected].includes(tone))) return null;
+
+    const suggestion = personas.find((p) => p.id !== persona.id && getPersonaRegister(p).includes(tone)) ?? null;
+    return { tone, suggestion };
+}
@@ -0,0 +1,86 @@
+/**
+ * Persona Request Service
+ * Opening a chat with someone who hasn't added you, or who has no persona
+ * with the same name, sends them a request instead of creating anything in
+ * their account. They see the conversation once they accept.
+ */
+
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+export type PersonaRequest = Database['public']['Functions']['get_persona_requests']['Returns'][number];
+
+/**
+ * Get the requests waiting for the current user, newest first
+ */
+export async function fetchPersonaRequests(): Promise<PersonaRequest[]> {
+    const { data, error } = await supabase.rpc('get_persona_requests');
+
+    if (error) {
+        console.error('Error fetching persona requests:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Accept a request and join its conversation
+ * Without a persona, the one with the same name as the sender's is used, or
+ * a matching persona is created. Returns the contact and persona to open.
+ */
+export async function acceptPersonaRequest(
+    requestId: string,
+    personaId?: string
+): Promise<{ contact_id: string; persona_id: string } | null> {
+    const { data, error } = await supabase
+        .rpc('accept_persona_request', {
+            p_request_id: requestId,
+            p_persona_id: personaId,
+        })
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error accepting persona request:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Ignore a request; the sender is not told
+ */
+export async function ignorePersonaRequest(requestId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('persona_requests')
+        .delete()
+        .eq('id', requestId);
+
+    if (error) {
+        console.error('Error ignoring persona request:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Subscribe to requests arriving for or being removed from the user
+ */
+export function subscribeToPersonaRequests(userId: string, onChange: () => void): RealtimeChannel {
+    return supabase
+        .channel(`persona-requests:${userId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: '*',
+                schema: 'public',
+                table: 'persona_requests',
+                filter: `to_user_id=eq.${userId}`,
+            },
+            onChange
+        )
+        .subscribe();
+}
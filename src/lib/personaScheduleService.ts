@@ -0,0 +1,223 @@
+/**
+ * Persona Schedule Service
+ * Weekly availability windows for personas, e.g. "Professional" on weekdays
+ * 9:00-18:00. Times are read in the schedule's own timezone, so a schedule
+ * keeps meaning the same hours when the user travels.
+ */
+
+import { supabase } from './supabase';
+import type { Json } from './database.types';
+
+export interface ScheduleWindow {
+    /** 0 = Sunday */
+    day: number;
+    /** Minutes from midnight; an end that is not after the start runs past midnight */
+    start: number;
+    end: number;
+}
+
+export interface PersonaSchedule {
+    timezone: string;
+    /** Outside its windows, hide the persona or show it marked "off-hours" */
+    off_hours: 'hide' | 'mark';
+    windows: ScheduleWindow[];
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MAX_SCHEDULE_WINDOWS = 28;
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export const SCHEDULE_PRESETS: { label: string; windows: ScheduleWindow[] }[] = [
+    {
+        label: 'Weekdays 9–6',
+        windows: [1, 2, 3, 4, 5].map((day) => ({ day, start: 9 * 60, end: 18 * 60 })),
+    },
+    {
+        label: 'Evenings',
+        windows: [0, 1, 2, 3, 4, 5, 6].map((day) => ({ day, start: 18 * 60, end: 24 * 60 })),
+    },
+    {
+        label: 'Weekends',
+        windows: [0, 6].map((day) => ({ day, start: 0, end: 24 * 60 })),
+    },
+];
+
+/**
+ * The user's own timezone, the default for new schedules
+ */
+export function getLocalTimezone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Timezones to choose from, with the user's own first
+ */
+export function getTimezoneOptions(): string[] {
+    const local = getLocalTimezone();
+    const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? ['UTC'];
+    return [local, ...supported.filter((zone) => zone !== local)];
+}
+
+export function isValidScheduleWindow(window: unknown): window is ScheduleWindow {
+    if (!window || typeof window !== 'object') return false;
+    const { day, start, end } = window as Record<string, unknown>;
+    return Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6 &&
+        Number.isInteger(start) && (start as number) >= 0 && (start as number) <= 1439 &&
+        Number.isInteger(end) && (end as number) >= 1 && (end as number) <= 1440 &&
+        start !== end;
+}
+
+/**
+ * Whether a value is a schedule the database accepts, e.g. from a bundle
+ */
+export function isValidPersonaSchedule(value: unknown): value is PersonaSchedule {
+    if (!value || typeof value !== 'object') return false;
+    const { timezone, off_hours, windows } = value as Record<string, unknown>;
+    return typeof timezone === 'string' && timezone.length >= 1 && timezone.length <= 64 &&
+        (off_hours === 'hide' || off_hours === 'mark') &&
+        Array.isArray(windows) && windows.length <= MAX_SCHEDULE_WINDOWS &&
+        windows.every(isValidScheduleWindow);
+}
+
+/**
+ * Read a stored schedule; null means the persona is always available
+ */
+export function getPersonaSchedule(value: Json | null | undefined): PersonaSchedule | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+    const schedule = value as unknown as PersonaSchedule;
+    if (typeof schedule.timezone !== 'string' || !Array.isArray(schedule.windows)) return null;
+
+    return {
+        timezone: schedule.timezone,
+        off_hours: schedule.off_hours === 'hide' ? 'hide' : 'mark',
+        windows: schedule.windows.filter(isValidScheduleWindow),
+    };
+}
+
+function getZonedTime(date: Date, timezone: string): { day: number; minute: number } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(date);
+    } catch {
+        // Unknown timezone, e.g. from another device's browser
+        return { day: date.getDay(), minute: date.getHours() * 60 + date.getMinutes() };
+    }
+
+    const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '0';
+    return {
+        day: WEEKDAY_INDEX[get('weekday')] ?? date.getDay(),
+        minute: Number(get('hour')) * 60 + Number(get('minute')),
+    };
+}
+
+/**
+ * Whether a persona is inside one of its windows
+ */
+export function isWithinSchedule(schedule: PersonaSchedule | null, now: Date = new Date()): boolean {
+    if (!schedule) return true;
+
+    const { day, minute } = getZonedTime(now, schedule.timezone);
+    return schedule.windows.some((window) => {
+        if (window.end > window.start) {
+            return window.day === day && minute >= window.start && minute < window.end;
+        }
+        // Overnight: the evening part on its own day, the rest the next morning
+        return (window.day === day && minute >= window.start) || ((window.day + 1) % 7 === day && minute < window.end);
+    });
+}
+
+/**
+ * Whether a persona row is available now
+ */
+export function isPersonaAvailable(persona: { schedule?: Json | null }, now: Date = new Date()): boolean {
+    return isWithinSchedule(getPersonaSchedule(persona.schedule), now);
+}
+
+/**
+ * The persona to open chats in: the first one that is available now,
+ * or the first one if all are off-hours
+ */
+export function pickDefaultPersona<P extends { schedule?: Json | null }>(personas: P[], now: Date = new Date()): P | null {
+    return personas.find((persona) => isPersonaAvailable(persona, now)) ?? personas[0] ?? null;
+}
+
+/**
+ * Save a persona's schedule; null makes it always available
+ */
+export async function setPersonaSchedule(personaId: string, schedule: PersonaSchedule | null): Promise<boolean> {
+    const { error } = await supabase
+        .from('user_personas')
+        .update({ schedule: schedule as unknown as Json })
+        .eq('id', personaId);
+
+    if (error) {
+        console.error('Error updating persona schedule:', error);
+        return false;
+    }
+
+    return true;
+}
+
+export function formatScheduleTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60) % 24;
+    return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Parse an <input type="time"> value; "00:00" as an end means midnight
+ */
+export function parseScheduleTime(value: string, isEnd = false): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    const total = (hours || 0) * 60 + (minutes || 0);
+    return isEnd && total === 0 ? 24 * 60 : total;
+}
+
+// ============================================================================
+// Held notifications
+// ============================================================================
+
+interface HeldNotification {
+    personaId: string;
+    personaName: string;
+    senderName: string;
+}
+
+// Kept for this session only; a reload shows the unread counts instead
+let heldNotifications: HeldNotification[] = [];
+
+/**
+ * Keep a notification for a persona that is off-hours
+ */
+export function holdNotification(notification: HeldNotification) {
+    heldNotifications.push(notification);
+}
+
+/**
+ * Take the held notifications of personas that are available again,
+ * summarized per persona, e.g. "3 messages from Sam and Alex"
+ */
+export function releaseHeldNotifications(
+    isAvailable: (personaId: string) => boolean
+): { personaId: string; personaName: string; count: number; senders: string[] }[] {
+    const ready = heldNotifications.filter((n) => isAvailable(n.personaId));
+    if (ready.length === 0) return [];
+
+    heldNotifications = heldNotifications.filter((n) => !isAvailable(n.personaId));
+
+    const summaries = new Map<string, { personaId: string; personaName: string; count: number; senders: string[] }>();
+    for (const n of ready) {
+        const summary = summaries.get(n.personaId) ?? { personaId: n.personaId, personaName: n.personaName, count: 0, senders: [] };
+        summary.count++;
+        if (!summary.senders.includes(n.senderName)) summary.senders.push(n.senderName);
+        summaries.set(n.personaId, summary);
+    }
+    return Array.from(summaries.values());
+}
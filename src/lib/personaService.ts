@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+/**
+ * Whether rich formatting (Markdown) is on for a persona
+ * Defaults to on if the setting cannot be loaded.
+ */
+export async function getRichFormatting(personaId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('user_personas')
+        .select('rich_formatting')
+        .eq('id', personaId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching persona formatting:', error);
+        return true;
+    }
+
+    return data?.rich_formatting ?? true;
+}
+
+/**
+ * Turn rich formatting on or off for a persona
+ */
+export async function setRichFormatting(personaId: string, enabled: boolean): Promise<boolean> {
+    const { error } = await supabase
+        .from('user_personas')
+        .update({ rich_formatting: enabled })
+        .eq('id', personaId);
+
+    if (error) {
+        console.error('Error updating persona formatting:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/** Whether a persona shares read receipts and typing indicators */
+export interface PersonaPrivacy {
+    send_read_receipts: boolean;
+    send_typing_indicators: boolean;
+}
+
+const DEFAULT_PRIVACY: PersonaPrivacy = {
+    send_read_receipts: true,
+    send_typing_indicators: true,
+};
+
+/**
+ * Get a persona's privacy settings
+ * Both are reciprocal: hiding your own receipts or typing also hides theirs.
+ */
+export async function getPersonaPrivacy(personaId: string): Promise<PersonaPrivacy> {
+    const { data, error } = await supabase
+        .from('user_personas')
+        .select('send_read_receipts, send_typing_indicators')
+        .eq('id', personaId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching persona privacy:', error);
+        return DEFAULT_PRIVACY;
+    }
+
+    return data ?? DEFAULT_PRIVACY;
+}
+
+/**
+ * Update one or both of a persona's privacy settings
+ */
+export async function setPersonaPrivacy(personaId: string, privacy: Partial<PersonaPrivacy>): Promise<boolean> {
+    const { error } = await supabase
+        .from('user_personas')
+        .update(privacy)
+        .eq('id', personaId);
+
+    if (error) {
+        console.error('Error updating persona privacy:', error);
+        return false;
+    }
+
+    return true;
+}
+
+export type MismatchSensitivity = Database['public']['Tables']['user_personas']['Row']['mismatch_sensitivity'];
+
+/**
+ * How readily a persona warns about drafts that don't fit it
+ * Defaults to medium if the setting cannot be loaded.
+ */
+export async function getMismatchSensitivity(personaId: string): Promise<MismatchSensitivity> {
+    const { data, error } = await supabase
+        .from('user_personas')
+        .select('mismatch_sensitivity')
+        .eq('id', personaId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching persona mismatch sensitivity:', error);
+        return 'medium';
+    }
+
+    return data?.mismatch_sensitivity ?? 'medium';
+}
@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+export type PinnedMessage = Database['public']['Tables']['pinned_messages']['Row'];
+
+/** Kept in sync with the limit in prepare_pinned_message() */
+export const MAX_PINNED_MESSAGES = 3;
+
+/**
+ * Get the pins in a conversation, oldest first
+ */
+export async function fetchPinnedMessages(conversationId: string): Promise<PinnedMessage[]> {
+    const { data, error } = await supabase
+        .from('pinned_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching pinned messages:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Pin a message for everyone in the conversation
+ * Returns an error message when the pin could not be added.
+ */
+export async function pinMessage(messageId: string, userId: string): Promise<string | null> {
+    const { error } = await supabase
+        .from('pinned_messages')
+        .insert({
+            message_id: messageId,
+            pinned_by: userId,
+        });
+
+    // Already pinned by the other side
+    if (error && error.code === '23505') return null;
+
+    if (error) {
+        console.error('Error pinning message:', error);
+        return error.code === '23514'
+            ? `You can pin up to ${MAX_PINNED_MESSAGES} messages. Unpin one first.`
+            : 'Could not pin message';
+    }
+
+    return null;
+}
+
+/**
+ * Unpin a message
+ */
+export async function unpinMessage(messageId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('pinned_messages')
+        .delete()
+        .eq('message_id', messageId);
+
+    if (error) {
+        console.error('Error unpinning message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Subscribe to pins being added or removed in a conversation
+ */
+export function subscribeToPins(
+    conversationId: string,
+    onPinned: (pin: PinnedMessage) => void,
+    onUnpinned: (pin: PinnedMessage) => void
+): RealtimeChannel {
+    const channel = supabase
+        .channel(`pins:${conversationId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: 'INSERT',
+                schema: 'public',
+                table: 'pinned_messages',
+                filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+                onPinned(payload.new as PinnedMessage);
+            }
+        )
+        .on(
+            'postgres_changes',
+            {
+                event: 'DELETE',
+                schema: 'public',
+                table: 'pinned_messages',
+                filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+                onUnpinned(payload.old as PinnedMessage);
+            }
+        )
+        .subscribe();
+
+    return channel;
+}
@@ -0,0 +1,174 @@
+/**
+ * Poll Service
+ * Polls are messages of kind 'poll' whose definition is stored on the message.
+ * Votes are cast through the cast_poll_vote RPC; live results come from the
+ * per-poll tally row, so anonymous polls never reveal who voted.
+ */
+
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import type { MessageRow } from './messageService';
+
+export type PollVote = Database['public']['Tables']['poll_votes']['Row'];
+export type PollTally = Database['public']['Tables']['poll_tallies']['Row'];
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+export interface Poll {
+    question: string;
+    options: string[];
+    /** Voters may pick more than one option */
+    multiple: boolean;
+    /** Only counts are shown, never who voted for what */
+    anonymous: boolean;
+    /** ISO timestamp after which no more votes are accepted */
+    closes_at: string | null;
+}
+
+/** Tally and visible votes for one poll */
+export interface PollResults {
+    tally: PollTally | null;
+    /** Named votes, plus the current user's own votes in anonymous polls */
+    votes: PollVote[];
+}
+
+export interface PollOptionSummary {
+    label: string;
+    count: number;
+    /** Share of voters who picked this option, 0-1 */
+    share: number;
+    /** Empty for anonymous polls */
+    voterIds: string[];
+    votedByMe: boolean;
+    leading: boolean;
+}
+
+export interface PollSummary {
+    options: PollOptionSummary[];
+    voterCount: number;
+    hasVoted: boolean;
+}
+
+/**
+ * Get the poll stored on a message, if it is a poll
+ */
+export function getPoll(message: Pick<MessageRow, 'kind' | 'poll'>): Poll | null {
+    if (message.kind !== 'poll' || !message.poll || typeof message.poll !== 'object') return null;
+    return message.poll as unknown as Poll;
+}
+
+/**
+ * Whether a poll no longer accepts votes
+ */
+export function isPollClosed(poll: Poll, now: Date = new Date()): boolean {
+    return !!poll.closes_at && new Date(poll.closes_at) <= now;
+}
+
+/**
+ * Message text for a poll, used for previews, notifications and search
+ */
+export function getPollContent(poll: Poll): string {
+    return `📊 ${poll.question}`;
+}
+
+/**
+ * Fetch the tallies and visible votes for a set of poll messages
+ */
+export async function fetchPollResults(messageIds: string[]): Promise<Map<string, PollResults>> {
+    const results = new Map<string, PollResults>();
+    if (messageIds.length === 0) return results;
+
+    const [talliesResult, votesResult] = await Promise.all([
+        supabase.from('poll_tallies').select('*').in('message_id', messageIds),
+        supabase.from('poll_votes').select('*').in('message_id', messageIds),
+    ]);
+
+    const error = talliesResult.error ?? votesResult.error;
+    if (error) {
+        console.error('Error fetching poll results:', error);
+        return results;
+    }
+
+    for (const id of messageIds) {
+        results.set(id, {
+            tally: talliesResult.data?.find((t) => t.message_id === id) ?? null,
+            votes: (votesResult.data || []).filter((v) => v.message_id === id),
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Replace your votes on a poll; an empty list withdraws your vote
+ * Returns an error message when the vote was rejected, e.g. because the poll closed.
+ */
+export async function castPollVote(messageId: string, optionIndexes: number[]): Promise<string | null> {
+    const { error } = await supabase.rpc('cast_poll_vote', {
+        p_message_id: messageId,
+        p_options: optionIndexes,
+    });
+
+    if (error) {
+        console.error('Error casting poll vote:', error);
+        return error.message || 'Could not save your vote';
+    }
+
+    return null;
+}
+
+/**
+ * Subscribe to votes being cast in a conversation's polls
+ */
+export function subscribeToPollTallies(
+    conversationId: string,
+    onChange: (tally: PollTally) => void
+): RealtimeChannel {
+    return supabase
+        .channel(`poll-tallies:${conversationId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: '*',
+                schema: 'public',
+                table: 'poll_tallies',
+                filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+                onChange(payload.new as PollTally);
+            }
+        )
+        .subscribe();
+}
+
+/**
+ * Combine a poll with its results for display
+ */
+export function summarizePoll(poll: Poll, results: PollResults | undefined, currentUserId: string): PollSummary {
+    const votes = results?.votes || [];
+    const counts = results?.tally?.counts || [];
+    const voterCount = results?.tally?.voter_count || 0;
+    const topCount = Math.max(0, ...counts);
+
+    const options = poll.options.map((label, index) => {
+        const optionVotes = votes.filter((v) => v.option_index === index);
+        const count = counts[index] || 0;
+
+        return {
+            label,
+            count,
+            share: voterCount > 0 ? count / voterCount : 0,
+            voterIds: poll.anonymous ? [] : optionVotes.map((v) => v.user_id),
+            votedByMe: optionVotes.some((v) => v.user_id === currentUserId),
+            leading: count > 0 && count === topCount,
+        };
+    });
+
+    return {
+        options,
+        voterCount,
+        hasVoted: options.some((o) => o.votedByMe),
+    };
+}
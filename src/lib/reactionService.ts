@@ -0,0 +1,156 @@
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+export type MessageReaction = Database['public']['Tables']['message_reactions']['Row'];
+
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+    userIds: string[];
+    reactedByMe: boolean;
+}
+
+const DEFAULT_QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢'];
+
+// Quick reaction rows for the built-in personas, keyed by lowercase name
+const PERSONA_QUICK_REACTIONS: Record<string, string[]> = {
+    fun: ['😂', '🤣', '🔥', '🎉', '😜'],
+    serious: ['👍', '🤔', '🙏', '💯', '✅'],
+    professional: ['👍', '✅', '👀', '🙏', '📌'],
+    personal: ['❤️', '🤗', '🥺', '🙏', '😊'],
+    romantic: ['❤️', '😍', '😘', '🥰', '💕'],
+    family: ['❤️', '🤗', '😊', '👏', '🏡'],
+    study: ['💡', '📚', '🤓', '✅', '❓'],
+    gaming: ['🎮', '🔥', '💀', '🏆', '😂'],
+};
+
+/**
+ * Get the quick reaction row for a persona
+ * Custom personas fall back to a general-purpose set
+ */
+export function getQuickReactions(personaName: string): string[] {
+    return PERSONA_QUICK_REACTIONS[personaName.trim().toLowerCase()] || DEFAULT_QUICK_REACTIONS;
+}
+
+/**
+ * Fetch all reactions for a set of messages
+ */
+export async function fetchReactions(messageIds: string[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('message_reactions')
+        .select('*')
+        .in('message_id', messageIds)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching reactions:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Add a reaction to a message
+ */
+export async function addReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('message_reactions')
+        .insert({
+            message_id: messageId,
+            user_id: userId,
+            emoji,
+        });
+
+    // Already reacted with this emoji
+    if (error && error.code !== '23505') {
+        console.error('Error adding reaction:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Remove your reaction from a message
+ */
+export async function removeReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('message_reactions')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('user_id', userId)
+        .eq('emoji', emoji);
+
+    if (error) {
+        console.error('Error removing reaction:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Subscribe to reactions being added or removed in a conversation
+ */
+export function subscribeToReactions(
+    conversationId: string,
+    onAdded: (reaction: MessageReaction) => void,
+    onRemoved: (reaction: MessageReaction) => void
+): RealtimeChannel {
+    const channel = supabase
+        .channel(`reactions:${conversationId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: 'INSERT',
+                schema: 'public',
+                table: 'message_reactions',
+                filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+                onAdded(payload.new as MessageReaction);
+            }
+        )
+        .on(
+            'postgres_changes',
+            {
+                event: 'DELETE',
+                schema: 'public',
+                table: 'message_reactions',
+                filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+                onRemoved(payload.old as MessageReaction);
+            }
+        )
+        .subscribe();
+
+    return channel;
+}
+
+/**
+ * Group a message's reactions by emoji, in order of first use
+ */
+export function summarizeReactions(reactions: MessageReaction[], currentUserId: string): ReactionSummary[] {
+    const summaries = new Map<string, ReactionSummary>();
+
+    for (const reaction of reactions) {
+        const summary = summaries.get(reaction.emoji) || {
+            emoji: reaction.emoji,
+            count: 0,
+            userIds: [],
+            reactedByMe: false,
+        };
+
+        summary.count += 1;
+        summary.userIds.push(reaction.user_id);
+        summary.reactedByMe = summary.reactedByMe || reaction.user_id === currentUserId;
+        summaries.set(reaction.emoji, summary);
+    }
+
+    return Array.from(summaries.values());
+}
@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+export type ScheduledMessage = Database['public']['Tables']['scheduled_messages']['Row'];
+
+/**
+ * Get the scheduled messages on a channel that have not been delivered yet
+ */
+export async function fetchScheduledMessages(channelId: string): Promise<ScheduledMessage[]> {
+    const { data, error } = await supabase
+        .from('scheduled_messages')
+        .select('*')
+        .eq('channel_id', channelId)
+        .neq('status', 'sent')
+        .order('send_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching scheduled messages:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Schedule a message to be delivered by the server at sendAt
+ */
+export async function scheduleMessage(message: {
+    channelId: string;
+    senderId: string;
+    content: string;
+    sendAt: Date;
+    replyToId?: string | null;
+}): Promise<ScheduledMessage | null> {
+    const { data, error } = await supabase
+        .from('scheduled_messages')
+        .insert({
+            channel_id: message.channelId,
+            sender_id: message.senderId,
+            content: message.content,
+            reply_to_id: message.replyToId ?? null,
+            send_at: message.sendAt.toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error scheduling message:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Change the text or delivery time of a scheduled message
+ * Editing a failed message queues it again.
+ */
+export async function updateScheduledMessage(
+    id: string,
+    updates: { content: string; sendAt: Date }
+): Promise<boolean> {
+    const { error } = await supabase
+        .from('scheduled_messages')
+        .update({
+            content: updates.content,
+            send_at: updates.sendAt.toISOString(),
+            status: 'pending',
+        })
+        .eq('id', id);
+
+    if (error) {
+        console.error('Error updating scheduled message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Cancel a scheduled message before it is sent
+ */
+export async function cancelScheduledMessage(id: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('scheduled_messages')
+        .delete()
+        .eq('id', id);
+
+    if (error) {
+        console.error('Error cancelling scheduled message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Subscribe to scheduled messages on a channel being added, edited, sent or cancelled
+ */
+export function subscribeToScheduledMessages(
+    channelId: string,
+    callback: () => void
+): RealtimeChannel {
+    const channel = supabase
+        .channel(`scheduled:${channelId}`)
+        .on(
+            'postgres_changes',
+            {
+                event: '*',
+                schema: 'public',
+                table: 'scheduled_messages',
+                filter: `channel_id=eq.${channelId}`,
+            },
+            () => {
+                callback();
+            }
+        )
+        .subscribe();
+
+    return channel;
+}
+
+/**
+ * Quick delivery options: later today, tomorrow morning and next Monday morning
+ */
+export function getScheduleSuggestions(now: Date = new Date()): { label: string; date: Date }[] {
+    const suggestions: { label: string; date: Date }[] = [];
+
+    const inOneHour = new Date(now.getTime() + 60 * 60 * 1000);
+    inOneHour.setSeconds(0, 0);
+    suggestions.push({ label: 'In 1 hour', date: inOneHour });
+
+    const tomorrow = new Date(now);
+    tomorrow.setDate(now.getDate() + 1);
+    tomorrow.setHours(9, 0, 0, 0);
+    suggestions.push({ label: 'Tomorrow 9:00', date: tomorrow });
+
+    const monday = new Date(now);
+    monday.setDate(now.getDate() + (((8 - now.getDay()) % 7) || 7));
+    monday.setHours(9, 0, 0, 0);
+    if (monday.getTime() !== tomorrow.getTime()) {
+        suggestions.push({ label: 'Monday 9:00', date: monday });
+    }
+
+    return suggestions;
+}
+
+/**
+ * Format a date for a datetime-local input in the user's timezone
+ */
+export function toDateTimeLocalValue(date: Date): string {
+    const offset = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Parse a short delivery time: "30m", "2h", "3d", "tomorrow", a weekday
+ * ("mon", "friday") or a time of day ("17:30", "9am"). Days without a time
+ * mean 9:00, and a time that has already passed today means tomorrow.
+ * Returns null if the text is not understood or not in the future.
+ */
+export function parseScheduleTime(text: string, now: Date = new Date()): Date | null {
+    const value = text.trim().toLowerCase();
+
+    const duration = value.match(/^(\d+)\s*(m|min|h|d)$/);
+    if (duration) {
+        const minutes = { m: 1, min: 1, h: 60, d: 24 * 60 }[duration[2] as 'm' | 'min' | 'h' | 'd'];
+        const date = new Date(now.getTime() + Number(duration[1]) * minutes * 60 * 1000);
+        date.setSeconds(0, 0);
+        return date.getTime() > now.getTime() ? date : null;
+    }
+
+    const time = value.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+    if (time && (time[2] || time[3])) {
+        let hours = Number(time[1]);
+        const minutes = Number(time[2] ?? 0);
+        if (time[3] && (hours < 1 || hours > 12)) return null;
+        if (time[3]) hours = (hours % 12) + (time[3] === 'pm' ? 12 : 0);
+        if (hours > 23 || minutes > 59) return null;
+
+        const date = new Date(now);
+        date.setHours(hours, minutes, 0, 0);
+        if (date.getTime() <= now.getTime()) {
+            date.setDate(date.getDate() + 1);
+        }
+        return date;
+    }
+
+    if (value === 'tomorrow') {
+        const date = new Date(now);
+        date.setDate(now.getDate() + 1);
+        date.setHours(9, 0, 0, 0);
+        return date;
+    }
+
+    const weekday = value.length >= 3 ? WEEKDAYS.findIndex((day) => day.startsWith(value)) : -1;
+    if (weekday !== -1) {
+        const date = new Date(now);
+        date.setDate(now.getDate() + (((weekday - now.getDay() + 7) % 7) || 7));
+        date.setHours(9, 0, 0, 0);
+        return date;
+    }
+
+    return null;
+}
@@ -0,0 +1,211 @@
+/**
+ * Slash Command Service
+ * A registry of composer commands such as /gif or /schedule. Typing "/" in
+ * the composer lists them; a message that starts with a command runs it
+ * instead of being sent. Features add their own with registerSlashCommand.
+ */
+
+import { parseScheduleTime } from './scheduledMessageService';
+
+export interface SlashCommandArg {
+    name: string;
+    required?: boolean;
+    /** Takes the rest of the input, spaces included; only valid as the last argument */
+    rest?: boolean;
+}
+
+/** What a command can do in the chat it was typed in */
+export interface SlashCommandContext {
+    send: (content: string) => Promise<void>;
+    openGifPicker: (query: string) => void;
+    /** Returns an error message if the persona can't be used here */
+    switchPersona: (name: string) => string | null;
+    schedule: (content: string, sendAt: Date) => Promise<boolean>;
+    openPollComposer: (question: string) => void;
+}
+
+export interface SlashCommand {
+    name: string;
+    description: string;
+    args?: SlashCommandArg[];
+    /** An example of the arguments, shown in the inline help */
+    example?: string;
+    /** Returns an error message to show in the composer, or nothing on success */
+    run: (args: Record<string, string>, context: SlashCommandContext) => string | null | void | Promise<string | null | void>;
+}
+
+/** A command typed in the composer, before its arguments are parsed */
+export interface ParsedSlashCommand {
+    name: string;
+    argText: string;
+    /** The name is complete, i.e. followed by a space */
+    complete: boolean;
+}
+
+const commands = new Map<string, SlashCommand>();
+
+/**
+ * Add a command, replacing any with the same name
+ * Returns a function that removes it again.
+ */
+export function registerSlashCommand(command: SlashCommand): () => void {
+    commands.set(command.name, command);
+    return () => {
+        if (commands.get(command.name) === command) {
+            commands.delete(command.name);
+        }
+    };
+}
+
+export function getSlashCommand(name: string): SlashCommand | undefined {
+    return commands.get(name.toLowerCase());
+}
+
+/**
+ * Commands whose name starts with a prefix, alphabetically
+ */
+export function findSlashCommands(prefix: string): SlashCommand[] {
+    const needle = prefix.toLowerCase();
+    return Array.from(commands.values())
+        .filter((command) => command.name.startsWith(needle))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split composer input into a command name and its arguments
+ * Returns null for ordinary text, including paths like "/usr/bin" and text
+ * starting with "//", which is sent with one slash removed.
+ */
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+    const match = input.match(/^\/([a-z][\w-]*)(\s+[\s\S]*)?$/i);
+    if (!match) return null;
+
+    return {
+        name: match[1].toLowerCase(),
+        argText: (match[2] ?? '').trim(),
+        complete: match[2] !== undefined,
+    };
+}
+
+/**
+ * Usage line for a command, e.g. "/schedule <when> <message>"
+ */
+export function formatSlashCommandUsage(command: SlashCommand): string {
+    const args = (command.args ?? []).map((arg) => (arg.required ? `<${arg.name}>` : `[${arg.name}]`));
+    return [`/${command.name}`, ...args].join(' ');
+}
+
+/**
+ * Match arguments to a command's argument list
+ * Quotes group words into one argument; a quoted rest argument is unquoted.
+ */
+export function parseSlashCommandArgs(
+    command: SlashCommand,
+    argText: string
+): { args: Record<string, string> } | { error: string } {
+    const args: Record<string, string> = {};
+    const specs = command.args ?? [];
+    let remaining = argText.trim();
+
+    for (const spec of specs) {
+        if (!remaining) break;
+
+        if (spec.rest) {
+            args[spec.name] = remaining.replace(/^"([^"]*)"$/, '$1');
+            remaining = '';
+            break;
+        }
+
+        const match = remaining.match(/^"([^"]*)"|^(\S+)/)!;
+        args[spec.name] = match[1] ?? match[2];
+        remaining = remaining.slice(match[0].length).trim();
+    }
+
+    const missing = specs.find((spec) => spec.required && !args[spec.name]);
+    if (missing || remaining) {
+        return { error: `Usage: ${formatSlashCommandUsage(command)}` };
+    }
+
+    return { args };
+}
+
+/**
+ * Run the command typed in the composer
+ * Returns an error message for unknown commands, bad arguments or a failing
+ * command, and null on success.
+ */
+export async function runSlashCommand(input: string, context: SlashCommandContext): Promise<string | null> {
+    const parsed = parseSlashCommand(input.trim());
+    if (!parsed) return null;
+
+    const command = getSlashCommand(parsed.name);
+    if (!command) {
+        return `Unknown command /${parsed.name}. Type / to see all commands, or start with // to send it as text.`;
+    }
+
+    const result = parseSlashCommandArgs(command, parsed.argText);
+    if ('error' in result) return result.error;
+
+    try {
+        const error = await command.run(result.args, context);
+        return typeof error === 'string' ? error : null;
+    } catch (error) {
+        console.error(`Error running /${command.name}:`, error);
+        return `/${command.name} failed`;
+    }
+}
+
+// ============================================================================
+// Built-in commands
+// ============================================================================
+
+const SHRUG = '¯\\_(ツ)_/¯';
+
+registerSlashCommand({
+    name: 'gif',
+    description: 'Search GIPHY',
+    args: [{ name: 'query', required: true, rest: true }],
+    example: 'happy dance',
+    run: ({ query }, context) => context.openGifPicker(query),
+});
+
+registerSlashCommand({
+    name: 'persona',
+    description: 'Switch this chat to another persona',
+    args: [{ name: 'name', required: true, rest: true }],
+    example: 'Professional',
+    run: ({ name }, context) => context.switchPersona(name),
+});
+
+registerSlashCommand({
+    name: 'schedule',
+    description: 'Send a message later: 30m, 2h, 17:30, 9am, tomorrow or a weekday',
+    args: [
+        { name: 'when', required: true },
+        { name: 'message', required: true, rest: true },
+    ],
+    example: 'tomorrow Don\'t forget the slides',
+    run: async ({ when, message }, context) => {
+        const sendAt = parseScheduleTime(when);
+        if (!sendAt) return `Can't schedule for "${when}". Try 30m, 2h, 17:30, 9am, tomorrow or a weekday.`;
+        return (await context.schedule(message, sendAt)) ? null : 'Could not schedule the message';
+    },
+});
+
+registerSlashCommand({
+    name: 'poll',
+    description: 'Create a poll',
+    args: [{ name: 'question', rest: true }],
+    example: 'Where should we eat?',
+    run: ({ question }, context) => context.openPollComposer(question ?? ''),
+});
+
+registerSlashCommand({
+    name: 'shrug',
+    description: `Append ${SHRUG} to a message`,
+    args: [{ name: 'message', rest: true }],
+    // The Markdown renderer leaves the shrug alone, so it reads the same with formatting on or off
+    run: async ({ message }, context) => {
+        await context.send(message ? `${message} ${SHRUG}` : SHRUG);
+    },
+});
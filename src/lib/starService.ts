@@ -0,0 +1,123 @@
+/**
+ * Star Service
+ * Private stars on messages, collected in a Starred view across all contacts
+ * and personas. Nobody but the user can see what they starred.
+ */
+
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type StarredMessage = Database['public']['Functions']['get_starred_messages']['Returns'][number];
+
+/** Starred messages of one contact in one persona */
+export interface StarredGroup {
+    key: string;
+    contact_id: string;
+    contact_name: string;
+    group_id: string | null;
+    persona_id: string;
+    persona_name: string;
+    persona_icon: string;
+    color_primary: string;
+    color_accent: string;
+    messages: StarredMessage[];
+}
+
+/**
+ * Get the IDs of the messages the user starred in a channel
+ */
+export async function fetchStarredMessageIds(channelId: string): Promise<Set<string>> {
+    const { data, error } = await supabase
+        .from('starred_messages')
+        .select('message_id')
+        .eq('channel_id', channelId);
+
+    if (error) {
+        console.error('Error fetching starred messages:', error);
+        return new Set();
+    }
+
+    return new Set((data || []).map((star) => star.message_id));
+}
+
+/**
+ * Get all of the user's starred messages, most recently starred first
+ */
+export async function fetchStarredMessages(): Promise<StarredMessage[]> {
+    const { data, error } = await supabase.rpc('get_starred_messages');
+
+    if (error) {
+        console.error('Error fetching starred messages:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Star a message in one of the user's channels
+ */
+export async function starMessage(messageId: string, channelId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('starred_messages')
+        .insert({
+            user_id: userId,
+            message_id: messageId,
+            channel_id: channelId,
+        });
+
+    // Already starred, e.g. from another tab
+    if (error && error.code !== '23505') {
+        console.error('Error starring message:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Remove a star
+ */
+export async function unstarMessage(messageId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('starred_messages')
+        .delete()
+        .eq('user_id', userId)
+        .eq('message_id', messageId);
+
+    if (error) {
+        console.error('Error removing star:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Group starred messages by contact and persona, keeping the order of the
+ * most recent star in each group
+ */
+export function groupStarredMessages(messages: StarredMessage[]): StarredGroup[] {
+    const groups = new Map<string, StarredGroup>();
+
+    for (const message of messages) {
+        const key = `${message.contact_id}:${message.persona_id}`;
+        const group = groups.get(key) || {
+            key,
+            contact_id: message.contact_id,
+            contact_name: message.contact_name,
+            group_id: message.group_id,
+            persona_id: message.persona_id,
+            persona_name: message.persona_name,
+            persona_icon: message.persona_icon,
+            color_primary: message.color_primary,
+            color_accent: message.color_accent,
+            messages: [],
+        };
+
+        group.messages.push(message);
+        groups.set(key, group);
+    }
+
+    return Array.from(groups.values());
+}
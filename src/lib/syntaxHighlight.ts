@@ -0,0 +1,155 @@
+/**
+ * Lightweight Syntax Highlighter
+ * Splits code from fenced blocks into tokens for coloring. It only knows
+ * comments, strings, numbers and keywords, which is enough for chat snippets.
+ */
+
+export type TokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+}
+
+interface LanguageDefinition {
+    keywords: Set<string>;
+    lineComment: string | null;
+    blockComment: [string, string] | null;
+}
+
+const JS_KEYWORDS = [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import',
+    'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+    'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+];
+
+const PYTHON_KEYWORDS = [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+    'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+    'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+];
+
+const SQL_KEYWORDS = [
+    'alter', 'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'exists', 'from',
+    'group', 'having', 'in', 'index', 'insert', 'into', 'is', 'join', 'left', 'limit', 'not', 'null', 'on',
+    'or', 'order', 'right', 'select', 'set', 'table', 'union', 'update', 'values', 'where', 'with',
+];
+
+const SHELL_KEYWORDS = [
+    'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function',
+    'if', 'in', 'local', 'return', 'then', 'while',
+];
+
+const C_LIKE: Omit<LanguageDefinition, 'keywords'> = { lineComment: '//', blockComment: ['/*', '*/'] };
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+    javascript: { keywords: new Set(JS_KEYWORDS), ...C_LIKE },
+    python: { keywords: new Set(PYTHON_KEYWORDS), lineComment: '#', blockComment: null },
+    // SQL keywords are case-insensitive, so they are matched in lowercase
+    sql: { keywords: new Set(SQL_KEYWORDS), lineComment: '--', blockComment: ['/*', '*/'] },
+    shell: { keywords: new Set(SHELL_KEYWORDS), lineComment: '#', blockComment: null },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascript',
+    ts: 'javascript',
+    tsx: 'javascript',
+    typescript: 'javascript',
+    json: 'javascript',
+    java: 'javascript',
+    c: 'javascript',
+    cpp: 'javascript',
+    csharp: 'javascript',
+    go: 'javascript',
+    rust: 'javascript',
+    py: 'python',
+    bash: 'shell',
+    sh: 'shell',
+    zsh: 'shell',
+};
+
+function getLanguage(language: string | null): LanguageDefinition {
+    const name = language ? LANGUAGE_ALIASES[language] ?? language : 'javascript';
+    return LANGUAGES[name] ?? LANGUAGES.javascript;
+}
+
+/**
+ * Split code into highlightable tokens
+ */
+export function highlightCode(code: string, language: string | null): Token[] {
+    const definition = getLanguage(language);
+    const caseInsensitive = definition === LANGUAGES.sql;
+    const tokens: Token[] = [];
+    let plain = '';
+    let i = 0;
+
+    const push = (type: TokenType, text: string) => {
+        if (plain) {
+            tokens.push({ type: 'plain', text: plain });
+            plain = '';
+        }
+        tokens.push({ type, text });
+    };
+
+    while (i < code.length) {
+        const rest = code.slice(i);
+        const char = code[i];
+
+        if (definition.lineComment && rest.startsWith(definition.lineComment)) {
+            const end = code.indexOf('\n', i);
+            const text = end === -1 ? rest : code.slice(i, end);
+            push('comment', text);
+            i += text.length;
+            continue;
+        }
+
+        if (definition.blockComment && rest.startsWith(definition.blockComment[0])) {
+            const end = code.indexOf(definition.blockComment[1], i + definition.blockComment[0].length);
+            const text = end === -1 ? rest : code.slice(i, end + definition.blockComment[1].length);
+            push('comment', text);
+            i += text.length;
+            continue;
+        }
+
+        if (char === '"' || char === "'" || char === '`') {
+            let end = i + 1;
+            while (end < code.length && code[end] !== char && code[end] !== '\n') {
+                end += code[end] === '\\' ? 2 : 1;
+            }
+            const text = code.slice(i, Math.min(end + 1, code.length));
+            push('string', text);
+            i += text.length;
+            continue;
+        }
+
+        const number = /^\d[\d_]*(\.\d+)?/.exec(rest);
+        if (number && !/[\w$]/.test(code[i - 1] ?? '')) {
+            push('number', number[0]);
+            i += number[0].length;
+            continue;
+        }
+
+        const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+        if (word) {
+            const key = caseInsensitive ? word[0].toLowerCase() : word[0];
+            if (definition.keywords.has(key)) {
+                push('keyword', word[0]);
+            } else {
+                plain += word[0];
+            }
+            i += word[0].length;
+            continue;
+        }
+
+        plain += char;
+        i += 1;
+    }
+
+    if (plain) {
+        tokens.push({ type: 'plain', text: plain });
+    }
+
+    return tokens;
+}
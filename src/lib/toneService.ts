@@ -0,0 +1,214 @@
+/**
+ * Tone Service
+ * Labels messages as playful, formal, tense, affectionate or neutral and
+ * stores the label in `messages.detected_tone`. The default provider is a
+ * local lexicon, so message text never leaves the device; another provider
+ * can be plugged in with setToneProvider.
+ */
+
+import { supabase } from './supabase';
+import type { MessageRow } from './messageService';
+
+export type MessageTone = 'playful' | 'formal' | 'tense' | 'affectionate' | 'neutral';
+
+export interface ToneProvider {
+    classify: (text: string) => Promise<MessageTone>;
+}
+
+/** Chip shown on bubbles; neutral messages get none */
+export const TONE_LABELS: Record<Exclude<MessageTone, 'neutral'>, { emoji: string; label: string }> = {
+    playful: { emoji: '😄', label: 'Playful' },
+    formal: { emoji: '👔', label: 'Formal' },
+    tense: { emoji: '⚡', label: 'Tense' },
+    affectionate: { emoji: '💕', label: 'Affectionate' },
+};
+
+type ScoredTone = Exclude<MessageTone, 'neutral'>;
+
+// Words and phrases are matched as whole words, case-insensitively
+const LEXICON: Record<ScoredTone, { words: string[]; emoji: string[] }> = {
+    playful: {
+        words: [
+            'lol', 'lmao', 'rofl', 'haha', 'hahaha', 'hehe', 'jk', 'just kidding', 'omg', 'yay', 'woohoo',
+            'xd', 'lmfao', 'silly', 'funny', 'hilarious', 'guess what', 'dare you', 'bet', 'nerd',
+        ],
+        emoji: ['😂', '🤣', '😜', '😝', '😆', '😄', '😁', '🙃', '😛', '🤪', '😎', '🎉', '🙈', ';)'],
+    },
+    formal: {
+        words: [
+            'dear', 'regards', 'best regards', 'kind regards', 'sincerely', 'kindly', 'please find', 'attached',
+            'furthermore', 'therefore', 'regarding', 'per our', 'thank you for', 'appreciate', 'at your convenience',
+            'please let me know', 'could you please', 'would you be able', 'following up', 'meeting', 'agenda',
+            'deadline', 'proposal', 'invoice', 'request', 'confirm', 'accordingly', 'sir', 'madam',
+        ],
+        emoji: [],
+    },
+    tense: {
+        words: [
+            'urgent', 'asap', 'seriously', 'angry', 'upset', 'annoyed', 'frustrated', 'disappointed', 'unacceptable',
+            'hate', 'wtf', 'ugh', 'whatever', 'stop', 'enough', 'why would you', 'how could you', 'not okay',
+            'not ok', 'fed up', 'sick of', 'leave me alone', 'ridiculous', 'never again', 'blame', 'fault',
+        ],
+        emoji: ['😠', '😡', '🤬', '😤', '🙄', '💢', '😒'],
+    },
+    affectionate: {
+        words: [
+            'love', 'love you', 'miss you', 'xoxo', 'babe', 'baby', 'honey', 'sweetheart', 'darling', 'hugs', 'hug',
+            'kisses', 'thinking of you', 'proud of you', 'adore', 'sweetie', 'cuddle', 'my love', 'sweet dreams',
+        ],
+        emoji: ['❤', '💕', '😘', '🥰', '😍', '💖', '💗', '💞', '💘', '🤗', '<3'],
+    },
+};
+
+// Ties go to the tone that matters most to notice
+const PRIORITY: ScoredTone[] = ['tense', 'affectionate', 'playful', 'formal'];
+
+const WORD_PHRASES = Object.fromEntries(
+    PRIORITY.map((tone) => [tone, LEXICON[tone].words.map((word) => word.split(' '))])
+) as Record<ScoredTone, string[][]>;
+
+// A cue right after one of these ("not angry", "don't love") doesn't count
+const NEGATIONS = new Set(['not', 'no', 'never', 'nor', 'without', 'hardly', 'cannot']);
+const NEGATION_WINDOW = 3;
+
+const TOKEN = /[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu;
+
+/**
+ * Split text into clauses of lowercase words, so a negation doesn't reach
+ * past punctuation ("no, I love it")
+ */
+function tokenizeClauses(text: string): string[][] {
+    return text
+        .toLowerCase()
+        .replace(/\u2019/g, "'")
+        .split(/[.,;:!?\n]+/)
+        .map((clause) => clause.match(TOKEN) ?? []);
+}
+
+function isNegated(tokens: string[], index: number): boolean {
+    return tokens
+        .slice(Math.max(0, index - NEGATION_WINDOW), index)
+        .some((token) => NEGATIONS.has(token) || token.endsWith("n't"));
+}
+
+/**
+ * Count the places a phrase appears as whole words without a negation before it
+ */
+function countPhrase(clauses: string[][], phrase: string[]): number {
+    let count = 0;
+
+    for (const tokens of clauses) {
+        for (let i = 0; i + phrase.length <= tokens.length; i += 1) {
+            if (phrase.every((word, offset) => tokens[i + offset] === word) && !isNegated(tokens, i)) {
+                count += 1;
+            }
+        }
+    }
+
+    return count;
+}
+
+/**
+ * Score text against the lexicon, skipping negated cues ("not angry"), plus a
+ * few hints from how it is written:
+ * shouting and "?!" read as tense, stretched words ("sooo") as playful, and
+ * long, well-punctuated sentences without slang as formal.
+ * The score is the number of cues for the winning tone, 0 for neutral.
+ */
+export function scoreToneLocally(text: string): { tone: MessageTone; score: number } {
+    const lower = text.toLowerCase();
+    const clauses = tokenizeClauses(text);
+    const scores: Record<ScoredTone, number> = { playful: 0, formal: 0, tense: 0, affectionate: 0 };
+
+    for (const tone of PRIORITY) {
+        for (const phrase of WORD_PHRASES[tone]) {
+            scores[tone] += countPhrase(clauses, phrase);
+        }
+        for (const emoji of LEXICON[tone].emoji) {
+            scores[tone] += lower.split(emoji).length - 1;
+        }
+    }
+
+    const shouted = text.match(/\b[A-Z]{3,}\b/g)?.length ?? 0;
+    if (shouted >= 2 || (shouted === 1 && text.replace(/[^a-z]/gi, '').length < 12)) scores.tense += 1;
+    if (/\?!|!\?|!{3,}/.test(text) && scores.playful === 0) scores.tense += 1;
+    if (/([a-z])\1{3,}/i.test(text)) scores.playful += 1;
+
+    const words = text.trim().split(/\s+/).length;
+    if (words >= 12 && /^[A-Z]/.test(text.trim()) && /[.?]$/.test(text.trim()) && scores.playful === 0) {
+        scores.formal += 1;
+    }
+
+    const best = PRIORITY.reduce((top, tone) => (scores[tone] > scores[top] ? tone : top), PRIORITY[0]);
+    return scores[best] > 0 ? { tone: best, score: scores[best] } : { tone: 'neutral', score: 0 };
+}
+
+export function classifyToneLocally(text: string): MessageTone {
+    return scoreToneLocally(text).tone;
+}
+
+/**
+ * Default provider: the local lexicon, no network
+ */
+export const lexiconProvider: ToneProvider = {
+    async classify(text) {
+        return classifyToneLocally(text);
+    },
+};
+
+let provider: ToneProvider = lexiconProvider;
+
+/**
+ * Replace the tone provider
+ */
+export function setToneProvider(nextProvider: ToneProvider) {
+    provider = nextProvider;
+}
+
+/**
+ * Whether a message is text that still needs a tone
+ */
+export function needsTone(
+    message: Pick<MessageRow, 'kind' | 'content' | 'detected_tone' | 'deleted_at' | 'file_url'>
+): boolean {
+    return message.detected_tone === null &&
+        message.kind === 'message' &&
+        !message.deleted_at &&
+        !message.file_url &&
+        message.content.trim().length > 0;
+}
+
+/**
+ * Classify messages and store their tone
+ * A message that already got a tone from the other side keeps it.
+ */
+export async function labelMessageTones(messages: Pick<MessageRow, 'id' | 'content'>[]) {
+    const labelled = await Promise.all(
+        messages.map(async (message) => {
+            try {
+                return { id: message.id, tone: await provider.classify(message.content) };
+            } catch (error) {
+                console.error('Error detecting message tone:', error);
+                return null;
+            }
+        })
+    );
+    const tones = labelled.filter((entry): entry is { id: string; tone: MessageTone } => entry !== null);
+    if (tones.length === 0) return;
+
+    const { error } = await supabase.rpc('set_message_tones', {
+        p_message_ids: tones.map((entry) => entry.id),
+        p_tones: tones.map((entry) => entry.tone),
+    });
+
+    if (error) {
+        console.error('Error saving message tones:', error);
+    }
+}
+
+/**
+ * The chip for a stored tone, or null for neutral and unknown tones
+ */
+export function getToneLabel(tone: string | null): { emoji: string; label: string } | null {
+    return tone && tone in TONE_LABELS ? TONE_LABELS[tone as ScoredTone] : null;
+}
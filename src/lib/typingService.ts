@@ -4,6 +4,7 @@ import type { RealtimeChannel } from '@supabase/supabase-js';
 interface TypingIndicator {
     id: string;
     channel_id: string;
+    conversation_id: string | null;
     user_id: string;
     created_at: string;
     expires_at: string;
@@ -49,15 +50,15 @@ export async function removeTypingIndicator(channelId: string, userId: string) {
 }
 
 /**
- * Get active typing indicators for a channel
+ * Get active typing indicators for a conversation
  */
-export async function getTypingIndicators(channelId: string): Promise<TypingIndicator[]> {
+export async function getTypingIndicators(conversationId: string): Promise<TypingIndicator[]> {
     const now = new Date().toISOString();
 
     const { data, error } = await supabase
         .from('typing_indicators')
         .select('*')
-        .eq('channel_id', channelId)
+        .eq('conversation_id', conversationId)
         .gt('expires_at', now);
 
     if (error) {
@@ -69,22 +70,23 @@ export async function getTypingIndicators(channelId: string): Promise<TypingIndi
 }
 
 /**
- * Subscribe to typing indicator changes for a channel
+ * Subscribe to typing indicator changes for a conversation
+ * Indicators are written per channel, so this covers both participants
  */
 export function subscribeToTyping(
-    channelId: string,
+    conversationId: string,
     currentUserId: string,
     callback: (isTyping: boolean, userId: string) => void
 ): RealtimeChannel {
     const channel = supabase
-        .channel(`typing:${channelId}`)
+        .channel(`typing:${conversationId}`)
         .on(
             'postgres_changes',
             {
                 event: '*',
                 schema: 'public',
                 table: 'typing_indicators',
-                filter: `channel_id=eq.${channelId}`,
+                filter: `conversation_id=eq.${conversationId}`,
             },
             (payload) => {
                 const indicator = payload.new as TypingIndicator;
@@ -0,0 +1,200 @@
+/**
+ * Unfurl Service
+ * Turns links in messages into Open Graph preview cards. Pages are fetched by
+ * an unfurl provider (the `unfurl` edge function, or a local server set with
+ * VITE_UNFURL_URL), never by the browser. The card is then stored on the
+ * message so both sides see the same preview.
+ */
+
+import { supabase } from './supabase';
+import { parseMarkdown, getSafeUrl, type BlockNode, type InlineNode } from './markdown';
+import type { Json } from './database.types';
+import type { MessageRow } from './messageService';
+
+export interface LinkPreview {
+    url: string;
+    title: string;
+    description: string | null;
+    site_name: string | null;
+    /** Small image inlined as a data URL */
+    image: string | null;
+}
+
+export interface UnfurlProvider {
+    unfurl: (url: string) => Promise<LinkPreview | null>;
+}
+
+/**
+ * Provider backed by the `unfurl` Supabase edge function
+ */
+export const edgeFunctionProvider: UnfurlProvider = {
+    async unfurl(url) {
+        const { data, error } = await supabase.functions.invoke<{ preview: LinkPreview | null }>('unfurl', {
+            body: { url },
+        });
+
+        if (error) {
+            throw error;
+        }
+
+        return data?.preview ?? null;
+    },
+};
+
+/**
+ * Provider for any server with the same API, e.g. `npm run unfurl`
+ */
+export function createHttpProvider(endpoint: string): UnfurlProvider {
+    return {
+        async unfurl(url) {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url }),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Unfurl request failed with status ${response.status}`);
+            }
+
+            const data = await response.json();
+            return data.preview ?? null;
+        },
+    };
+}
+
+const unfurlEndpoint: string | undefined = import.meta.env.VITE_UNFURL_URL;
+
+let provider: UnfurlProvider = unfurlEndpoint ? createHttpProvider(unfurlEndpoint) : edgeFunctionProvider;
+const previewCache = new Map<string, Promise<LinkPreview | null>>();
+
+/**
+ * Replace the unfurl provider
+ */
+export function setUnfurlProvider(nextProvider: UnfurlProvider) {
+    provider = nextProvider;
+    previewCache.clear();
+}
+
+/**
+ * Check a card from a provider or the database before it is rendered
+ * Its URL becomes a link, so only safe protocols are kept.
+ */
+function toLinkPreview(value: unknown): LinkPreview | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const preview = value as LinkPreview;
+    const url = typeof preview.url === 'string' ? getSafeUrl(preview.url) : null;
+    if (!url || typeof preview.title !== 'string') return null;
+
+    return { ...preview, url };
+}
+
+/**
+ * Get the preview card for a URL, cached for the session
+ * Failed requests are not cached so they can be retried.
+ */
+export function unfurl(url: string): Promise<LinkPreview | null> {
+    const cached = previewCache.get(url);
+    if (cached) return cached;
+
+    const request = provider.unfurl(url).then(toLinkPreview).catch((error) => {
+        console.error('Error fetching link preview:', error);
+        previewCache.delete(url);
+        return null;
+    });
+
+    previewCache.set(url, request);
+    return request;
+}
+
+function findLink(nodes: InlineNode[]): string | null {
+    for (const node of nodes) {
+        if (node.type === 'link' && /^https?:/.test(node.href)) return node.href;
+        if (node.type === 'strong' || node.type === 'em') {
+            const href = findLink(node.children);
+            if (href) return href;
+        }
+    }
+    return null;
+}
+
+function findBlockLink(blocks: BlockNode[]): string | null {
+    for (const block of blocks) {
+        let href: string | null = null;
+
+        if (block.type === 'paragraph') {
+            href = block.lines.map(findLink).find(Boolean) ?? null;
+        } else if (block.type === 'list') {
+            href = block.items.map(findLink).find(Boolean) ?? null;
+        } else if (block.type === 'blockquote') {
+            href = findBlockLink(block.children);
+        }
+
+        if (href) return href;
+    }
+    return null;
+}
+
+/**
+ * The first web link in a message, which gets the preview card
+ * Links inside code are ignored.
+ */
+export function findPreviewUrl(content: string): string | null {
+    return findBlockLink(parseMarkdown(content));
+}
+
+/**
+ * Read the stored preview card of a message
+ */
+export function getLinkPreview(message: Pick<MessageRow, 'link_preview' | 'link_preview_disabled'>): LinkPreview | null {
+    if (message.link_preview_disabled || !message.link_preview) return null;
+    return toLinkPreview(message.link_preview);
+}
+
+/**
+ * Save the card of one of your messages
+ * The server checks that the card's link is in the message.
+ */
+export async function setLinkPreview(messageId: string, preview: LinkPreview): Promise<boolean> {
+    const { error } = await supabase.rpc('set_link_preview', {
+        p_message_id: messageId,
+        p_preview: preview as unknown as Json,
+    });
+
+    if (error) {
+        console.error('Error saving link preview:', error);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Unfurl the first link of a sent message and store the card on it
+ */
+export async function attachLinkPreview(message: Pick<MessageRow, 'id' | 'content'>) {
+    const url = findPreviewUrl(message.content);
+    if (!url) return;
+
+    const preview = await unfurl(url);
+    if (!preview) return;
+
+    await setLinkPreview(message.id, preview);
+}
+
+/**
+ * Turn the preview off for one of your messages
+ */
+export async function removeLinkPreview(messageId: string): Promise<boolean> {
+    const { error } = await supabase.rpc('remove_link_preview', {
+        p_message_id: messageId,
+    });
+
+    if (error) {
+        console.error('Error removing link preview:', error);
+        return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,154 @@
+/**
+ * Voice Note Service
+ * Records audio in the browser with MediaRecorder and prepares waveforms for
+ * playback. Recordings are uploaded like any other attachment via uploadFile.
+ */
+
+/** Recordings stop (and are sent) automatically after this long */
+export const MAX_VOICE_NOTE_SECONDS = 300;
+
+/** Shorter holds are treated as an accidental tap */
+export const MIN_VOICE_NOTE_MS = 500;
+
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Preferred first; every base type must be accepted by fileService
+const RECORDING_FORMATS = [
+    { mimeType: 'audio/webm;codecs=opus', type: 'audio/webm', extension: 'webm' },
+    { mimeType: 'audio/webm', type: 'audio/webm', extension: 'webm' },
+    { mimeType: 'audio/ogg;codecs=opus', type: 'audio/ogg', extension: 'ogg' },
+    { mimeType: 'audio/mp4', type: 'audio/mp4', extension: 'm4a' },
+];
+
+export interface VoiceRecording {
+    /** Stop recording and get the audio file */
+    stop: () => Promise<File>;
+    /** Stop recording and throw the audio away */
+    cancel: () => void;
+}
+
+/**
+ * Whether the browser can record voice notes
+ */
+export function isVoiceRecordingSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+function getRecordingFormat() {
+    return RECORDING_FORMATS.find((format) => MediaRecorder.isTypeSupported(format.mimeType)) ?? null;
+}
+
+/**
+ * Start recording from the microphone
+ * Rejects when there is no supported format or microphone access is denied.
+ */
+export async function startVoiceRecording(): Promise<VoiceRecording> {
+    const format = getRecordingFormat();
+    if (!format) {
+        throw new Error('Voice notes are not supported in this browser');
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const release = () => stream.getTracks().forEach((track) => track.stop());
+
+    recorder.start();
+
+    return {
+        stop: () =>
+            new Promise((resolve, reject) => {
+                recorder.onstop = () => {
+                    release();
+                    resolve(new File(chunks, `voice-note-${Date.now()}.${format.extension}`, { type: format.type }));
+                };
+                recorder.onerror = () => {
+                    release();
+                    reject(new Error('Recording failed'));
+                };
+                recorder.stop();
+            }),
+        cancel: () => {
+            recorder.onstop = release;
+            if (recorder.state !== 'inactive') {
+                recorder.stop();
+            } else {
+                release();
+            }
+        },
+    };
+}
+
+/**
+ * Whether an attachment was recorded as a voice note
+ */
+export function isVoiceNote(fileName: string): boolean {
+    return fileName.startsWith('voice-note-');
+}
+
+export interface Waveform {
+    /** Peak level per bar, 0-1 */
+    peaks: number[];
+    /** Decoded duration, reliable even when the file has no duration metadata */
+    duration: number;
+}
+
+const waveformCache = new Map<string, Promise<Waveform | null>>();
+
+/**
+ * Decode an audio file and reduce it to a number of peak levels
+ * Cached per URL; resolves to null when the audio can't be decoded.
+ */
+export function getWaveform(url: string, bars = 48): Promise<Waveform | null> {
+    const key = `${url}#${bars}`;
+    const cached = waveformCache.get(key);
+    if (cached) return cached;
+
+    const promise = (async () => {
+        const context = new AudioContext();
+        try {
+            const response = await fetch(url);
+            const buffer = await context.decodeAudioData(await response.arrayBuffer());
+            const samples = buffer.getChannelData(0);
+            const blockSize = Math.max(Math.floor(samples.length / bars), 1);
+            const peaks: number[] = [];
+
+            for (let bar = 0; bar < bars; bar++) {
+                let peak = 0;
+                const start = bar * blockSize;
+                for (let i = start; i < Math.min(start + blockSize, samples.length); i++) {
+                    peak = Math.max(peak, Math.abs(samples[i]));
+                }
+                peaks.push(peak);
+            }
+
+            const loudest = Math.max(...peaks, 0.01);
+            return {
+                peaks: peaks.map((peak) => peak / loudest),
+                duration: buffer.duration,
+            };
+        } catch (error) {
+            console.error('Error decoding audio:', error);
+            waveformCache.delete(key);
+            return null;
+        } finally {
+            context.close();
+        }
+    })();
+
+    waveformCache.set(key, promise);
+    return promise;
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatDuration(seconds: number): string {
+    const total = Math.max(Math.floor(seconds), 0);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Purge Attachments Edge Function
+ * POST -> { removed }
+ *
+ * Removes the files queued in attachment_deletions from the
+ * message-attachments bucket through the Storage API, which deletes the
+ * stored object and not just its metadata. Called every minute by pg_cron
+ * with the service role key.
+ */
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const BUCKET_NAME = 'message-attachments';
+const BATCH_SIZE = 500;
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
+
+// The queue table has no client policies, so it is only reachable with the service role
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+Deno.serve(async (req) => {
+    if (req.method !== 'POST') {
+        return json({ error: 'Method not allowed' }, 405);
+    }
+
+    // Only the scheduled job may empty the queue
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: queued, error } = await supabase
+        .from('attachment_deletions')
+        .select('path')
+        .order('queued_at')
+        .limit(BATCH_SIZE);
+
+    if (error) {
+        console.error('Error reading attachment queue:', error);
+        return json({ error: 'Could not read queue' }, 500);
+    }
+
+    const paths = (queued || []).map((row) => row.path);
+    if (paths.length === 0) {
+        return json({ removed: 0 });
+    }
+
+    // Paths that no longer exist are skipped by the Storage API, not reported as errors
+    const { error: removeError } = await supabase.storage.from(BUCKET_NAME).remove(paths);
+
+    if (removeError) {
+        console.error('Error removing attachments:', removeError);
+        return json({ error: 'Could not remove attachments' }, 500);
+    }
+
+    const { error: dequeueError } = await supabase
+        .from('attachment_deletions')
+        .delete()
+        .in('path', paths);
+
+    if (dequeueError) {
+        console.error('Error clearing attachment queue:', dequeueError);
+    }
+
+    return json({ removed: paths.length });
+});
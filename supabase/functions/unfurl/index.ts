@@ -0,0 +1,98 @@
+/**
+ * Unfurl Edge Function
+ * POST { url } -> { preview }
+ *
+ * Builds the Open Graph preview card for a link so the browser never contacts
+ * the linked site itself. Results (including "no preview") are cached per URL
+ * in the link_previews table for a day. Only signed-in users may call it.
+ */
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { fetchLinkPreview, isPublicUrl } from './openGraph.js';
+
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+}
+
+// The cache table has no client policies, so it is only reachable with the service role
+const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+async function resolveHost(hostname: string): Promise<string[]> {
+    const lookups = await Promise.allSettled([
+        Deno.resolveDns(hostname, 'A'),
+        Deno.resolveDns(hostname, 'AAAA'),
+    ]);
+    return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+        return json({ error: 'Method not allowed' }, 405);
+    }
+
+    // The anon key is a valid JWT too, so check for an actual user session
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+        return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+        return json({ error: 'Unauthorized' }, 401);
+    }
+
+    let url: unknown;
+    try {
+        ({ url } = await req.json());
+    } catch {
+        return json({ error: 'Invalid request body' }, 400);
+    }
+
+    if (typeof url !== 'string' || url.length > 2048 || !isPublicUrl(url)) {
+        return json({ error: 'Invalid URL' }, 400);
+    }
+
+    const { data: cached, error } = await supabase
+        .from('link_previews')
+        .select('preview, fetched_at')
+        .eq('url', url)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error reading link preview cache:', error);
+    }
+
+    if (cached && Date.now() - new Date(cached.fetched_at).getTime() < CACHE_TTL) {
+        return json({ preview: cached.preview });
+    }
+
+    const preview = await fetchLinkPreview(url, resolveHost);
+
+    const { error: cacheError } = await supabase
+        .from('link_previews')
+        .upsert({ url, preview, fetched_at: new Date().toISOString() });
+
+    if (cacheError) {
+        console.error('Error caching link preview:', cacheError);
+    }
+
+    return json({ preview });
+});
@@ -0,0 +1,307 @@
+/**
+ * Open Graph Fetcher
+ * Fetches a page and reads its Open Graph tags into a preview card. Shared by
+ * the unfurl edge function (Deno) and the local Node stand-in
+ * (scripts/unfurl-server.js), so it only uses web-standard APIs. Each runtime
+ * passes in its own DNS lookup.
+ *
+ * @callback ResolveHost
+ * @param {string} hostname
+ * @returns {Promise<string[]>} Every IPv4 and IPv6 address the name resolves to
+ *
+ * @typedef {Object} LinkPreview
+ * @property {string} url
+ * @property {string} title
+ * @property {string | null} description
+ * @property {string | null} site_name
+ * @property {string | null} image Small image inlined as a data URL, so viewers never load it from the site
+ */
+
+const FETCH_TIMEOUT = 5000;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_IMAGE_BYTES = 100 * 1024;
+const MAX_REDIRECTS = 3;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const USER_AGENT = 'PersonaMessengerBot/1.0 (link preview)';
+
+const PRIVATE_IPV4 = [
+    /^0\./,
+    /^10\./,
+    /^127\./,
+    /^169\.254\./,
+    /^172\.(1[6-9]|2\d|3[01])\./,
+    /^192\.0\.0\./,
+    /^192\.168\./,
+    /^198\.1[89]\./,
+    /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+    /^(22[4-9]|2[3-5]\d)\./,
+];
+
+/**
+ * Whether an IP address is publicly routable
+ * IPv6 is limited to global unicast (2000::/3), which excludes loopback,
+ * link-local, unique local and IPv4-mapped addresses; 6to4 and Teredo are
+ * refused too, since they wrap an IPv4 address that could be private.
+ *
+ * @param {string} address
+ * @returns {boolean}
+ */
+export function isPublicAddress(address) {
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(address)) {
+        return !PRIVATE_IPV4.some((range) => range.test(address));
+    }
+
+    const [first, second] = address.toLowerCase().split(':').map((group) => parseInt(group || '0', 16));
+    if (!(first >= 0x2000 && first <= 0x3fff)) return false;
+    if (first === 0x2002 || (first === 0x2001 && (second === 0 || second === 0xdb8))) return false;
+
+    return address.includes(':');
+}
+
+/**
+ * Whether a URL points at a public http(s) host
+ * Blocks localhost and private ranges so the service cannot be used to reach
+ * internal addresses. Names are checked again once resolved, in safeFetch.
+ *
+ * @param {string} href
+ * @returns {boolean}
+ */
+export function isPublicUrl(href) {
+    let url;
+    try {
+        url = new URL(href);
+    } catch {
+        return false;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+
+    const host = url.hostname.toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+        return false;
+    }
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+        return isPublicAddress(host);
+    }
+    // IPv6 literals are bracketed
+    if (host.startsWith('[')) {
+        return isPublicAddress(host.slice(1, -1));
+    }
+
+    return host.includes('.');
+}
+
+/**
+ * Whether every address a URL's host resolves to is public
+ * A name like 127.0.0.1.nip.io passes isPublicUrl but points at this machine.
+ *
+ * @param {string} href
+ * @param {ResolveHost} resolveHost
+ * @returns {Promise<boolean>}
+ */
+async function resolvesPublicly(href, resolveHost) {
+    const host = new URL(href).hostname;
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(host) || host.startsWith('[')) return true;
+
+    try {
+        const addresses = await resolveHost(host);
+        return addresses.length > 0 && addresses.every(isPublicAddress);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Fetch with a timeout, following redirects only to public hosts
+ *
+ * @param {string} href
+ * @param {ResolveHost} resolveHost
+ * @returns {Promise<Response | null>}
+ */
+async function safeFetch(href, resolveHost) {
+    let current = href;
+
+    // Every hop is checked, so a redirect can't lead to an internal address either
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects += 1) {
+        if (!isPublicUrl(current) || !(await resolvesPublicly(current, resolveHost))) return null;
+
+        const response = await fetch(current, {
+            redirect: 'manual',
+            headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,image/*;q=0.8' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT),
+        });
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+            current = new URL(location, current).href;
+            continue;
+        }
+
+        return response.ok ? response : null;
+    }
+
+    return null;
+}
+
+/**
+ * Read at most `limit` bytes of a response body
+ *
+ * @param {Response} response
+ * @param {number} limit
+ * @param {boolean} [truncate] Keep the first `limit` bytes instead of giving up
+ * @returns {Promise<Uint8Array | null>} null if the body is too large and not truncated
+ */
+async function readBody(response, limit, truncate = false) {
+    const reader = response.body?.getReader();
+    if (!reader) return null;
+
+    const chunks = [];
+    let size = 0;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        chunks.push(value);
+        size += value.length;
+        if (size >= limit) {
+            await reader.cancel();
+            if (!truncate) return null;
+            break;
+        }
+    }
+
+    const body = new Uint8Array(Math.min(size, limit));
+    let offset = 0;
+    for (const chunk of chunks) {
+        const part = chunk.subarray(0, body.length - offset);
+        body.set(part, offset);
+        offset += part.length;
+    }
+
+    return body;
+}
+
+/**
+ * @param {string} text
+ * @returns {string}
+ */
+function decodeEntities(text) {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;|&#39;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * @param {string | undefined} value
+ * @param {number} maxLength
+ * @returns {string | null}
+ */
+function clean(value, maxLength) {
+    if (!value) return null;
+    const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+    if (!text) return null;
+    return text.length > maxLength ? text.slice(0, maxLength - 1) + '…' : text;
+}
+
+/**
+ * Collect <meta> tags keyed by their property or name
+ *
+ * @param {string} html
+ * @returns {Map<string, string>}
+ */
+function readMetaTags(html) {
+    const tags = new Map();
+
+    for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+        const attributes = {};
+        for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+            attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+        }
+
+        const key = (attributes.property || attributes.name || '').toLowerCase();
+        if (key && attributes.content !== undefined && !tags.has(key)) {
+            tags.set(key, attributes.content);
+        }
+    }
+
+    return tags;
+}
+
+/**
+ * Download a preview image and inline it, if it is small enough
+ *
+ * @param {string} href
+ * @param {ResolveHost} resolveHost
+ * @returns {Promise<string | null>}
+ */
+async function fetchImage(href, resolveHost) {
+    try {
+        const response = await safeFetch(href, resolveHost);
+        const type = response?.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+        if (!response || !type || !IMAGE_TYPES.includes(type)) return null;
+
+        const body = await readBody(response, MAX_IMAGE_BYTES);
+        if (!body) return null;
+
+        let binary = '';
+        body.forEach((byte) => {
+            binary += String.fromCharCode(byte);
+        });
+        return `data:${type};base64,${btoa(binary)}`;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Fetch a page and build its preview card
+ * Returns null if the page cannot be fetched or has no title.
+ *
+ * @param {string} href
+ * @param {ResolveHost} resolveHost
+ * @returns {Promise<LinkPreview | null>}
+ */
+export async function fetchLinkPreview(href, resolveHost) {
+    try {
+        const response = await safeFetch(href, resolveHost);
+        const type = response?.headers.get('content-type') ?? '';
+        if (!response || !type.includes('text/html')) return null;
+
+        const body = await readBody(response, MAX_HTML_BYTES, true);
+        if (!body) return null;
+
+        const html = new TextDecoder().decode(body);
+        const head = html.split(/<\/head>/i)[0];
+        const tags = readMetaTags(head);
+        const title = clean(tags.get('og:title') ?? tags.get('twitter:title') ?? /<title[^>]*>([^<]*)/i.exec(head)?.[1], 200);
+
+        if (!title) return null;
+
+        const imageUrl = tags.get('og:image') ?? tags.get('og:image:url') ?? tags.get('twitter:image');
+        let image = null;
+        if (imageUrl) {
+            try {
+                image = await fetchImage(new URL(decodeEntities(imageUrl), response.url || href).href, resolveHost);
+            } catch {
+                image = null;
+            }
+        }
+
+        return {
+            url: href,
+            title,
+            description: clean(tags.get('og:description') ?? tags.get('twitter:description') ?? tags.get('description'), 300),
+            site_name: clean(tags.get('og:site_name'), 100) ?? new URL(href).hostname.replace(/^www\./, ''),
+            image,
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,288 @@
+/*
+  # Shared Persona Conversations Migration
+
+  Until now a `persona_channels` row belonged to exactly one user's contact
+  row, so the person on the other end never saw what was sent. This migration
+  pairs channels across both participants through a shared conversation.
+
+  ## Model
+  - conversations: one row per two-sided persona conversation
+  - persona_channels.conversation_id: both participants' channels point at the
+    same conversation; per-user settings (lock, notifications, unread count)
+    stay on each user's own channel row
+  - messages.conversation_id: messages are stored once, under the sender's
+    channel, and are readable from every channel in the conversation
+
+  ## Pairing rules (ensure_persona_channel)
+  1. A channel that is already paired keeps its pairing, even if either user
+     later renames their persona.
+  2. Otherwise the peer's persona with the same name (case-insensitive) is
+     used, preferring active personas.
+  3. If the peer has no persona with that name, a custom persona mirroring
+     the sender's name, icon and colors is created for them.
+  4. If the peer has not added the sender as a contact, a contact row is
+     created on their side so the conversation shows up in their list.
+
+  ## Security
+  - Messages and typing indicators are readable by every member of the
+    conversation (is_conversation_member)
+  - Delivery receipts go through mark_message_as_delivered so recipients
+    never need UPDATE rights on someone else's message
+*/
+
+-- ============================================================================
+-- 1. CONVERSATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE persona_channels
+ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_persona_channels_conversation_id ON persona_channels(conversation_id);
+
+-- Returns true when the current user owns a channel in the conversation
+CREATE OR REPLACE FUNCTION is_conversation_member(p_conversation_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM persona_channels pc
+    JOIN contacts c ON c.id = pc.contact_id
+    WHERE pc.conversation_id = p_conversation_id
+    AND c.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Members can read their conversations"
+  ON conversations FOR SELECT
+  TO authenticated
+  USING (is_conversation_member(id));
+
+-- ============================================================================
+-- 2. MESSAGES - Store the conversation alongside the sender's channel
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at ON messages(conversation_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION set_message_conversation()
+RETURNS trigger AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM persona_channels
+  WHERE id = NEW.channel_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_set_message_conversation ON messages;
+CREATE TRIGGER trigger_set_message_conversation
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_conversation();
+
+DROP POLICY IF EXISTS "Users can read messages in their channels" ON messages;
+CREATE POLICY "Users can read messages in their conversations"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (
+    is_conversation_member(conversation_id)
+    OR EXISTS (
+      SELECT 1 FROM persona_channels pc
+      JOIN contacts c ON c.id = pc.contact_id
+      WHERE pc.id = messages.channel_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 3. TYPING INDICATORS - Visible to the other side of the conversation
+-- ============================================================================
+
+ALTER TABLE typing_indicators
+ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_typing_indicators_conversation_id ON typing_indicators(conversation_id);
+
+DROP TRIGGER IF EXISTS trigger_set_typing_conversation ON typing_indicators;
+CREATE TRIGGER trigger_set_typing_conversation
+  BEFORE INSERT ON typing_indicators
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_conversation();
+
+DROP POLICY IF EXISTS "Users can read typing in their channels" ON typing_indicators;
+CREATE POLICY "Users can read typing in their conversations"
+  ON typing_indicators FOR SELECT
+  TO authenticated
+  USING (is_conversation_member(conversation_id));
+
+-- ============================================================================
+-- 4. CHANNEL PAIRING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION ensure_persona_channel(p_contact_id uuid, p_persona_id uuid)
+RETURNS TABLE (
+  channel_id uuid,
+  conversation_id uuid,
+  is_locked boolean,
+  notification_enabled boolean,
+  peer_persona_name text
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contact contacts%ROWTYPE;
+  v_persona user_personas%ROWTYPE;
+  v_channel persona_channels%ROWTYPE;
+  v_peer_contact_id uuid;
+  v_peer_persona_id uuid;
+  v_peer_channel persona_channels%ROWTYPE;
+BEGIN
+  SELECT * INTO v_contact FROM contacts
+  WHERE id = p_contact_id AND user_id = v_user_id;
+
+  SELECT * INTO v_persona FROM user_personas
+  WHERE id = p_persona_id AND user_id = v_user_id;
+
+  IF v_contact.id IS NULL OR v_persona.id IS NULL THEN
+    RAISE EXCEPTION 'Contact or persona not found';
+  END IF;
+
+  INSERT INTO persona_channels (contact_id, persona_id)
+  VALUES (p_contact_id, p_persona_id)
+  ON CONFLICT (contact_id, persona_id) DO NOTHING;
+
+  SELECT * INTO v_channel FROM persona_channels
+  WHERE contact_id = p_contact_id AND persona_id = p_persona_id;
+
+  IF v_channel.conversation_id IS NULL THEN
+    -- Make sure the peer has us as a contact
+    INSERT INTO contacts (user_id, contact_user_id)
+    VALUES (v_contact.contact_user_id, v_user_id)
+    ON CONFLICT (user_id, contact_user_id) DO NOTHING;
+
+    SELECT id INTO v_peer_contact_id FROM contacts
+    WHERE user_id = v_contact.contact_user_id AND contact_user_id = v_user_id;
+
+    -- Match the peer persona by name, then fall back to mirroring ours
+    SELECT id INTO v_peer_persona_id FROM user_personas
+    WHERE user_id = v_contact.contact_user_id
+    AND lower(trim(name)) = lower(trim(v_persona.name))
+    ORDER BY is_active DESC, created_at
+    LIMIT 1;
+
+    IF v_peer_persona_id IS NULL THEN
+      INSERT INTO user_personas (
+        user_id, name, description, icon,
+        color_primary, color_secondary, color_accent, is_custom
+      )
+      VALUES (
+        v_contact.contact_user_id, v_persona.name, v_persona.description, v_persona.icon,
+        v_persona.color_primary, v_persona.color_secondary, v_persona.color_accent, true
+      )
+      RETURNING id INTO v_peer_persona_id;
+    END IF;
+
+    INSERT INTO persona_channels (contact_id, persona_id)
+    VALUES (v_peer_contact_id, v_peer_persona_id)
+    ON CONFLICT (contact_id, persona_id) DO NOTHING;
+
+    SELECT * INTO v_peer_channel FROM persona_channels
+    WHERE contact_id = v_peer_contact_id AND persona_id = v_peer_persona_id;
+
+    -- Adopt the peer's conversation if they paired first, otherwise start one
+    IF v_peer_channel.conversation_id IS NULL THEN
+      INSERT INTO conversations DEFAULT VALUES
+      RETURNING id INTO v_channel.conversation_id;
+
+      UPDATE persona_channels
+      SET conversation_id = v_channel.conversation_id
+      WHERE id = v_peer_channel.id;
+    ELSE
+      v_channel.conversation_id := v_peer_channel.conversation_id;
+    END IF;
+
+    UPDATE persona_channels
+    SET conversation_id = v_channel.conversation_id
+    WHERE id = v_channel.id;
+
+    -- Backfill messages sent before the channels were paired
+    UPDATE messages
+    SET conversation_id = v_channel.conversation_id
+    WHERE channel_id IN (v_channel.id, v_peer_channel.id)
+    AND conversation_id IS NULL;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_channel.id,
+    v_channel.conversation_id,
+    v_channel.is_locked,
+    v_channel.notification_enabled,
+    (
+      SELECT up.name FROM persona_channels pc
+      JOIN user_personas up ON up.id = pc.persona_id
+      WHERE pc.conversation_id = v_channel.conversation_id
+      AND pc.id != v_channel.id
+      LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. UNREAD COUNTS AND RECEIPTS ACROSS BOTH SIDES
+-- ============================================================================
+
+-- Bump the unread count and activity time on every other member's channel
+CREATE OR REPLACE FUNCTION increment_unread_count()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE persona_channels pc
+  SET
+    unread_count = pc.unread_count + 1,
+    last_message_at = NEW.created_at
+  FROM contacts c
+  WHERE c.id = pc.contact_id
+  AND pc.conversation_id = NEW.conversation_id
+  AND c.user_id != NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION mark_messages_as_read(p_channel_id uuid, p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE messages
+  SET
+    status = 'read',
+    read_at = now()
+  WHERE
+    conversation_id = (SELECT conversation_id FROM persona_channels WHERE id = p_channel_id)
+    AND is_conversation_member(conversation_id)
+    AND sender_id != p_user_id
+    AND status != 'read';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION mark_message_as_delivered(p_message_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE messages
+  SET
+    status = 'delivered',
+    delivered_at = now()
+  WHERE
+    id = p_message_id
+    AND is_conversation_member(conversation_id)
+    AND sender_id != auth.uid()
+    AND status = 'sent';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,12 @@
+/*
+  # Message Keyset Pagination Migration
+
+  ChatView now loads the newest page of a conversation first and fetches older
+  pages with a (created_at, id) keyset cursor. This index serves both the
+  ordering and the cursor comparison without a sort step.
+*/
+
+DROP INDEX IF EXISTS idx_messages_conversation_created_at;
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_keyset
+  ON messages(conversation_id, created_at DESC, id DESC);
@@ -0,0 +1,71 @@
+/*
+  # Message Edit History Migration
+
+  Senders can edit their own messages (the existing "Users can update own
+  messages" policy). Every content change keeps the previous text in
+  `message_revisions` so recipients can see what was changed.
+
+  ## Modified Tables
+  - messages: Add edited_at column
+
+  ## New Tables
+  - message_revisions: Previous versions of an edited message, written only
+    by the trigger below
+*/
+
+-- ============================================================================
+-- 1. MESSAGES - Track the last edit
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+-- ============================================================================
+-- 2. MESSAGE REVISIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read revisions in their conversations"
+  ON message_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_revisions.message_id
+      AND is_conversation_member(m.conversation_id)
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id ON message_revisions(message_id, created_at);
+
+-- ============================================================================
+-- 3. TRIGGER - Archive the previous content on edit
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION archive_message_revision()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_archive_message_revision ON messages;
+CREATE TRIGGER trigger_archive_message_revision
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_message_revision();
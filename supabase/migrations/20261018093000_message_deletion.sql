@@ -0,0 +1,125 @@
+/*
+  # Message Deletion Migration
+
+  Adds two ways to delete a message:
+  1. Delete for me - hides the message from one user's view only
+  2. Delete for everyone - the sender turns the message into a tombstone:
+     content and attachment columns are cleared, edit history is removed,
+     and `deleted_at` is stamped so both sides render "message deleted"
+
+  The attachment file itself is removed from the message-attachments bucket
+  by the client, which owns the upload.
+
+  ## New Tables
+  - hidden_messages: Messages a user has deleted for themselves
+
+  ## Modified Tables
+  - messages: Add deleted_at column, full replica identity for realtime DELETE
+*/
+
+-- ============================================================================
+-- 1. MESSAGES - Tombstones
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Realtime needs the old row to apply conversation filters to DELETE events
+ALTER TABLE messages REPLICA IDENTITY FULL;
+
+-- ============================================================================
+-- 2. HIDDEN MESSAGES TABLE (delete for me)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS hidden_messages (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE hidden_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own hidden messages"
+  ON hidden_messages FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can hide messages in their conversations"
+  ON hidden_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_id
+      AND is_conversation_member(m.conversation_id)
+    )
+  );
+
+CREATE POLICY "Users can unhide own hidden messages"
+  ON hidden_messages FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Hidden messages drop out of the user's queries and realtime stream
+DROP POLICY IF EXISTS "Users can read messages in their conversations" ON messages;
+CREATE POLICY "Users can read messages in their conversations"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (
+    (
+      is_conversation_member(conversation_id)
+      OR EXISTS (
+        SELECT 1 FROM persona_channels pc
+        JOIN contacts c ON c.id = pc.contact_id
+        WHERE pc.id = messages.channel_id
+        AND c.user_id = auth.uid()
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM hidden_messages hm
+      WHERE hm.message_id = messages.id
+      AND hm.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 3. DELETE FOR EVERYONE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE messages
+  SET
+    content = '',
+    file_url = NULL,
+    file_type = NULL,
+    file_name = NULL,
+    deleted_at = now()
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF FOUND THEN
+    DELETE FROM message_revisions WHERE message_id = p_message_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tombstoning clears the content, which must not be archived as an edit
+CREATE OR REPLACE FUNCTION archive_message_revision()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL AND NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
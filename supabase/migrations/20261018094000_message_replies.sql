@@ -0,0 +1,40 @@
+/*
+  # Quoted Replies Migration
+
+  Messages can reference an earlier message in the same conversation.
+
+  `reply_to_id` intentionally has no foreign key: if the original is later
+  purged the reply still knows it was a reply and the client shows
+  "original unavailable" instead of silently dropping the quote.
+
+  ## Modified Tables
+  - messages: Add reply_to_id column
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS reply_to_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_id ON messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+-- Replies may only quote messages from the same conversation
+CREATE OR REPLACE FUNCTION validate_message_reply()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.reply_to_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Reply target is not in this conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs after trigger_set_message_conversation (triggers fire in name order)
+DROP TRIGGER IF EXISTS trigger_validate_message_reply ON messages;
+CREATE TRIGGER trigger_validate_message_reply
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_message_reply();
@@ -0,0 +1,79 @@
+/*
+  # Message Reactions Migration
+
+  Emoji reactions on messages. Reactions live in their own table, so adding
+  or removing one never fires the increment_unread_count trigger on messages
+  and never bumps unread_count or last_message_at on a channel.
+
+  ## New Tables
+  - message_reactions: One row per (message, user, emoji)
+*/
+
+-- ============================================================================
+-- 1. MESSAGE REACTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 32),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Realtime needs the old row to apply conversation filters to DELETE events
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
+
+CREATE POLICY "Members can read reactions in their conversations"
+  ON message_reactions FOR SELECT
+  TO authenticated
+  USING (is_conversation_member(conversation_id));
+
+CREATE POLICY "Members can react in their conversations"
+  ON message_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_id
+      AND m.deleted_at IS NULL
+      AND is_conversation_member(m.conversation_id)
+    )
+  );
+
+CREATE POLICY "Users can remove own reactions"
+  ON message_reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message_id ON message_reactions(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_reactions_conversation_id ON message_reactions(conversation_id);
+
+-- Copy the conversation from the message so realtime can filter on it
+CREATE OR REPLACE FUNCTION set_reaction_conversation()
+RETURNS trigger AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_set_reaction_conversation ON message_reactions;
+CREATE TRIGGER trigger_set_reaction_conversation
+  BEFORE INSERT ON message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_reaction_conversation();
+
+-- ============================================================================
+-- 2. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
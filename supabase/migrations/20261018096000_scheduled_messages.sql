@@ -0,0 +1,156 @@
+/*
+  # Scheduled Messages Migration
+
+  Messages written now and delivered later, e.g. a Professional message held
+  until Monday 9am. Delivery runs in the database on a pg_cron schedule, so it
+  does not depend on the sender's tab staying open.
+
+  ## New Tables
+  - scheduled_messages: One row per message waiting to be sent on a channel
+
+  ## Lifecycle
+  - pending: waiting for send_at; the sender can edit or cancel (delete) it
+  - sent: copied into messages; sent_message_id points at the delivered row
+  - failed: could not be delivered (e.g. the quoted message is gone); the
+    sender can edit it, which puts it back to pending
+
+  ## Delivery
+  - deliver_scheduled_messages() inserts every due row as a normal message,
+    so the usual conversation, unread and realtime triggers all apply
+  - pg_cron runs it every minute when the extension is available; without
+    pg_cron, call the function from any scheduler (e.g. a local worker)
+*/
+
+-- ============================================================================
+-- 1. SCHEDULED MESSAGES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES persona_channels(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(trim(content)) > 0),
+  reply_to_id uuid,
+  send_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  sent_message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Realtime needs the old row to apply channel filters to DELETE events
+ALTER TABLE scheduled_messages REPLICA IDENTITY FULL;
+
+CREATE POLICY "Users can read own scheduled messages"
+  ON scheduled_messages FOR SELECT
+  TO authenticated
+  USING (auth.uid() = sender_id);
+
+CREATE POLICY "Users can schedule messages in their channels"
+  ON scheduled_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    status = 'pending' AND
+    EXISTS (
+      SELECT 1 FROM persona_channels pc
+      JOIN contacts c ON c.id = pc.contact_id
+      WHERE pc.id = channel_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can edit own unsent scheduled messages"
+  ON scheduled_messages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = sender_id AND status != 'sent')
+  WITH CHECK (auth.uid() = sender_id AND status = 'pending');
+
+CREATE POLICY "Users can cancel own unsent scheduled messages"
+  ON scheduled_messages FOR DELETE
+  TO authenticated
+  USING (auth.uid() = sender_id AND status != 'sent');
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_channel_id ON scheduled_messages(channel_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON scheduled_messages(send_at) WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION touch_scheduled_message()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_scheduled_message ON scheduled_messages;
+CREATE TRIGGER trigger_touch_scheduled_message
+  BEFORE UPDATE ON scheduled_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_scheduled_message();
+
+-- ============================================================================
+-- 2. DELIVERY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION deliver_scheduled_messages()
+RETURNS integer AS $$
+DECLARE
+  v_scheduled scheduled_messages%ROWTYPE;
+  v_message_id uuid;
+  v_delivered integer := 0;
+BEGIN
+  FOR v_scheduled IN
+    SELECT * FROM scheduled_messages
+    WHERE status = 'pending'
+    AND send_at <= now()
+    ORDER BY send_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO messages (channel_id, sender_id, content, reply_to_id, status)
+      VALUES (v_scheduled.channel_id, v_scheduled.sender_id, v_scheduled.content, v_scheduled.reply_to_id, 'sent')
+      RETURNING id INTO v_message_id;
+
+      UPDATE persona_channels
+      SET last_message_at = now()
+      WHERE id = v_scheduled.channel_id;
+
+      UPDATE scheduled_messages
+      SET status = 'sent', sent_message_id = v_message_id
+      WHERE id = v_scheduled.id;
+
+      v_delivered := v_delivered + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE scheduled_messages
+      SET status = 'failed'
+      WHERE id = v_scheduled.id;
+    END;
+  END LOOP;
+
+  RETURN v_delivered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler may deliver messages on behalf of other users
+REVOKE EXECUTE ON FUNCTION deliver_scheduled_messages() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'deliver-scheduled-messages',
+      '* * * * *',
+      'SELECT deliver_scheduled_messages()'
+    );
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 3. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE scheduled_messages;
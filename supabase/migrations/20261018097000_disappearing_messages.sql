@@ -0,0 +1,189 @@
+/*
+  # Disappearing Messages Migration
+
+  Ephemeral messages for personas like "Personal" or "Romantic". Each
+  channel has an optional timer; messages sent while it is on get an expiry
+  time and are purged, attachments included, once it passes.
+
+  ## Modified Tables
+  - persona_channels: Add disappearing_seconds (NULL = off). The setting is
+    shared: changing it updates every channel in the conversation.
+  - messages: Add expires_at, stamped on insert from the channel's timer
+  - messages: Add kind, so timer changes can be posted as a visible notice
+
+  ## Functions
+  - set_disappearing_timer: change the timer for the whole conversation and
+    post a notice about it
+  - purge_expired_messages: delete expired messages and their attachments;
+    runs every minute through pg_cron when the extension is available
+*/
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+ALTER TABLE persona_channels
+ADD COLUMN IF NOT EXISTS disappearing_seconds integer CHECK (disappearing_seconds > 0);
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'message' CHECK (kind IN ('message', 'notice'));
+
+CREATE INDEX IF NOT EXISTS idx_messages_expires_at ON messages(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ============================================================================
+-- 2. EXPIRY ON INSERT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_message_expiry()
+RETURNS trigger AS $$
+DECLARE
+  v_seconds integer;
+BEGIN
+  IF NEW.kind = 'notice' THEN
+    NEW.expires_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT disappearing_seconds INTO v_seconds
+  FROM persona_channels
+  WHERE id = NEW.channel_id;
+
+  NEW.expires_at := CASE
+    WHEN v_seconds IS NULL THEN NULL
+    ELSE COALESCE(NEW.created_at, now()) + make_interval(secs => v_seconds)
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_set_message_expiry ON messages;
+CREATE TRIGGER trigger_set_message_expiry
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_expiry();
+
+-- Notices are informational and should not show up as unread messages
+CREATE OR REPLACE FUNCTION increment_unread_count()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.kind = 'notice' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE persona_channels pc
+  SET
+    unread_count = pc.unread_count + 1,
+    last_message_at = NEW.created_at
+  FROM contacts c
+  WHERE c.id = pc.contact_id
+  AND pc.conversation_id = NEW.conversation_id
+  AND c.user_id != NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. CHANGING THE TIMER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_disappearing_timer(p_channel_id uuid, p_seconds integer)
+RETURNS void AS $$
+DECLARE
+  v_channel persona_channels%ROWTYPE;
+  v_label text;
+BEGIN
+  SELECT pc.* INTO v_channel
+  FROM persona_channels pc
+  JOIN contacts c ON c.id = pc.contact_id
+  WHERE pc.id = p_channel_id
+  AND c.user_id = auth.uid();
+
+  IF v_channel.id IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+
+  IF p_seconds IS NOT DISTINCT FROM v_channel.disappearing_seconds THEN
+    RETURN;
+  END IF;
+
+  UPDATE persona_channels
+  SET disappearing_seconds = p_seconds
+  WHERE id = v_channel.id
+  OR (v_channel.conversation_id IS NOT NULL AND conversation_id = v_channel.conversation_id);
+
+  v_label := CASE
+    WHEN p_seconds IS NULL THEN NULL
+    WHEN p_seconds % 604800 = 0 THEN (p_seconds / 604800) || CASE WHEN p_seconds = 604800 THEN ' week' ELSE ' weeks' END
+    WHEN p_seconds % 86400 = 0 THEN (p_seconds / 86400) || CASE WHEN p_seconds = 86400 THEN ' day' ELSE ' days' END
+    WHEN p_seconds % 3600 = 0 THEN (p_seconds / 3600) || CASE WHEN p_seconds = 3600 THEN ' hour' ELSE ' hours' END
+    WHEN p_seconds % 60 = 0 THEN (p_seconds / 60) || CASE WHEN p_seconds = 60 THEN ' minute' ELSE ' minutes' END
+    ELSE p_seconds || ' seconds'
+  END;
+
+  INSERT INTO messages (channel_id, sender_id, content, kind, status)
+  VALUES (
+    v_channel.id,
+    auth.uid(),
+    CASE
+      WHEN v_label IS NULL THEN 'turned off disappearing messages'
+      ELSE 'set messages to disappear after ' || v_label
+    END,
+    'notice',
+    'sent'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. PURGE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION purge_expired_messages()
+RETURNS integer AS $$
+DECLARE
+  v_purged integer;
+  v_file_paths text[];
+BEGIN
+  WITH expired AS (
+    DELETE FROM messages
+    WHERE expires_at IS NOT NULL
+    AND expires_at <= now()
+    RETURNING file_url
+  )
+  SELECT
+    count(*),
+    array_agg(split_part(split_part(file_url, '/message-attachments/', 2), '?', 1))
+      FILTER (WHERE file_url LIKE '%/message-attachments/%')
+  INTO v_purged, v_file_paths
+  FROM expired;
+
+  -- GIFs and other external URLs have no stored object to remove
+  IF v_file_paths IS NOT NULL THEN
+    DELETE FROM storage.objects
+    WHERE bucket_id = 'message-attachments'
+    AND name = ANY(v_file_paths);
+  END IF;
+
+  RETURN v_purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_messages() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'purge-expired-messages',
+      '* * * * *',
+      'SELECT purge_expired_messages()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,40 @@
+/*
+  # Forwarded Messages Migration
+
+  Messages can be forwarded into other persona channels. The copy keeps the
+  content and attachment URL and remembers which message it came from, so the
+  client can mark it as forwarded.
+
+  `forwarded_from_id` has no foreign key for the same reason as reply_to_id:
+  the original may be deleted or purged later, but the copy should still be
+  shown as forwarded.
+
+  ## Modified Tables
+  - messages: Add forwarded_from_id column
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS forwarded_from_id uuid;
+
+-- Only messages the sender can read may be forwarded
+CREATE OR REPLACE FUNCTION validate_message_forward()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.forwarded_from_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.forwarded_from_id
+    AND deleted_at IS NULL
+    AND is_conversation_member(conversation_id)
+  ) THEN
+    RAISE EXCEPTION 'Forwarded message not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_message_forward ON messages;
+CREATE TRIGGER trigger_validate_message_forward
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_message_forward();
@@ -0,0 +1,105 @@
+/*
+  # Pinned Messages Migration
+
+  Members can pin important messages (addresses, plans, decisions) so they
+  stay visible under the chat header. Pins are shared by everyone in the
+  conversation and limited to a few per conversation.
+
+  ## New Tables
+  - pinned_messages: One row per pinned message
+*/
+
+-- ============================================================================
+-- 1. PINNED MESSAGES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pinned_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  pinned_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(message_id)
+);
+
+ALTER TABLE pinned_messages ENABLE ROW LEVEL SECURITY;
+
+-- Realtime needs the old row to apply conversation filters to DELETE events
+ALTER TABLE pinned_messages REPLICA IDENTITY FULL;
+
+CREATE POLICY "Members can read pins in their conversations"
+  ON pinned_messages FOR SELECT
+  TO authenticated
+  USING (is_conversation_member(conversation_id));
+
+CREATE POLICY "Members can pin messages in their conversations"
+  ON pinned_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = pinned_by AND
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_id
+      AND m.deleted_at IS NULL
+      AND is_conversation_member(m.conversation_id)
+    )
+  );
+
+CREATE POLICY "Members can unpin messages in their conversations"
+  ON pinned_messages FOR DELETE
+  TO authenticated
+  USING (is_conversation_member(conversation_id));
+
+CREATE INDEX IF NOT EXISTS idx_pinned_messages_conversation_id ON pinned_messages(conversation_id);
+
+-- ============================================================================
+-- 2. CONVERSATION AND LIMIT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prepare_pinned_message()
+RETURNS trigger AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM messages
+  WHERE id = NEW.message_id;
+
+  -- Serialize pins per conversation so the limit holds under concurrent inserts
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.conversation_id::text));
+
+  IF (SELECT count(*) FROM pinned_messages WHERE conversation_id = NEW.conversation_id) >= 3 THEN
+    RAISE EXCEPTION 'Pin limit reached' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_prepare_pinned_message ON pinned_messages;
+CREATE TRIGGER trigger_prepare_pinned_message
+  BEFORE INSERT ON pinned_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_pinned_message();
+
+-- Deleting a message for everyone also takes down its pin
+CREATE OR REPLACE FUNCTION unpin_deleted_message()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    DELETE FROM pinned_messages WHERE message_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_unpin_deleted_message ON messages;
+CREATE TRIGGER trigger_unpin_deleted_message
+  AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION unpin_deleted_message();
+
+-- ============================================================================
+-- 3. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE pinned_messages;
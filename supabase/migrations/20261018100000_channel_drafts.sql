@@ -0,0 +1,56 @@
+/*
+  # Channel Drafts Migration
+
+  Unsent text is kept per persona channel so it survives switching persona or
+  contact. Drafts are saved in the browser first; this table mirrors them so
+  a draft started on one device can be finished on another.
+
+  ## New Tables
+  - channel_drafts: At most one draft per channel, private to its owner.
+    contact_id and persona_id are copied from the channel so the contact list
+    and persona pills can show a "Draft" marker without extra lookups.
+*/
+
+CREATE TABLE IF NOT EXISTS channel_drafts (
+  channel_id uuid PRIMARY KEY REFERENCES persona_channels(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  contact_id uuid NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  persona_id uuid NOT NULL REFERENCES user_personas(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE channel_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own drafts"
+  ON channel_drafts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save drafts in their channels"
+  ON channel_drafts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM persona_channels pc
+      JOIN contacts c ON c.id = pc.contact_id
+      WHERE pc.id = channel_id
+      AND pc.contact_id = channel_drafts.contact_id
+      AND pc.persona_id = channel_drafts.persona_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own drafts"
+  ON channel_drafts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own drafts"
+  ON channel_drafts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_channel_drafts_user_id ON channel_drafts(user_id);
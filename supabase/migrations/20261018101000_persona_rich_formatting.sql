@@ -0,0 +1,14 @@
+/*
+  # Persona Rich Formatting Migration
+
+  Messages support a safe Markdown subset (bold, italics, code, lists, links,
+  blockquotes). Some personas are better kept plain, so formatting can be
+  turned off per persona. When it is off, chats in that persona show message
+  text as written and the composer has no formatting preview or shortcuts.
+
+  ## Modified Tables
+  - user_personas: Add rich_formatting column
+*/
+
+ALTER TABLE user_personas
+ADD COLUMN IF NOT EXISTS rich_formatting boolean NOT NULL DEFAULT true;
@@ -0,0 +1,73 @@
+/*
+  # Link Previews Migration
+
+  Messages with a URL can carry an Open Graph preview card. Pages are fetched
+  by the unfurl edge function (supabase/functions/unfurl), never by the
+  browser, and the result is stored on the message so sender and recipient
+  see the same card even if the page changes later.
+
+  ## Modified Tables
+  - messages: Add link_preview (the card shown under the bubble) and
+    link_preview_disabled (the sender turned the preview off)
+
+  ## New Tables
+  - link_previews: Per-URL cache used by the unfurl function. Only the
+    service role reads or writes it, so there are no client policies.
+*/
+
+-- ============================================================================
+-- 1. MESSAGES - Preview card
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS link_preview jsonb,
+ADD COLUMN IF NOT EXISTS link_preview_disabled boolean NOT NULL DEFAULT false;
+
+-- A message whose preview was turned off never shows one again
+CREATE OR REPLACE FUNCTION clear_disabled_link_preview()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.link_preview_disabled THEN
+    NEW.link_preview := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_clear_disabled_link_preview ON messages;
+CREATE TRIGGER trigger_clear_disabled_link_preview
+  BEFORE INSERT OR UPDATE OF link_preview, link_preview_disabled ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_disabled_link_preview();
+
+-- ============================================================================
+-- 2. LINK PREVIEWS CACHE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  url text PRIMARY KEY,
+  preview jsonb,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_link_previews_fetched_at ON link_previews(fetched_at);
+
+-- ============================================================================
+-- 3. SCHEDULE - Drop stale cache entries
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'purge-link-previews',
+      '0 3 * * *',
+      $cron$DELETE FROM link_previews WHERE fetched_at < now() - interval '7 days'$cron$
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,497 @@
+/*
+  # Group Conversations Migration
+
+  Adds group chats on top of shared persona conversations. A group is a
+  conversation with any number of members, and each member takes part under
+  one of their own personas (e.g. their "Study" persona in a study group).
+
+  ## Model
+  - groups: name, description and icon of the group, plus the conversation
+    its messages are stored in
+  - group_members: who is in the group, the persona they joined under and
+    their role (owner, admin or member)
+  - contacts.group_id: every member gets a "group contact" row instead of a
+    person contact (contact_user_id is NULL), with one persona channel in the
+    group's conversation. Messages, receipts, typing, pins, drafts and the
+    disappearing timer therefore work exactly as in 1:1 chats, and unread
+    counts roll up per group through the existing contact_unread_counts view.
+
+  ## Membership
+  Members are only added, removed or re-assigned through the functions
+  below, which keep group_members, the group contact and its channel in
+  sync. A member who leaves keeps their contact row, but their channel is
+  detached from the conversation, so they lose access while the messages
+  they sent stay in the group.
+
+  ## Security
+  - Groups and their member lists are readable by members only
+  - Admins can rename the group and add or remove members; only the owner
+    can change roles or delete the group
+  - Members can only be added from the adder's own contacts
+*/
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL UNIQUE REFERENCES conversations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  description text NOT NULL DEFAULT '',
+  icon text NOT NULL DEFAULT '👥',
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS group_members (
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  persona_id uuid NOT NULL REFERENCES user_personas(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+-- Realtime needs the full row to deliver filtered DELETE events
+ALTER TABLE group_members REPLICA IDENTITY FULL;
+
+CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON group_members(user_id);
+
+ALTER TABLE groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_members ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. GROUP CONTACTS
+-- ============================================================================
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES groups(id) ON DELETE CASCADE;
+
+ALTER TABLE contacts
+ALTER COLUMN contact_user_id DROP NOT NULL;
+
+ALTER TABLE contacts
+ADD CONSTRAINT contacts_person_or_group CHECK ((contact_user_id IS NULL) != (group_id IS NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_user_group ON contacts(user_id, group_id) WHERE group_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. HELPERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_group_member(p_group_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = p_group_id
+    AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_group_role(p_group_id uuid)
+RETURNS text AS $$
+  SELECT role FROM group_members
+  WHERE group_id = p_group_id
+  AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. RLS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Members can read their groups"
+  ON groups FOR SELECT
+  TO authenticated
+  USING (is_group_member(id));
+
+CREATE POLICY "Admins can update their groups"
+  ON groups FOR UPDATE
+  TO authenticated
+  USING (get_group_role(id) IN ('owner', 'admin'))
+  WITH CHECK (get_group_role(id) IN ('owner', 'admin'));
+
+-- Only the profile of the group can be edited directly
+REVOKE UPDATE ON groups FROM authenticated;
+GRANT UPDATE (name, description, icon) ON groups TO authenticated;
+
+CREATE POLICY "Members can read group members"
+  ON group_members FOR SELECT
+  TO authenticated
+  USING (is_group_member(group_id));
+
+-- ============================================================================
+-- 5. TRIGGERS - Keep group contacts and channels tied to membership
+-- ============================================================================
+
+-- A group contact can only be created for a member of the group
+CREATE OR REPLACE FUNCTION validate_group_contact()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = NEW.group_id
+    AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_group_contact ON contacts;
+CREATE TRIGGER trigger_validate_group_contact
+  BEFORE INSERT OR UPDATE OF group_id, user_id ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_group_contact();
+
+-- A group channel may only join the group's conversation while its owner is a member
+CREATE OR REPLACE FUNCTION validate_group_channel()
+RETURNS trigger AS $$
+DECLARE
+  v_contact contacts%ROWTYPE;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_contact FROM contacts WHERE id = NEW.contact_id;
+
+  IF v_contact.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM groups g
+    JOIN group_members gm ON gm.group_id = g.id
+    WHERE g.id = v_contact.group_id
+    AND g.conversation_id = NEW.conversation_id
+    AND gm.user_id = v_contact.user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_group_channel ON persona_channels;
+CREATE TRIGGER trigger_validate_group_channel
+  BEFORE INSERT OR UPDATE OF conversation_id, contact_id ON persona_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_group_channel();
+
+-- ============================================================================
+-- 6. MEMBERSHIP FUNCTIONS
+-- ============================================================================
+
+-- Add a member (or bring a former member back) and connect their group channel
+CREATE OR REPLACE FUNCTION attach_group_member(
+  p_group_id uuid,
+  p_user_id uuid,
+  p_persona_id uuid,
+  p_role text
+)
+RETURNS uuid AS $$
+DECLARE
+  v_conversation_id uuid;
+  v_contact_id uuid;
+  v_channel_id uuid;
+BEGIN
+  SELECT conversation_id INTO v_conversation_id FROM groups WHERE id = p_group_id;
+
+  INSERT INTO group_members (group_id, user_id, persona_id, role)
+  VALUES (p_group_id, p_user_id, p_persona_id, p_role);
+
+  INSERT INTO contacts (user_id, group_id)
+  VALUES (p_user_id, p_group_id)
+  ON CONFLICT (user_id, group_id) WHERE group_id IS NOT NULL DO NOTHING;
+
+  SELECT id INTO v_contact_id FROM contacts
+  WHERE user_id = p_user_id AND group_id = p_group_id;
+
+  SELECT id INTO v_channel_id FROM persona_channels
+  WHERE contact_id = v_contact_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_channel_id IS NULL THEN
+    INSERT INTO persona_channels (contact_id, persona_id, conversation_id)
+    VALUES (v_contact_id, p_persona_id, v_conversation_id)
+    RETURNING id INTO v_channel_id;
+  ELSE
+    UPDATE persona_channels
+    SET persona_id = p_persona_id, conversation_id = v_conversation_id, unread_count = 0
+    WHERE id = v_channel_id;
+  END IF;
+
+  RETURN v_channel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION attach_group_member(uuid, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Post a notice like "added Sam" from a member's group channel
+CREATE OR REPLACE FUNCTION post_group_notice(p_group_id uuid, p_user_id uuid, p_content text)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO messages (channel_id, sender_id, content, kind, status)
+  SELECT pc.id, p_user_id, p_content, 'notice', 'sent'
+  FROM persona_channels pc
+  JOIN contacts c ON c.id = pc.contact_id
+  JOIN groups g ON g.id = c.group_id AND g.conversation_id = pc.conversation_id
+  WHERE c.group_id = p_group_id
+  AND c.user_id = p_user_id
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION post_group_notice(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- The persona a new member joins under: same name as the inviter's, else their first active one
+CREATE OR REPLACE FUNCTION pick_group_persona(p_user_id uuid, p_persona_name text)
+RETURNS uuid AS $$
+  SELECT id FROM user_personas
+  WHERE user_id = p_user_id
+  ORDER BY
+    (lower(trim(name)) = lower(trim(p_persona_name))) DESC,
+    is_active DESC,
+    created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION pick_group_persona(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION add_group_member(p_group_id uuid, p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_persona_name text;
+  v_persona_id uuid;
+BEGIN
+  IF get_group_role(p_group_id) IS DISTINCT FROM 'owner' AND get_group_role(p_group_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM contacts
+    WHERE user_id = auth.uid()
+    AND contact_user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Members can only be added from your contacts';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM group_members WHERE group_id = p_group_id AND user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT up.name INTO v_persona_name
+  FROM group_members gm
+  JOIN user_personas up ON up.id = gm.persona_id
+  WHERE gm.group_id = p_group_id
+  AND gm.user_id = auth.uid();
+
+  v_persona_id := pick_group_persona(p_user_id, v_persona_name);
+
+  IF v_persona_id IS NULL THEN
+    RAISE EXCEPTION 'This user has no personas yet';
+  END IF;
+
+  PERFORM attach_group_member(p_group_id, p_user_id, v_persona_id, 'member');
+  PERFORM post_group_notice(
+    p_group_id,
+    auth.uid(),
+    'added ' || (SELECT display_name FROM profiles WHERE id = p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION create_group(
+  p_name text,
+  p_persona_id uuid,
+  p_member_ids uuid[] DEFAULT '{}',
+  p_description text DEFAULT '',
+  p_icon text DEFAULT '👥'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_conversation_id uuid;
+  v_group_id uuid;
+  v_member_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_personas
+    WHERE id = p_persona_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Persona not found';
+  END IF;
+
+  INSERT INTO conversations DEFAULT VALUES
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO groups (conversation_id, name, description, icon, created_by)
+  VALUES (v_conversation_id, trim(p_name), COALESCE(p_description, ''), COALESCE(p_icon, '👥'), auth.uid())
+  RETURNING id INTO v_group_id;
+
+  PERFORM attach_group_member(v_group_id, auth.uid(), p_persona_id, 'owner');
+  PERFORM post_group_notice(v_group_id, auth.uid(), 'created the group');
+
+  FOREACH v_member_id IN ARRAY COALESCE(p_member_ids, '{}') LOOP
+    IF v_member_id != auth.uid() THEN
+      PERFORM add_group_member(v_group_id, v_member_id);
+    END IF;
+  END LOOP;
+
+  RETURN v_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove a member, or leave when p_user_id is yourself
+CREATE OR REPLACE FUNCTION remove_group_member(p_group_id uuid, p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_caller_role text := get_group_role(p_group_id);
+  v_target_role text;
+  v_successor uuid;
+BEGIN
+  SELECT role INTO v_target_role FROM group_members
+  WHERE group_id = p_group_id AND user_id = p_user_id;
+
+  IF v_caller_role IS NULL OR v_target_role IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF p_user_id != auth.uid() AND NOT (
+    v_caller_role = 'owner'
+    OR (v_caller_role = 'admin' AND v_target_role = 'member')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to remove this member';
+  END IF;
+
+  -- Post while the member's channel is still in the conversation
+  IF p_user_id = auth.uid() THEN
+    PERFORM post_group_notice(p_group_id, p_user_id, 'left the group');
+  ELSE
+    PERFORM post_group_notice(
+      p_group_id,
+      auth.uid(),
+      'removed ' || (SELECT display_name FROM profiles WHERE id = p_user_id)
+    );
+  END IF;
+
+  DELETE FROM group_members WHERE group_id = p_group_id AND user_id = p_user_id;
+
+  UPDATE persona_channels pc
+  SET conversation_id = NULL, unread_count = 0
+  FROM contacts c
+  WHERE c.id = pc.contact_id
+  AND c.group_id = p_group_id
+  AND c.user_id = p_user_id;
+
+  -- A group always has an owner: hand it to the longest-standing admin, then member
+  IF v_target_role = 'owner' THEN
+    SELECT user_id INTO v_successor FROM group_members
+    WHERE group_id = p_group_id
+    ORDER BY (role = 'admin') DESC, joined_at
+    LIMIT 1;
+
+    IF v_successor IS NULL THEN
+      DELETE FROM conversations
+      WHERE id = (SELECT conversation_id FROM groups WHERE id = p_group_id);
+    ELSE
+      UPDATE group_members SET role = 'owner'
+      WHERE group_id = p_group_id AND user_id = v_successor;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_group_member_role(p_group_id uuid, p_user_id uuid, p_role text)
+RETURNS void AS $$
+BEGIN
+  IF get_group_role(p_group_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'member') OR p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Invalid role change';
+  END IF;
+
+  UPDATE group_members SET role = p_role
+  WHERE group_id = p_group_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Switch the persona you take part in the group under
+CREATE OR REPLACE FUNCTION set_group_persona(p_group_id uuid, p_persona_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_group_member(p_group_id) THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_personas
+    WHERE id = p_persona_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Persona not found';
+  END IF;
+
+  UPDATE group_members SET persona_id = p_persona_id
+  WHERE group_id = p_group_id AND user_id = auth.uid();
+
+  UPDATE persona_channels pc
+  SET persona_id = p_persona_id
+  FROM contacts c
+  WHERE c.id = pc.contact_id
+  AND c.group_id = p_group_id
+  AND c.user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting the conversation removes the group, its messages and every member's channel
+CREATE OR REPLACE FUNCTION delete_group(p_group_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF get_group_role(p_group_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the group owner can delete the group';
+  END IF;
+
+  DELETE FROM conversations
+  WHERE id = (SELECT conversation_id FROM groups WHERE id = p_group_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Members with display names and persona colors, for sender labels in the chat
+CREATE OR REPLACE FUNCTION get_group_members(p_group_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  role text,
+  joined_at timestamptz,
+  persona_name text,
+  persona_icon text,
+  color_primary text,
+  color_accent text
+) AS $$
+  SELECT
+    gm.user_id,
+    p.display_name,
+    gm.role,
+    gm.joined_at,
+    up.name,
+    up.icon,
+    up.color_primary,
+    up.color_accent
+  FROM group_members gm
+  JOIN profiles p ON p.id = gm.user_id
+  JOIN user_personas up ON up.id = gm.persona_id
+  WHERE gm.group_id = p_group_id
+  AND is_group_member(p_group_id)
+  ORDER BY gm.joined_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 7. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE groups;
+ALTER PUBLICATION supabase_realtime ADD TABLE group_members;
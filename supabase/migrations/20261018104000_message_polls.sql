@@ -0,0 +1,237 @@
+/*
+  # Message Polls Migration
+
+  Polls are a message kind: the question, options and settings are stored on
+  the message itself, so a poll is sent through the outbox like any other
+  message and appears atomically for everyone. Votes live in their own table
+  and are only cast through cast_poll_vote, which enforces the closing time
+  and the single/multiple choice setting.
+
+  Voters of an anonymous poll must stay hidden, but everyone should still see
+  the results change live. Each vote therefore also updates a per-poll tally
+  row that every member can read and that realtime broadcasts; the individual
+  votes are only readable for named polls (and your own votes, always).
+
+  ## Modified Tables
+  - messages: kind gains 'poll'; add poll (the poll definition)
+
+  ## New Tables
+  - poll_votes: One row per (poll message, voter, chosen option)
+  - poll_tallies: Vote count per option and number of voters, per poll
+*/
+
+-- ============================================================================
+-- 1. MESSAGES - Poll definition
+-- ============================================================================
+
+-- {question, options[], multiple, anonymous, closes_at}
+CREATE OR REPLACE FUNCTION is_valid_poll(p_poll jsonb)
+RETURNS boolean AS $$
+  SELECT
+    jsonb_typeof(p_poll->'question') = 'string'
+    AND char_length(btrim(p_poll->>'question')) BETWEEN 1 AND 300
+    AND jsonb_typeof(p_poll->'options') = 'array'
+    AND jsonb_array_length(p_poll->'options') BETWEEN 2 AND 10
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_poll->'options') AS o(value)
+      WHERE jsonb_typeof(o.value) != 'string'
+      OR char_length(btrim(o.value #>> '{}')) NOT BETWEEN 1 AND 100
+    )
+    AND jsonb_typeof(p_poll->'multiple') = 'boolean'
+    AND jsonb_typeof(p_poll->'anonymous') = 'boolean'
+    AND (
+      jsonb_typeof(p_poll->'closes_at') IS NULL
+      OR jsonb_typeof(p_poll->'closes_at') = 'null'
+      OR jsonb_typeof(p_poll->'closes_at') = 'string'
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_kind_check;
+ALTER TABLE messages
+ADD CONSTRAINT messages_kind_check CHECK (kind IN ('message', 'notice', 'poll'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS poll jsonb
+CONSTRAINT messages_poll_check CHECK (poll IS NULL OR (kind = 'poll' AND is_valid_poll(poll)));
+
+-- Voters chose from the options as sent, so a poll can't be edited afterwards
+CREATE OR REPLACE FUNCTION protect_poll_definition()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.kind = 'poll' AND NEW.deleted_at IS NULL THEN
+    NEW.kind := OLD.kind;
+    NEW.poll := OLD.poll;
+    NEW.content := OLD.content;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_poll_definition ON messages;
+CREATE TRIGGER trigger_protect_poll_definition
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_poll_definition();
+
+-- ============================================================================
+-- 2. POLL VOTES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  option_index smallint NOT NULL CHECK (option_index BETWEEN 0 AND 9),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, option_index)
+);
+
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are written by cast_poll_vote only, so there are no write policies
+CREATE POLICY "Members can read named votes and their own"
+  ON poll_votes FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR (
+      is_conversation_member(conversation_id)
+      AND EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.id = poll_votes.message_id
+        AND NOT (m.poll->>'anonymous')::boolean
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_poll_votes_message_id ON poll_votes(message_id);
+
+-- ============================================================================
+-- 3. POLL TALLIES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS poll_tallies (
+  message_id uuid PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE,
+  counts integer[] NOT NULL DEFAULT '{}',
+  voter_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE poll_tallies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read poll results in their conversations"
+  ON poll_tallies FOR SELECT
+  TO authenticated
+  USING (is_conversation_member(conversation_id));
+
+CREATE INDEX IF NOT EXISTS idx_poll_tallies_conversation_id ON poll_tallies(conversation_id);
+
+-- ============================================================================
+-- 4. VOTING
+-- ============================================================================
+
+-- Replace the caller's votes on a poll with p_options (option indexes);
+-- an empty array withdraws the vote
+CREATE OR REPLACE FUNCTION cast_poll_vote(p_message_id uuid, p_options integer[])
+RETURNS void AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_options integer[];
+  v_option_count integer;
+  v_counts integer[];
+BEGIN
+  SELECT * INTO v_message
+  FROM messages
+  WHERE id = p_message_id;
+
+  IF v_message.id IS NULL
+    OR v_message.kind != 'poll'
+    OR v_message.poll IS NULL
+    OR v_message.deleted_at IS NOT NULL
+    OR NOT is_conversation_member(v_message.conversation_id) THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF (v_message.poll->>'closes_at') IS NOT NULL
+    AND (v_message.poll->>'closes_at')::timestamptz <= now() THEN
+    RAISE EXCEPTION 'This poll is closed';
+  END IF;
+
+  v_option_count := jsonb_array_length(v_message.poll->'options');
+  v_options := ARRAY(SELECT DISTINCT unnest(COALESCE(p_options, '{}')) ORDER BY 1);
+
+  IF EXISTS (SELECT 1 FROM unnest(v_options) AS o WHERE o < 0 OR o >= v_option_count) THEN
+    RAISE EXCEPTION 'Unknown poll option';
+  END IF;
+
+  IF NOT (v_message.poll->>'multiple')::boolean AND cardinality(v_options) > 1 THEN
+    RAISE EXCEPTION 'This poll allows only one choice';
+  END IF;
+
+  DELETE FROM poll_votes
+  WHERE message_id = p_message_id
+  AND user_id = auth.uid();
+
+  INSERT INTO poll_votes (message_id, conversation_id, user_id, option_index)
+  SELECT p_message_id, v_message.conversation_id, auth.uid(), o
+  FROM unnest(v_options) AS o;
+
+  SELECT ARRAY(
+    SELECT count(pv.user_id)::integer
+    FROM generate_series(0, v_option_count - 1) AS i
+    LEFT JOIN poll_votes pv ON pv.message_id = p_message_id AND pv.option_index = i
+    GROUP BY i
+    ORDER BY i
+  ) INTO v_counts;
+
+  INSERT INTO poll_tallies (message_id, conversation_id, counts, voter_count, updated_at)
+  VALUES (
+    p_message_id,
+    v_message.conversation_id,
+    v_counts,
+    (SELECT count(DISTINCT user_id) FROM poll_votes WHERE message_id = p_message_id),
+    now()
+  )
+  ON CONFLICT (message_id) DO UPDATE
+  SET
+    counts = EXCLUDED.counts,
+    voter_count = EXCLUDED.voter_count,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. DELETE FOR EVERYONE - Drop the poll with the message
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE messages
+  SET
+    content = '',
+    file_url = NULL,
+    file_type = NULL,
+    file_name = NULL,
+    poll = NULL,
+    deleted_at = now()
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF FOUND THEN
+    DELETE FROM message_revisions WHERE message_id = p_message_id;
+    DELETE FROM poll_votes WHERE message_id = p_message_id;
+    DELETE FROM poll_tallies WHERE message_id = p_message_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE poll_tallies;
@@ -0,0 +1,120 @@
+/*
+  # Starred Messages Migration
+
+  Users can star any message to keep it in a personal "Starred" collection
+  across all contacts and personas. Stars are private: nobody else can see
+  what you starred, and starring never touches the message itself.
+
+  ## New Tables
+  - starred_messages: One row per (user, message), remembering the user's own
+    channel so the collection can be grouped by contact and persona
+
+  ## New Functions
+  - get_starred_messages: The caller's starred messages with their contact
+    and persona, skipping messages that were deleted or are no longer readable
+*/
+
+-- ============================================================================
+-- 1. STARRED MESSAGES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS starred_messages (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  channel_id uuid NOT NULL REFERENCES persona_channels(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE starred_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own stars"
+  ON starred_messages FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can star messages in their own channels"
+  ON starred_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM persona_channels pc
+      JOIN contacts c ON c.id = pc.contact_id
+      JOIN messages m ON m.conversation_id = pc.conversation_id
+      WHERE pc.id = channel_id
+      AND c.user_id = auth.uid()
+      AND m.id = message_id
+      AND m.deleted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can remove own stars"
+  ON starred_messages FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_starred_messages_channel_id ON starred_messages(channel_id);
+
+-- ============================================================================
+-- 2. STARRED COLLECTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_starred_messages()
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  starred_at timestamptz,
+  content text,
+  kind text,
+  file_name text,
+  file_type text,
+  sender_id uuid,
+  sender_name text,
+  sent_at timestamptz,
+  contact_id uuid,
+  contact_name text,
+  group_id uuid,
+  persona_id uuid,
+  persona_name text,
+  persona_icon text,
+  color_primary text,
+  color_accent text
+) AS $$
+  SELECT
+    sm.message_id,
+    m.conversation_id,
+    sm.created_at,
+    m.content,
+    m.kind,
+    m.file_name,
+    m.file_type,
+    m.sender_id,
+    sender.display_name,
+    m.created_at,
+    c.id,
+    COALESCE(g.name, c.nickname, contact_profile.display_name),
+    c.group_id,
+    up.id,
+    up.name,
+    up.icon,
+    up.color_primary,
+    up.color_accent
+  FROM starred_messages sm
+  JOIN messages m ON m.id = sm.message_id
+  JOIN persona_channels pc ON pc.id = sm.channel_id
+  JOIN contacts c ON c.id = pc.contact_id
+  JOIN user_personas up ON up.id = pc.persona_id
+  JOIN profiles sender ON sender.id = m.sender_id
+  LEFT JOIN profiles contact_profile ON contact_profile.id = c.contact_user_id
+  LEFT JOIN groups g ON g.id = c.group_id
+  WHERE sm.user_id = auth.uid()
+  AND m.deleted_at IS NULL
+  AND pc.conversation_id = m.conversation_id
+  AND NOT EXISTS (
+    SELECT 1 FROM hidden_messages hm
+    WHERE hm.message_id = m.id
+    AND hm.user_id = auth.uid()
+  )
+  ORDER BY sm.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
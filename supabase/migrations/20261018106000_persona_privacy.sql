@@ -0,0 +1,127 @@
+/*
+  # Persona Privacy Migration
+
+  Read receipts and typing indicators can be turned off per persona, e.g.
+  shared in Fun but hidden in Professional. Both rules are reciprocal: a
+  persona that hides its own receipts or typing doesn't see the other side's
+  either.
+
+  Without read receipts, messages are still marked delivered, so the sender
+  sees plain "delivered" instead of "read". Typing indicators from a persona
+  that hides them are dropped before they are stored.
+
+  ## Modified Tables
+  - user_personas: Add send_read_receipts and send_typing_indicators
+
+  ## Modified Functions
+  - mark_messages_as_read: Only marks messages read when both sides share
+    receipts; otherwise marks them delivered
+*/
+
+-- ============================================================================
+-- 1. USER PERSONAS - Privacy settings
+-- ============================================================================
+
+ALTER TABLE user_personas
+ADD COLUMN IF NOT EXISTS send_read_receipts boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS send_typing_indicators boolean NOT NULL DEFAULT true;
+
+-- Whether a user's persona in a conversation shares read receipts
+CREATE OR REPLACE FUNCTION shares_read_receipts(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE(bool_and(up.send_read_receipts), true)
+  FROM persona_channels pc
+  JOIN contacts c ON c.id = pc.contact_id
+  JOIN user_personas up ON up.id = pc.persona_id
+  WHERE pc.conversation_id = p_conversation_id
+  AND c.user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether a user's persona in a conversation shares typing indicators
+CREATE OR REPLACE FUNCTION shares_typing_indicators(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE(bool_and(up.send_typing_indicators), true)
+  FROM persona_channels pc
+  JOIN contacts c ON c.id = pc.contact_id
+  JOIN user_personas up ON up.id = pc.persona_id
+  WHERE pc.conversation_id = p_conversation_id
+  AND c.user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. READ RECEIPTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION mark_messages_as_read(p_channel_id uuid, p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_conversation_id uuid;
+BEGIN
+  SELECT conversation_id INTO v_conversation_id
+  FROM persona_channels
+  WHERE id = p_channel_id;
+
+  IF v_conversation_id IS NULL OR NOT is_conversation_member(v_conversation_id) THEN
+    RETURN;
+  END IF;
+
+  IF shares_read_receipts(v_conversation_id, p_user_id) THEN
+    UPDATE messages m
+    SET
+      status = 'read',
+      read_at = now()
+    WHERE
+      m.conversation_id = v_conversation_id
+      AND m.sender_id != p_user_id
+      AND m.status != 'read'
+      AND shares_read_receipts(v_conversation_id, m.sender_id);
+  END IF;
+
+  -- Messages that can't be marked read still show they arrived
+  UPDATE messages m
+  SET
+    status = 'delivered',
+    delivered_at = COALESCE(m.delivered_at, now())
+  WHERE
+    m.conversation_id = v_conversation_id
+    AND m.sender_id != p_user_id
+    AND m.status = 'sent';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. TYPING INDICATORS
+-- ============================================================================
+
+-- Drop indicators from personas that hide typing instead of storing them
+CREATE OR REPLACE FUNCTION suppress_hidden_typing()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM persona_channels pc
+    JOIN user_personas up ON up.id = pc.persona_id
+    WHERE pc.id = NEW.channel_id
+    AND NOT up.send_typing_indicators
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_suppress_hidden_typing ON typing_indicators;
+CREATE TRIGGER trigger_suppress_hidden_typing
+  BEFORE INSERT OR UPDATE ON typing_indicators
+  FOR EACH ROW
+  EXECUTE FUNCTION suppress_hidden_typing();
+
+-- Reciprocal: hiding your own typing also hides everyone else's
+DROP POLICY IF EXISTS "Users can read typing in their conversations" ON typing_indicators;
+CREATE POLICY "Users can read typing in their conversations"
+  ON typing_indicators FOR SELECT
+  TO authenticated
+  USING (
+    is_conversation_member(conversation_id)
+    AND shares_typing_indicators(conversation_id, auth.uid())
+  );
@@ -0,0 +1,64 @@
+/*
+  # Message Tone Migration
+
+  Messages get a detected tone (playful, formal, tense, affectionate or
+  neutral), labelled on the client by a pluggable classifier. Either side of
+  a conversation may label a message that has no tone yet, so messages from
+  older clients are labelled by whoever reads them first. Editing a message
+  clears its tone so the new text is labelled again.
+
+  ## Modified Tables
+  - messages: detected_tone limited to the known tones
+
+  ## New Functions
+  - set_message_tones: Label a batch of unlabelled messages the caller can read
+*/
+
+-- ============================================================================
+-- 1. MESSAGES - Known tones
+-- ============================================================================
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_detected_tone_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_detected_tone_check
+CHECK (detected_tone IS NULL OR detected_tone IN ('playful', 'formal', 'tense', 'affectionate', 'neutral'));
+
+-- ============================================================================
+-- 2. LABELLING
+-- ============================================================================
+
+-- The first label wins, so both sides see the same tone even if they use
+-- different classifiers
+CREATE OR REPLACE FUNCTION set_message_tones(p_message_ids uuid[], p_tones text[])
+RETURNS void AS $$
+BEGIN
+  UPDATE messages m
+  SET detected_tone = t.tone
+  FROM unnest(p_message_ids, p_tones) AS t(message_id, tone)
+  WHERE m.id = t.message_id
+  AND m.detected_tone IS NULL
+  AND m.kind = 'message'
+  AND m.deleted_at IS NULL
+  AND is_conversation_member(m.conversation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Edited text is labelled again
+CREATE OR REPLACE FUNCTION reset_message_tone()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content AND NEW.detected_tone IS NOT DISTINCT FROM OLD.detected_tone THEN
+    NEW.detected_tone := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_reset_message_tone ON messages;
+CREATE TRIGGER trigger_reset_message_tone
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_message_tone();
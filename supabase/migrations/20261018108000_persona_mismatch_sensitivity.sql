@@ -0,0 +1,21 @@
+/*
+  # Persona Mismatch Sensitivity Migration
+
+  Before sending, the draft's tone is compared with what the persona is for,
+  e.g. a formal work note in "Romantic" or slang in "Professional", and the
+  user is asked whether to send it anyway or switch persona. How readily
+  that prompt appears is set per persona.
+
+  ## Modified Tables
+  - user_personas: Add mismatch_sensitivity ('off', 'low', 'medium', 'high')
+*/
+
+ALTER TABLE user_personas
+ADD COLUMN IF NOT EXISTS mismatch_sensitivity text NOT NULL DEFAULT 'medium';
+
+ALTER TABLE user_personas
+DROP CONSTRAINT IF EXISTS user_personas_mismatch_sensitivity_check;
+
+ALTER TABLE user_personas
+ADD CONSTRAINT user_personas_mismatch_sensitivity_check
+CHECK (mismatch_sensitivity IN ('off', 'low', 'medium', 'high'));
@@ -0,0 +1,42 @@
+/*
+  # Persona Schedules Migration
+
+  Personas can follow a weekly calendar, e.g. "Professional" on weekdays
+  9:00-18:00 or "Gaming" only in the evening. Times are in the schedule's
+  own timezone. Outside its windows a persona is either hidden from the
+  persona bar or marked "off-hours", is not picked as the default persona,
+  and holds its notifications until the next window opens.
+
+  ## Modified Tables
+  - user_personas: Add schedule (NULL means always available)
+    { timezone, off_hours: 'hide' | 'mark', windows: [{ day, start, end }] }
+    day is 0 (Sunday) to 6; start and end are minutes from midnight, and a
+    window whose end is not after its start runs past midnight
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_persona_schedule(p_schedule jsonb)
+RETURNS boolean AS $$
+  SELECT
+    jsonb_typeof(p_schedule->'timezone') = 'string'
+    AND char_length(p_schedule->>'timezone') BETWEEN 1 AND 64
+    AND p_schedule->>'off_hours' IN ('hide', 'mark')
+    AND jsonb_typeof(p_schedule->'windows') = 'array'
+    AND jsonb_array_length(p_schedule->'windows') <= 28
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_schedule->'windows') AS w(value)
+      WHERE CASE
+        WHEN jsonb_typeof(w.value->'day') = 'number'
+          AND jsonb_typeof(w.value->'start') = 'number'
+          AND jsonb_typeof(w.value->'end') = 'number'
+        THEN (w.value->>'day')::numeric NOT IN (0, 1, 2, 3, 4, 5, 6)
+          OR (w.value->>'start')::numeric NOT BETWEEN 0 AND 1439
+          OR (w.value->>'end')::numeric NOT BETWEEN 1 AND 1440
+          OR (w.value->>'start')::numeric = (w.value->>'end')::numeric
+        ELSE true
+      END
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE user_personas
+ADD COLUMN IF NOT EXISTS schedule jsonb
+CONSTRAINT user_personas_schedule_check CHECK (schedule IS NULL OR is_valid_persona_schedule(schedule));
@@ -0,0 +1,78 @@
+/*
+  # Contact Persona Allowlists Migration
+
+  Users can limit which of their personas are used with a contact, so e.g. a
+  manager never gets a "Romantic" channel. The allowlist is enforced here, not
+  only in the UI: channels for other personas cannot be opened, including by
+  the contact pairing into them from their side, and nothing more can be sent
+  in channels that existed before the persona was taken off the list.
+
+  ## Modified Tables
+  - contacts: Add allowed_persona_ids (NULL means every persona is allowed)
+
+  ## Security
+  - persona_channels: Inserts for a persona the contact's owner does not
+    allow are rejected, which also stops ensure_persona_channel
+  - messages: Inserts into such channels are rejected; scheduled messages
+    that come due in them are marked failed
+*/
+
+-- ============================================================================
+-- 1. ALLOWLIST
+-- ============================================================================
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS allowed_persona_ids uuid[]
+CONSTRAINT contacts_allowed_persona_ids_check CHECK (allowed_persona_ids IS NULL OR cardinality(allowed_persona_ids) BETWEEN 1 AND 100);
+
+-- Returns true when the contact's owner allows the persona with that contact
+CREATE OR REPLACE FUNCTION is_persona_allowed(p_contact_id uuid, p_persona_id uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE((
+    SELECT allowed_persona_ids IS NULL OR p_persona_id = ANY(allowed_persona_ids)
+    FROM contacts
+    WHERE id = p_contact_id
+  ), true);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. ENFORCEMENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_channel_persona_allowlist()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT is_persona_allowed(NEW.contact_id, NEW.persona_id) THEN
+    RAISE EXCEPTION 'This persona is not available with this contact';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_channel_persona_allowlist ON persona_channels;
+CREATE TRIGGER trigger_enforce_channel_persona_allowlist
+  BEFORE INSERT ON persona_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_channel_persona_allowlist();
+
+CREATE OR REPLACE FUNCTION enforce_message_persona_allowlist()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT (
+    SELECT is_persona_allowed(contact_id, persona_id)
+    FROM persona_channels
+    WHERE id = NEW.channel_id
+  ) THEN
+    RAISE EXCEPTION 'This persona is not available with this contact';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_message_persona_allowlist ON messages;
+CREATE TRIGGER trigger_enforce_message_persona_allowlist
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_message_persona_allowlist();
@@ -0,0 +1,132 @@
+/*
+  # Link Preview Hardening Migration
+
+  Preview cards are rendered as links for every member of a conversation, so
+  clients may no longer write messages.link_preview themselves. Cards are
+  saved through set_link_preview, which only accepts an http(s) URL that
+  appears in the message, and removed through remove_link_preview.
+  Messages deleted for everyone lose their card along with their content.
+
+  ## Security
+  - messages: link_preview and link_preview_disabled are left out of the
+    client INSERT and UPDATE grants (link_preview_disabled can still be set
+    when the message is sent)
+*/
+
+-- ============================================================================
+-- 1. COLUMN GRANTS
+-- ============================================================================
+
+REVOKE INSERT, UPDATE ON messages FROM anon, authenticated;
+
+GRANT INSERT (
+  id, channel_id, conversation_id, sender_id, content, detected_tone, is_read,
+  status, delivered_at, read_at, file_url, file_type, file_name, edited_at,
+  deleted_at, reply_to_id, forwarded_from_id, expires_at, kind,
+  link_preview_disabled, poll, created_at
+) ON messages TO authenticated;
+
+GRANT UPDATE (
+  id, channel_id, conversation_id, sender_id, content, detected_tone, is_read,
+  status, delivered_at, read_at, file_url, file_type, file_name, edited_at,
+  deleted_at, reply_to_id, forwarded_from_id, expires_at, kind, poll, created_at
+) ON messages TO authenticated;
+
+-- ============================================================================
+-- 2. SAVING AND REMOVING CARDS
+-- ============================================================================
+
+-- Returns true for a card shaped like the unfurl function's output
+CREATE OR REPLACE FUNCTION is_valid_link_preview(p_preview jsonb)
+RETURNS boolean AS $$
+  SELECT
+    jsonb_typeof(p_preview) = 'object'
+    AND jsonb_typeof(p_preview->'url') = 'string'
+    AND char_length(p_preview->>'url') <= 2048
+    AND p_preview->>'url' ~* '^https?://[^\s]+$'
+    AND jsonb_typeof(p_preview->'title') = 'string'
+    AND char_length(p_preview->>'title') BETWEEN 1 AND 200
+    AND COALESCE(jsonb_typeof(p_preview->'description'), 'null') IN ('string', 'null')
+    AND COALESCE(char_length(p_preview->>'description'), 0) <= 300
+    AND COALESCE(jsonb_typeof(p_preview->'site_name'), 'null') IN ('string', 'null')
+    AND COALESCE(char_length(p_preview->>'site_name'), 0) <= 100
+    AND COALESCE(jsonb_typeof(p_preview->'image'), 'null') IN ('string', 'null')
+    AND (
+      p_preview->>'image' IS NULL
+      OR (
+        p_preview->>'image' ~ '^data:image/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/=]+$'
+        AND char_length(p_preview->>'image') <= 140000
+      )
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Saves the card of one of your messages; the link must be in the message
+CREATE OR REPLACE FUNCTION set_link_preview(p_message_id uuid, p_preview jsonb)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_valid_link_preview(p_preview) THEN
+    RAISE EXCEPTION 'Invalid link preview';
+  END IF;
+
+  UPDATE messages
+  SET link_preview = jsonb_build_object(
+    'url', p_preview->>'url',
+    'title', p_preview->>'title',
+    'description', p_preview->>'description',
+    'site_name', p_preview->>'site_name',
+    'image', p_preview->>'image'
+  )
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND kind = 'message'
+    AND deleted_at IS NULL
+    AND NOT link_preview_disabled
+    AND position(p_preview->>'url' IN content) > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION remove_link_preview(p_message_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE messages
+  SET link_preview_disabled = true
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. DELETE FOR EVERYONE - Drop the card with the message
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE messages
+  SET
+    content = '',
+    file_url = NULL,
+    file_type = NULL,
+    file_name = NULL,
+    poll = NULL,
+    link_preview = NULL,
+    deleted_at = now()
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF FOUND THEN
+    DELETE FROM message_revisions WHERE message_id = p_message_id;
+    DELETE FROM poll_votes WHERE message_id = p_message_id;
+    DELETE FROM poll_tallies WHERE message_id = p_message_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tombstones from before this migration
+UPDATE messages
+SET link_preview = NULL
+WHERE deleted_at IS NOT NULL AND link_preview IS NOT NULL;
@@ -0,0 +1,322 @@
+/*
+  # Conversation Membership Hardening Migration
+
+  Membership of a conversation comes from persona_channels.conversation_id,
+  and messages are read through messages.conversation_id, so clients may no
+  longer write either column. Channels are paired only by
+  ensure_persona_channel and the other SECURITY DEFINER functions.
+
+  Pairing also no longer creates contacts or personas in the other person's
+  account. A chat with someone who has not added you, or who has no persona
+  with the same name, starts as a persona request. Messages can be sent right
+  away; the other person sees them once they accept.
+
+  ## New Tables
+  - persona_requests: One row per channel waiting for the other person
+    - from_user_id, to_user_id
+    - channel_id (the requester's channel; removed with it)
+
+  ## Pairing rules (ensure_persona_channel, replacing rules 3 and 4)
+  3. If the peer has not added the sender as a contact, or has no persona with
+     that name, the channel gets a conversation of its own and a request is
+     sent to the peer instead.
+  4. accept_persona_request adds the contact on the accepting side and joins
+     the conversation with the chosen persona, the persona with the same name,
+     or a new persona mirroring the sender's.
+
+  ## Security
+  - persona_channels: Clients can only update last_message_at, is_locked and
+    notification_enabled, and cannot insert a conversation_id
+  - messages: channel_id, conversation_id and sender_id are left out of the
+    client UPDATE grant, and conversation_id out of the INSERT grant (it is
+    always taken from the channel)
+*/
+
+-- ============================================================================
+-- 1. COLUMN GRANTS
+-- ============================================================================
+
+REVOKE INSERT, UPDATE ON persona_channels FROM anon, authenticated;
+
+GRANT INSERT (contact_id, persona_id, is_locked, notification_enabled) ON persona_channels TO authenticated;
+GRANT UPDATE (last_message_at, is_locked, notification_enabled) ON persona_channels TO authenticated;
+
+REVOKE INSERT, UPDATE ON messages FROM anon, authenticated;
+
+GRANT INSERT (
+  id, channel_id, sender_id, content, detected_tone, is_read, status,
+  delivered_at, read_at, file_url, file_type, file_name, edited_at,
+  deleted_at, reply_to_id, forwarded_from_id, expires_at, kind,
+  link_preview_disabled, poll, created_at
+) ON messages TO authenticated;
+
+GRANT UPDATE (
+  content, detected_tone, is_read, status, delivered_at, read_at, file_url,
+  file_type, file_name, edited_at, deleted_at, reply_to_id, forwarded_from_id,
+  expires_at, kind, poll, created_at
+) ON messages TO authenticated;
+
+-- ============================================================================
+-- 2. PERSONA REQUESTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS persona_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  to_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  channel_id uuid NOT NULL UNIQUE REFERENCES persona_channels(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_persona_requests_to_user_id ON persona_requests(to_user_id, created_at DESC);
+
+ALTER TABLE persona_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their persona requests"
+  ON persona_requests FOR SELECT
+  TO authenticated
+  USING (auth.uid() IN (from_user_id, to_user_id));
+
+-- Ignoring a request just removes it; the sender's channel is kept
+CREATE POLICY "Recipients can ignore persona requests"
+  ON persona_requests FOR DELETE
+  TO authenticated
+  USING (auth.uid() = to_user_id);
+
+-- ============================================================================
+-- 3. CHANNEL PAIRING - Only with a contact and persona the peer already has
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION ensure_persona_channel(p_contact_id uuid, p_persona_id uuid)
+RETURNS TABLE (
+  channel_id uuid,
+  conversation_id uuid,
+  is_locked boolean,
+  notification_enabled boolean,
+  peer_persona_name text
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contact contacts%ROWTYPE;
+  v_persona user_personas%ROWTYPE;
+  v_channel persona_channels%ROWTYPE;
+  v_peer_contact_id uuid;
+  v_peer_persona_id uuid;
+  v_peer_channel persona_channels%ROWTYPE;
+BEGIN
+  SELECT * INTO v_contact FROM contacts
+  WHERE id = p_contact_id AND user_id = v_user_id;
+
+  SELECT * INTO v_persona FROM user_personas
+  WHERE id = p_persona_id AND user_id = v_user_id;
+
+  IF v_contact.id IS NULL OR v_persona.id IS NULL THEN
+    RAISE EXCEPTION 'Contact or persona not found';
+  END IF;
+
+  INSERT INTO persona_channels (contact_id, persona_id)
+  VALUES (p_contact_id, p_persona_id)
+  ON CONFLICT (contact_id, persona_id) DO NOTHING;
+
+  SELECT * INTO v_channel FROM persona_channels
+  WHERE contact_id = p_contact_id AND persona_id = p_persona_id;
+
+  IF v_channel.conversation_id IS NULL AND v_contact.contact_user_id IS NOT NULL THEN
+    SELECT id INTO v_peer_contact_id FROM contacts
+    WHERE user_id = v_contact.contact_user_id AND contact_user_id = v_user_id;
+
+    -- Match the peer persona by name among those they allow with us
+    IF v_peer_contact_id IS NOT NULL THEN
+      SELECT id INTO v_peer_persona_id FROM user_personas
+      WHERE user_id = v_contact.contact_user_id
+      AND lower(trim(name)) = lower(trim(v_persona.name))
+      AND is_persona_allowed(v_peer_contact_id, id)
+      ORDER BY is_active DESC, created_at
+      LIMIT 1;
+    END IF;
+
+    IF v_peer_persona_id IS NULL THEN
+      -- Nothing to pair with yet, so start our side and ask the peer
+      INSERT INTO conversations DEFAULT VALUES
+      RETURNING id INTO v_channel.conversation_id;
+
+      INSERT INTO persona_requests (from_user_id, to_user_id, channel_id)
+      VALUES (v_user_id, v_contact.contact_user_id, v_channel.id)
+      ON CONFLICT (channel_id) DO NOTHING;
+    ELSE
+      INSERT INTO persona_channels (contact_id, persona_id)
+      VALUES (v_peer_contact_id, v_peer_persona_id)
+      ON CONFLICT (contact_id, persona_id) DO NOTHING;
+
+      SELECT * INTO v_peer_channel FROM persona_channels
+      WHERE contact_id = v_peer_contact_id AND persona_id = v_peer_persona_id;
+
+      -- Adopt the peer's conversation if they paired first, otherwise start one
+      IF v_peer_channel.conversation_id IS NULL THEN
+        INSERT INTO conversations DEFAULT VALUES
+        RETURNING id INTO v_channel.conversation_id;
+
+        UPDATE persona_channels
+        SET conversation_id = v_channel.conversation_id
+        WHERE id = v_peer_channel.id;
+      ELSE
+        v_channel.conversation_id := v_peer_channel.conversation_id;
+      END IF;
+
+      -- Opening the chat from our side answers the peer's request
+      DELETE FROM persona_requests WHERE channel_id = v_peer_channel.id;
+    END IF;
+
+    UPDATE persona_channels
+    SET conversation_id = v_channel.conversation_id
+    WHERE id = v_channel.id;
+
+    -- Backfill messages sent before the channels were paired
+    UPDATE messages
+    SET conversation_id = v_channel.conversation_id
+    WHERE channel_id IN (v_channel.id, v_peer_channel.id)
+    AND conversation_id IS NULL;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_channel.id,
+    v_channel.conversation_id,
+    v_channel.is_locked,
+    v_channel.notification_enabled,
+    (
+      SELECT up.name FROM persona_channels pc
+      JOIN user_personas up ON up.id = pc.persona_id
+      WHERE pc.conversation_id = v_channel.conversation_id
+      AND pc.id != v_channel.id
+      LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. REQUEST FUNCTIONS
+-- ============================================================================
+
+-- Incoming requests with the sender's name and persona, newest first
+CREATE OR REPLACE FUNCTION get_persona_requests()
+RETURNS TABLE (
+  id uuid,
+  from_user_id uuid,
+  display_name text,
+  persona_name text,
+  persona_icon text,
+  color_primary text,
+  color_accent text,
+  created_at timestamptz
+) AS $$
+  SELECT
+    r.id,
+    r.from_user_id,
+    p.display_name,
+    up.name,
+    up.icon,
+    up.color_primary,
+    up.color_accent,
+    r.created_at
+  FROM persona_requests r
+  JOIN profiles p ON p.id = r.from_user_id
+  JOIN persona_channels pc ON pc.id = r.channel_id
+  JOIN user_personas up ON up.id = pc.persona_id
+  WHERE r.to_user_id = auth.uid()
+  ORDER BY r.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Join the requester's conversation, adding them as a contact if needed.
+-- Without a persona, the one with the same name is used, or a mirror of theirs is created.
+CREATE OR REPLACE FUNCTION accept_persona_request(p_request_id uuid, p_persona_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  contact_id uuid,
+  persona_id uuid
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_request persona_requests%ROWTYPE;
+  v_from_channel persona_channels%ROWTYPE;
+  v_from_persona user_personas%ROWTYPE;
+  v_contact_id uuid;
+  v_persona_id uuid;
+  v_channel persona_channels%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM persona_requests
+  WHERE id = p_request_id AND to_user_id = v_user_id;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  SELECT * INTO v_from_channel FROM persona_channels WHERE id = v_request.channel_id;
+  SELECT * INTO v_from_persona FROM user_personas WHERE id = v_from_channel.persona_id;
+
+  INSERT INTO contacts (user_id, contact_user_id)
+  VALUES (v_user_id, v_request.from_user_id)
+  ON CONFLICT (user_id, contact_user_id) DO NOTHING;
+
+  SELECT id INTO v_contact_id FROM contacts
+  WHERE user_id = v_user_id AND contact_user_id = v_request.from_user_id;
+
+  IF p_persona_id IS NOT NULL THEN
+    SELECT id INTO v_persona_id FROM user_personas
+    WHERE id = p_persona_id AND user_id = v_user_id;
+
+    IF v_persona_id IS NULL THEN
+      RAISE EXCEPTION 'Persona not found';
+    END IF;
+  ELSE
+    SELECT id INTO v_persona_id FROM user_personas
+    WHERE user_id = v_user_id
+    AND lower(trim(name)) = lower(trim(v_from_persona.name))
+    ORDER BY is_active DESC, created_at
+    LIMIT 1;
+
+    IF v_persona_id IS NULL THEN
+      INSERT INTO user_personas (
+        user_id, name, description, icon,
+        color_primary, color_secondary, color_accent, is_custom
+      )
+      VALUES (
+        v_user_id, v_from_persona.name, v_from_persona.description, v_from_persona.icon,
+        v_from_persona.color_primary, v_from_persona.color_secondary, v_from_persona.color_accent, true
+      )
+      RETURNING id INTO v_persona_id;
+    END IF;
+  END IF;
+
+  INSERT INTO persona_channels (contact_id, persona_id)
+  VALUES (v_contact_id, v_persona_id)
+  ON CONFLICT (contact_id, persona_id) DO NOTHING;
+
+  SELECT * INTO v_channel FROM persona_channels
+  WHERE contact_id = v_contact_id AND persona_id = v_persona_id;
+
+  IF v_channel.conversation_id IS NOT NULL AND v_channel.conversation_id != v_from_channel.conversation_id THEN
+    RAISE EXCEPTION 'You already have a chat with them in this persona';
+  END IF;
+
+  UPDATE persona_channels
+  SET conversation_id = v_from_channel.conversation_id
+  WHERE id = v_channel.id;
+
+  UPDATE messages
+  SET conversation_id = v_from_channel.conversation_id
+  WHERE channel_id IN (v_channel.id, v_from_channel.id)
+  AND conversation_id IS NULL;
+
+  DELETE FROM persona_requests WHERE id = v_request.id;
+
+  RETURN QUERY SELECT v_contact_id, v_persona_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE persona_requests;
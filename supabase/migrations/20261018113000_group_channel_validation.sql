@@ -0,0 +1,47 @@
+/*
+  # Group Channel Validation Migration
+
+  validate_group_channel only looked at channels whose contact is a group
+  contact, so a person channel could still be pointed at a group's
+  conversation. Any channel joining a group's conversation must now belong to
+  that group's contact, and its owner must be a current member.
+
+  ## Security
+  - persona_channels: Inserts and updates that set conversation_id to a
+    group's conversation are rejected unless they come from the group contact
+    of a current member
+*/
+
+-- ============================================================================
+-- 1. GROUP CHANNEL CHECK
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_group_channel()
+RETURNS trigger AS $$
+DECLARE
+  v_contact contacts%ROWTYPE;
+  v_group_id uuid;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_contact FROM contacts WHERE id = NEW.contact_id;
+
+  SELECT id INTO v_group_id FROM groups WHERE conversation_id = NEW.conversation_id;
+
+  -- A person channel can never join a group, and a group channel only its own group
+  IF (v_contact.group_id IS NOT NULL OR v_group_id IS NOT NULL) AND NOT (
+    v_contact.group_id IS NOT DISTINCT FROM v_group_id
+    AND EXISTS (
+      SELECT 1 FROM group_members
+      WHERE group_id = v_group_id
+      AND user_id = v_contact.user_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,45 @@
+/*
+  # Message Update Hardening Migration
+
+  Revisions were only archived while the update left deleted_at NULL, so a
+  client could set deleted_at and content in one update and change a message
+  without a trace; the same update got past protect_poll_definition. Clients
+  now only edit content, and messages are tombstoned only through
+  delete_message_for_everyone.
+
+  ## Security
+  - messages: The client UPDATE grant is reduced to content
+  - archive_message_revision: Content of a deleted message can no longer
+    change
+*/
+
+-- ============================================================================
+-- 1. COLUMN GRANTS
+-- ============================================================================
+
+REVOKE UPDATE ON messages FROM anon, authenticated;
+
+GRANT UPDATE (content) ON messages TO authenticated;
+
+-- ============================================================================
+-- 2. REVISIONS
+-- ============================================================================
+
+-- Tombstoning clears the content, which must not be archived as an edit
+CREATE OR REPLACE FUNCTION archive_message_revision()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL AND NEW.content IS DISTINCT FROM OLD.content THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF NEW.deleted_at IS NULL AND NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
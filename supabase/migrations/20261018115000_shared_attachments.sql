@@ -0,0 +1,102 @@
+/*
+  # Shared Attachments Migration
+
+  Forwarded copies reuse the original's file_url, so removing the file when
+  one copy is deleted for everyone, or expires, broke every other copy. A
+  stored file is now only removed once no message refers to it any more.
+
+  ## Changes
+  - delete_message_for_everyone: Returns the attachment URL when the deleted
+    message was its last user, so the client knows the file can be removed
+  - purge_expired_messages: Keeps files that a remaining message still uses
+*/
+
+-- ============================================================================
+-- 1. DELETE FOR EVERYONE - Hand back the file only when nothing else uses it
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS delete_message_for_everyone(uuid);
+
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_file_url text;
+BEGIN
+  SELECT file_url INTO v_file_url FROM messages
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  UPDATE messages
+  SET
+    content = '',
+    file_url = NULL,
+    file_type = NULL,
+    file_name = NULL,
+    poll = NULL,
+    link_preview = NULL,
+    deleted_at = now()
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM message_revisions WHERE message_id = p_message_id;
+  DELETE FROM poll_votes WHERE message_id = p_message_id;
+  DELETE FROM poll_tallies WHERE message_id = p_message_id;
+
+  -- Forwarded copies can still point at the same file
+  IF EXISTS (SELECT 1 FROM messages WHERE file_url = v_file_url) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_file_url;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. PURGE - Keep files that other messages still use
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION purge_expired_messages()
+RETURNS integer AS $$
+DECLARE
+  v_purged integer;
+  v_file_urls text[];
+  v_file_paths text[];
+BEGIN
+  WITH expired AS (
+    DELETE FROM messages
+    WHERE expires_at IS NOT NULL
+    AND expires_at <= now()
+    RETURNING file_url
+  )
+  SELECT
+    count(*),
+    array_agg(DISTINCT file_url) FILTER (WHERE file_url LIKE '%/message-attachments/%')
+  INTO v_purged, v_file_urls
+  FROM expired;
+
+  -- Forwarded copies that haven't expired can still point at the same file
+  SELECT array_agg(split_part(split_part(u.file_url, '/message-attachments/', 2), '?', 1))
+  INTO v_file_paths
+  FROM unnest(v_file_urls) AS u(file_url)
+  WHERE NOT EXISTS (SELECT 1 FROM messages m WHERE m.file_url = u.file_url);
+
+  -- GIFs and other external URLs have no stored object to remove
+  IF v_file_paths IS NOT NULL THEN
+    DELETE FROM storage.objects
+    WHERE bucket_id = 'message-attachments'
+    AND name = ANY(v_file_paths);
+  END IF;
+
+  RETURN v_purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_messages() FROM PUBLIC, anon, authenticated;
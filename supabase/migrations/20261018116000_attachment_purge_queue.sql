@@ -0,0 +1,94 @@
+/*
+  # Attachment Purge Queue Migration
+
+  purge_expired_messages removed attachments by deleting rows from
+  storage.objects, which only drops the metadata (the stored file is left
+  behind) and is refused by newer Supabase versions. Files of expired
+  messages are now queued here and removed through the Storage API by the
+  purge-attachments edge function, which pg_cron calls every minute.
+
+  ## New Tables
+  - attachment_deletions: Paths in the message-attachments bucket waiting
+    to be removed. No client policies; only the service role reads it.
+
+  ## Setup
+  The schedule reads the project URL and service role key from Vault:
+    select vault.create_secret('https://<project>.supabase.co', 'project_url');
+    select vault.create_secret('<service role key>', 'service_role_key');
+*/
+
+-- ============================================================================
+-- 1. QUEUE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS attachment_deletions (
+  path text PRIMARY KEY,
+  queued_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE attachment_deletions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. PURGE - Queue files instead of touching storage.objects
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION purge_expired_messages()
+RETURNS integer AS $$
+DECLARE
+  v_purged integer;
+  v_file_urls text[];
+BEGIN
+  WITH expired AS (
+    DELETE FROM messages
+    WHERE expires_at IS NOT NULL
+    AND expires_at <= now()
+    RETURNING file_url
+  )
+  SELECT
+    count(*),
+    array_agg(DISTINCT file_url) FILTER (WHERE file_url LIKE '%/message-attachments/%')
+  INTO v_purged, v_file_urls
+  FROM expired;
+
+  -- Forwarded copies that haven't expired can still point at the same file
+  INSERT INTO attachment_deletions (path)
+  SELECT split_part(split_part(u.file_url, '/message-attachments/', 2), '?', 1)
+  FROM unnest(v_file_urls) AS u(file_url)
+  WHERE NOT EXISTS (SELECT 1 FROM messages m WHERE m.file_url = u.file_url)
+  ON CONFLICT (path) DO NOTHING;
+
+  RETURN v_purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_messages() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. SCHEDULE - Call the edge function that empties the queue
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+  AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    PERFORM cron.schedule(
+      'purge-attachments',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/purge-attachments',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{}'::jsonb
+        )
+        WHERE EXISTS (SELECT 1 FROM attachment_deletions)
+      $cron$
+    );
+  END IF;
+END;
+$$;
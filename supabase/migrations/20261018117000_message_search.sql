@@ -0,0 +1,13 @@
+/*
+  # Message Search Migration
+
+  ChatView searches a conversation on the server (content ILIKE '%query%')
+  instead of filtering the pages it has loaded. A trigram index lets that
+  substring match use an index rather than scanning every message.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_trgm
+  ON messages USING gin (content gin_trgm_ops)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,72 @@
+/*
+  # Poll Closing Time Validation Migration
+
+  is_valid_poll only checked that closes_at was a string, so a poll could be
+  sent with a closing time that isn't a date, and every vote on it then
+  failed on the ::timestamptz cast in cast_poll_vote. closes_at must now be
+  an ISO 8601 timestamp with a time zone, as sent by the poll composer.
+
+  ## Modified Tables
+  - messages: Polls already stored with an unreadable closing time stay open
+*/
+
+-- ============================================================================
+-- 1. VALIDATION
+-- ============================================================================
+
+-- Returns true for an ISO 8601 timestamp with a time zone, e.g. 2026-10-18T09:30:00.000Z
+CREATE OR REPLACE FUNCTION is_valid_poll_closing_time(p_value text)
+RETURNS boolean AS $$
+BEGIN
+  IF p_value !~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?(Z|[+-]\d{2}(:?\d{2})?)$' THEN
+    RETURN false;
+  END IF;
+
+  -- The pattern allows impossible dates such as 2026-02-30
+  PERFORM p_value::timestamptz;
+  RETURN true;
+EXCEPTION
+  WHEN data_exception THEN
+    RETURN false;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- {question, options[], multiple, anonymous, closes_at}
+CREATE OR REPLACE FUNCTION is_valid_poll(p_poll jsonb)
+RETURNS boolean AS $$
+  SELECT
+    jsonb_typeof(p_poll->'question') = 'string'
+    AND char_length(btrim(p_poll->>'question')) BETWEEN 1 AND 300
+    AND jsonb_typeof(p_poll->'options') = 'array'
+    AND jsonb_array_length(p_poll->'options') BETWEEN 2 AND 10
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_poll->'options') AS o(value)
+      WHERE jsonb_typeof(o.value) != 'string'
+      OR char_length(btrim(o.value #>> '{}')) NOT BETWEEN 1 AND 100
+    )
+    AND jsonb_typeof(p_poll->'multiple') = 'boolean'
+    AND jsonb_typeof(p_poll->'anonymous') = 'boolean'
+    AND (
+      jsonb_typeof(p_poll->'closes_at') IS NULL
+      OR jsonb_typeof(p_poll->'closes_at') = 'null'
+      OR (
+        jsonb_typeof(p_poll->'closes_at') = 'string'
+        AND is_valid_poll_closing_time(p_poll->>'closes_at')
+      )
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- 2. EXISTING POLLS
+-- ============================================================================
+
+-- protect_poll_definition would otherwise restore the old definition
+ALTER TABLE messages DISABLE TRIGGER trigger_protect_poll_definition;
+
+UPDATE messages
+SET poll = jsonb_set(poll, '{closes_at}', 'null')
+WHERE poll IS NOT NULL
+AND jsonb_typeof(poll->'closes_at') = 'string'
+AND NOT is_valid_poll_closing_time(poll->>'closes_at');
+
+ALTER TABLE messages ENABLE TRIGGER trigger_protect_poll_definition;
@@ -0,0 +1,13 @@
+/*
+  # Channel Allowlist On Update Migration
+
+  The persona allowlist trigger on persona_channels only ran on INSERT, so an
+  existing channel could be moved to a persona or contact the allowlist rules
+  out. It now runs whenever either column changes as well.
+*/
+
+DROP TRIGGER IF EXISTS trigger_enforce_channel_persona_allowlist ON persona_channels;
+CREATE TRIGGER trigger_enforce_channel_persona_allowlist
+  BEFORE INSERT OR UPDATE OF persona_id, contact_id ON persona_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_channel_persona_allowlist();
@@ -0,0 +1,110 @@
+/*
+  # Scheduled Message Hardening Migration
+
+  The edit policy only re-checked the sender, so a pending scheduled message
+  could be moved to any channel. deliver_scheduled_messages runs as its owner
+  and would then post it into someone else's conversation. Edits are now
+  limited to the text, time and status, the edited row must still be on one of
+  the sender's channels, and delivery checks both again before inserting.
+
+  ## Security
+  - scheduled_messages: The client UPDATE grant is reduced to content,
+    send_at and status; the edit policy requires a channel the sender owns
+  - deliver_scheduled_messages: Rows whose sender no longer owns the channel,
+    or whose quoted message is not in the channel's conversation, are marked
+    failed instead of delivered
+*/
+
+-- ============================================================================
+-- 1. COLUMN GRANTS
+-- ============================================================================
+
+REVOKE UPDATE ON scheduled_messages FROM anon, authenticated;
+
+GRANT UPDATE (content, send_at, status) ON scheduled_messages TO authenticated;
+
+-- ============================================================================
+-- 2. EDIT POLICY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can edit own unsent scheduled messages" ON scheduled_messages;
+
+CREATE POLICY "Users can edit own unsent scheduled messages"
+  ON scheduled_messages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = sender_id AND status != 'sent')
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    status = 'pending' AND
+    EXISTS (
+      SELECT 1 FROM persona_channels pc
+      JOIN contacts c ON c.id = pc.contact_id
+      WHERE pc.id = channel_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 3. DELIVERY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION deliver_scheduled_messages()
+RETURNS integer AS $$
+DECLARE
+  v_scheduled scheduled_messages%ROWTYPE;
+  v_conversation_id uuid;
+  v_message_id uuid;
+  v_delivered integer := 0;
+BEGIN
+  FOR v_scheduled IN
+    SELECT * FROM scheduled_messages
+    WHERE status = 'pending'
+    AND send_at <= now()
+    ORDER BY send_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      -- The sender may have lost the channel since scheduling; this function bypasses RLS
+      SELECT pc.conversation_id INTO v_conversation_id
+      FROM persona_channels pc
+      JOIN contacts c ON c.id = pc.contact_id
+      WHERE pc.id = v_scheduled.channel_id
+      AND c.user_id = v_scheduled.sender_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender does not own this channel';
+      END IF;
+
+      IF v_scheduled.reply_to_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM messages
+        WHERE id = v_scheduled.reply_to_id
+        AND conversation_id IS NOT DISTINCT FROM v_conversation_id
+      ) THEN
+        RAISE EXCEPTION 'Reply target is not in this conversation';
+      END IF;
+
+      INSERT INTO messages (channel_id, sender_id, content, reply_to_id, status)
+      VALUES (v_scheduled.channel_id, v_scheduled.sender_id, v_scheduled.content, v_scheduled.reply_to_id, 'sent')
+      RETURNING id INTO v_message_id;
+
+      UPDATE persona_channels
+      SET last_message_at = now()
+      WHERE id = v_scheduled.channel_id;
+
+      UPDATE scheduled_messages
+      SET status = 'sent', sent_message_id = v_message_id
+      WHERE id = v_scheduled.id;
+
+      v_delivered := v_delivered + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE scheduled_messages
+      SET status = 'failed'
+      WHERE id = v_scheduled.id;
+    END;
+  END LOOP;
+
+  RETURN v_delivered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION deliver_scheduled_messages() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+/*
+  # Message Insert Hardening Migration
+
+  The client INSERT grant on messages still covered the delivery, read, edit
+  and delete columns, created_at and kind, so a client could post a fake
+  notice, a message already marked read, or a backdated, edited or deleted
+  row. Clients now only write the columns the outbox sends, and only the
+  database itself posts notices.
+
+  ## Security
+  - messages: The client INSERT grant is reduced to the message's own content:
+    id, channel, sender, text, reply, forward, attachment, link preview and
+    poll columns; status, receipts, timestamps and tone take their defaults
+  - sanitize_client_message: Client inserts may only use kind 'message' or
+    'poll'; notices come from SECURITY DEFINER functions such as
+    post_group_notice and set_disappearing_timer
+*/
+
+-- ============================================================================
+-- 1. COLUMN GRANTS
+-- ============================================================================
+
+REVOKE INSERT ON messages FROM anon, authenticated;
+
+GRANT INSERT (
+  id, channel_id, sender_id, content, reply_to_id, forwarded_from_id,
+  file_url, file_type, file_name, link_preview_disabled, kind, poll
+) ON messages TO authenticated;
+
+-- ============================================================================
+-- 2. MESSAGE KIND
+-- ============================================================================
+
+-- Not SECURITY DEFINER: current_user must be the caller's role. Functions that
+-- post notices run as their owner, so they are not the client roles here.
+CREATE OR REPLACE FUNCTION sanitize_client_message()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND NEW.kind NOT IN ('message', 'poll') THEN
+    RAISE EXCEPTION 'Only the server can post notices';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sanitize_client_message ON messages;
+CREATE TRIGGER trigger_sanitize_client_message
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION sanitize_client_message();
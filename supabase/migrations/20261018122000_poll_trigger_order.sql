@@ -0,0 +1,20 @@
+/*
+  # Poll Trigger Order Migration
+
+  BEFORE UPDATE triggers fire in name order, so trigger_archive_message_revision
+  ran before trigger_protect_poll_definition. An attempt to edit a poll's text
+  was reverted, but only after a revision had been archived and edited_at
+  bumped, so the poll showed as edited. The poll trigger is renamed to fire
+  first, so the later triggers only see the reverted row.
+
+  ## Modified Tables
+  - messages: trigger_protect_poll_definition renamed to
+    trigger_a_protect_poll_definition
+*/
+
+-- ============================================================================
+-- 1. TRIGGER ORDER
+-- ============================================================================
+
+-- Must sort before trigger_archive_message_revision and trigger_reset_message_tone
+ALTER TRIGGER trigger_protect_poll_definition ON messages RENAME TO trigger_a_protect_poll_definition;
@@ -0,0 +1,63 @@
+/*
+  # Server-Side Attachment Cleanup Migration
+
+  delete_message_for_everyone handed the unused file URL back to the client,
+  which then removed the file itself. That fails for a forwarded copy whose
+  file belongs to the original uploader, and a client that never follows up
+  leaves the file behind. The path is now queued in attachment_deletions, like
+  files of expired messages, and the purge-attachments job removes it.
+
+  ## Changes
+  - delete_message_for_everyone: Returns nothing; queues the attachment once
+    no other message uses it
+*/
+
+-- ============================================================================
+-- 1. DELETE FOR EVERYONE - Queue the file instead of returning it
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS delete_message_for_everyone(uuid);
+
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_file_url text;
+BEGIN
+  SELECT file_url INTO v_file_url FROM messages
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  UPDATE messages
+  SET
+    content = '',
+    file_url = NULL,
+    file_type = NULL,
+    file_name = NULL,
+    poll = NULL,
+    link_preview = NULL,
+    deleted_at = now()
+  WHERE
+    id = p_message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM message_revisions WHERE message_id = p_message_id;
+  DELETE FROM poll_votes WHERE message_id = p_message_id;
+  DELETE FROM poll_tallies WHERE message_id = p_message_id;
+
+  -- Forwarded copies can still point at the same file; GIFs and other
+  -- external URLs have no stored object to remove
+  IF v_file_url LIKE '%/message-attachments/%'
+  AND NOT EXISTS (SELECT 1 FROM messages WHERE file_url = v_file_url) THEN
+    INSERT INTO attachment_deletions (path)
+    VALUES (split_part(split_part(v_file_url, '/message-attachments/', 2), '?', 1))
+    ON CONFLICT (path) DO NOTHING;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,198 @@
+/*
+  # Group Invites Migration
+
+  add_group_member put anyone in the adder's contact list straight into a
+  group, creating a group contact and channel in their account without
+  asking, and picked their persona without looking at their allowlists.
+  Adding a member now sends an invite; the person joins once they accept,
+  like a persona request.
+
+  ## New Tables
+  - group_invites: One row per person invited to a group
+    - group_id, from_user_id (the admin who invited), to_user_id
+
+  ## Changes
+  - add_group_member: Sends an invite instead of adding the member
+  - accept_group_invite: Joins the group with the chosen persona, or one the
+    invitee's allowlist for the inviter permits, preferring the inviter's
+    persona name, then their active personas
+  - pick_group_persona: Takes the inviter, so their allowlist is respected
+
+  ## Security
+  - Invites are void once the inviter is no longer a group admin
+  - Only the invitee can accept or ignore an invite
+*/
+
+-- ============================================================================
+-- 1. GROUP INVITES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS group_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  from_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  to_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (group_id, to_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_invites_to_user_id ON group_invites(to_user_id, created_at DESC);
+
+ALTER TABLE group_invites ENABLE ROW LEVEL SECURITY;
+
+-- Realtime needs the old row to apply the invitee filter to DELETE events
+ALTER TABLE group_invites REPLICA IDENTITY FULL;
+
+CREATE POLICY "Users can read their group invites"
+  ON group_invites FOR SELECT
+  TO authenticated
+  USING (auth.uid() IN (from_user_id, to_user_id));
+
+CREATE POLICY "Invitees can ignore group invites"
+  ON group_invites FOR DELETE
+  TO authenticated
+  USING (auth.uid() = to_user_id);
+
+-- ============================================================================
+-- 2. PERSONA CHOICE - Respect the invitee's allowlist for the inviter
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS pick_group_persona(uuid, text);
+
+-- Same name as the inviter's persona, else the invitee's first active one,
+-- among the personas the invitee shows the inviter
+CREATE OR REPLACE FUNCTION pick_group_persona(p_user_id uuid, p_from_user_id uuid, p_persona_name text)
+RETURNS uuid AS $$
+  SELECT up.id FROM user_personas up
+  WHERE up.user_id = p_user_id
+  AND is_persona_allowed(
+    (SELECT c.id FROM contacts c WHERE c.user_id = p_user_id AND c.contact_user_id = p_from_user_id),
+    up.id
+  )
+  ORDER BY
+    (lower(trim(up.name)) = lower(trim(p_persona_name))) DESC,
+    up.is_active DESC,
+    up.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION pick_group_persona(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. INVITING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION add_group_member(p_group_id uuid, p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF get_group_role(p_group_id) IS DISTINCT FROM 'owner' AND get_group_role(p_group_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM contacts
+    WHERE user_id = auth.uid()
+    AND contact_user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Members can only be added from your contacts';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM group_members WHERE group_id = p_group_id AND user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO group_invites (group_id, from_user_id, to_user_id)
+  VALUES (p_group_id, auth.uid(), p_user_id)
+  ON CONFLICT (group_id, to_user_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_group_invites()
+RETURNS TABLE (
+  id uuid,
+  group_id uuid,
+  group_name text,
+  group_icon text,
+  from_user_id uuid,
+  display_name text,
+  created_at timestamptz
+) AS $$
+  SELECT
+    i.id,
+    i.group_id,
+    g.name,
+    g.icon,
+    i.from_user_id,
+    p.display_name,
+    i.created_at
+  FROM group_invites i
+  JOIN groups g ON g.id = i.group_id
+  JOIN profiles p ON p.id = i.from_user_id
+  WHERE i.to_user_id = auth.uid()
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Join the group the invite is for. Returns the group's ID.
+CREATE OR REPLACE FUNCTION accept_group_invite(p_invite_id uuid, p_persona_id uuid DEFAULT NULL)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite group_invites%ROWTYPE;
+  v_persona_name text;
+  v_persona_id uuid;
+BEGIN
+  SELECT * INTO v_invite FROM group_invites
+  WHERE id = p_invite_id AND to_user_id = v_user_id;
+
+  IF v_invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  DELETE FROM group_invites WHERE id = v_invite.id;
+
+  IF EXISTS (SELECT 1 FROM group_members WHERE group_id = v_invite.group_id AND user_id = v_user_id) THEN
+    RETURN v_invite.group_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = v_invite.group_id
+    AND user_id = v_invite.from_user_id
+    AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'This invite is no longer valid';
+  END IF;
+
+  IF p_persona_id IS NOT NULL THEN
+    SELECT id INTO v_persona_id FROM user_personas
+    WHERE id = p_persona_id AND user_id = v_user_id;
+
+    IF v_persona_id IS NULL THEN
+      RAISE EXCEPTION 'Persona not found';
+    END IF;
+  ELSE
+    SELECT up.name INTO v_persona_name
+    FROM group_members gm
+    JOIN user_personas up ON up.id = gm.persona_id
+    WHERE gm.group_id = v_invite.group_id
+    AND gm.user_id = v_invite.from_user_id;
+
+    v_persona_id := pick_group_persona(v_user_id, v_invite.from_user_id, v_persona_name);
+
+    IF v_persona_id IS NULL THEN
+      RAISE EXCEPTION 'You have no persona to join with';
+    END IF;
+  END IF;
+
+  PERFORM attach_group_member(v_invite.group_id, v_user_id, v_persona_id, 'member');
+  PERFORM post_group_notice(v_invite.group_id, v_user_id, 'joined the group');
+
+  RETURN v_invite.group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. REALTIME PUBLICATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE group_invites;